@@ -0,0 +1,4 @@
+CREATE TYPE "public"."order_item_status" AS ENUM('pending', 'confirmed', 'rejected');--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "status" "order_item_status" DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "status_updated_at" timestamp;
\ No newline at end of file
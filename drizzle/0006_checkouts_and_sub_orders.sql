@@ -0,0 +1,63 @@
+CREATE TABLE "checkouts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"buyer_id" uuid NOT NULL,
+	"checkout_number" varchar(20) NOT NULL,
+	"total_amount" numeric(10, 2) NOT NULL,
+	"buyer_name" varchar(255) NOT NULL,
+	"buyer_email" varchar(255) NOT NULL,
+	"buyer_phone" varchar(15) NOT NULL,
+	"shipping_address" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "checkouts_checkout_number_unique" UNIQUE("checkout_number")
+);
+--> statement-breakpoint
+-- Orders placed before checkouts existed are moved onto the checkout / per-seller sub-order
+-- model before the new columns become NOT NULL
+ALTER TABLE "orders" ADD COLUMN "checkout_id" uuid;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "seller_id" uuid;--> statement-breakpoint
+-- An order without items can't be attributed to any seller
+DELETE FROM "orders" o
+WHERE NOT EXISTS (SELECT 1 FROM "order_items" oi WHERE oi."order_id" = o."id");--> statement-breakpoint
+-- One checkout per legacy order, reusing its id and number so existing links keep working
+INSERT INTO "checkouts" ("id", "buyer_id", "checkout_number", "total_amount", "buyer_name", "buyer_email", "buyer_phone", "shipping_address", "created_at")
+SELECT "id", "buyer_id", "order_number", "total_amount", "buyer_name", "buyer_email", "buyer_phone", "shipping_address", "created_at"
+FROM "orders";--> statement-breakpoint
+UPDATE "orders" SET "checkout_id" = "id";--> statement-breakpoint
+-- The sellers in each legacy order. The first keeps the original row, every other seller
+-- gets a new sub-order numbered after it.
+CREATE TEMPORARY TABLE "legacy_order_sellers" AS
+SELECT
+	oi."order_id",
+	p."seller_id",
+	row_number() OVER (PARTITION BY oi."order_id" ORDER BY p."seller_id") AS "position",
+	count(*) OVER (PARTITION BY oi."order_id") AS "seller_count",
+	sum(oi."price" * oi."quantity") AS "total_amount",
+	gen_random_uuid() AS "new_order_id"
+FROM "order_items" oi
+INNER JOIN "products" p ON p."id" = oi."product_id"
+GROUP BY oi."order_id", p."seller_id";--> statement-breakpoint
+INSERT INTO "orders" ("id", "checkout_id", "buyer_id", "seller_id", "order_number", "total_amount", "status", "buyer_name", "buyer_email", "buyer_phone", "shipping_address", "created_at")
+SELECT s."new_order_id", o."checkout_id", o."buyer_id", s."seller_id", o."order_number" || '-' || s."position", s."total_amount", o."status", o."buyer_name", o."buyer_email", o."buyer_phone", o."shipping_address", o."created_at"
+FROM "legacy_order_sellers" s
+INNER JOIN "orders" o ON o."id" = s."order_id"
+WHERE s."position" > 1;--> statement-breakpoint
+UPDATE "order_items" oi
+SET "order_id" = s."new_order_id"
+FROM "legacy_order_sellers" s, "products" p
+WHERE s."position" > 1
+	AND oi."order_id" = s."order_id"
+	AND p."id" = oi."product_id"
+	AND p."seller_id" = s."seller_id";--> statement-breakpoint
+-- A split order keeps only its first seller's items, so its total shrinks to match
+UPDATE "orders" o
+SET
+	"seller_id" = s."seller_id",
+	"total_amount" = CASE WHEN s."seller_count" > 1 THEN s."total_amount" ELSE o."total_amount" END
+FROM "legacy_order_sellers" s
+WHERE s."position" = 1 AND o."id" = s."order_id";--> statement-breakpoint
+DROP TABLE "legacy_order_sellers";--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "checkout_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "seller_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_buyer_id_users_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_checkout_id_checkouts_id_fk" FOREIGN KEY ("checkout_id") REFERENCES "public"."checkouts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_seller_id_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."order_actor_role" AS ENUM('buyer', 'seller', 'system');--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'processing' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'shipped' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'out_for_delivery' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'delivered' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'completed' BEFORE 'cancelled';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'return_requested';--> statement-breakpoint
+ALTER TYPE "public"."order_status" ADD VALUE 'returned';--> statement-breakpoint
+CREATE TABLE "order_status_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"order_id" uuid NOT NULL,
+	"from_status" "order_status",
+	"to_status" "order_status" NOT NULL,
+	"actor_role" "order_actor_role" NOT NULL,
+	"actor_id" uuid,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "products" ADD COLUMN "available_quantity" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE SEQUENCE "public"."checkout_number_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1;--> statement-breakpoint
+ALTER TABLE "checkouts" ALTER COLUMN "checkout_number" SET DATA TYPE varchar(32);--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "order_number" SET DATA TYPE varchar(32);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "order_prefix" varchar(6);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "wishlist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"buyer_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	"price_at_add" numeric(10, 2) NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "wishlist_buyer_product_unique" UNIQUE("buyer_id","product_id")
+);
+--> statement-breakpoint
+ALTER TABLE "wishlist" ADD CONSTRAINT "wishlist_buyer_id_users_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "wishlist" ADD CONSTRAINT "wishlist_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
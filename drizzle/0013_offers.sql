@@ -0,0 +1,24 @@
+CREATE TYPE "public"."offer_status" AS ENUM('pending', 'countered', 'accepted', 'rejected', 'withdrawn', 'expired', 'purchased');--> statement-breakpoint
+CREATE TABLE "offers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"buyer_id" uuid NOT NULL,
+	"seller_id" uuid NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"amount" numeric(10, 2) NOT NULL,
+	"counter_amount" numeric(10, 2),
+	"agreed_price" numeric(10, 2),
+	"message" text,
+	"status" "offer_status" DEFAULT 'pending' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cart" ADD COLUMN "offer_id" uuid;--> statement-breakpoint
+ALTER TABLE "offers" ADD CONSTRAINT "offers_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "offers" ADD CONSTRAINT "offers_buyer_id_users_id_fk" FOREIGN KEY ("buyer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "offers" ADD CONSTRAINT "offers_seller_id_users_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "offers_buyer_idx" ON "offers" USING btree ("buyer_id","updated_at");--> statement-breakpoint
+CREATE INDEX "offers_seller_idx" ON "offers" USING btree ("seller_id","updated_at");--> statement-breakpoint
+ALTER TABLE "cart" ADD CONSTRAINT "cart_offer_id_offers_id_fk" FOREIGN KEY ("offer_id") REFERENCES "public"."offers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TYPE "public"."trade_status" AS ENUM('pending', 'completed', 'declined', 'cancelled');--> statement-breakpoint
+CREATE TABLE "trade_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trade_id" uuid NOT NULL,
+	"product_id" uuid NOT NULL,
+	CONSTRAINT "trade_items_trade_product_unique" UNIQUE("trade_id","product_id")
+);
+--> statement-breakpoint
+CREATE TABLE "trades" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"proposer_id" uuid NOT NULL,
+	"recipient_id" uuid NOT NULL,
+	"target_product_id" uuid NOT NULL,
+	"cash_top_up" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"message" text,
+	"status" "trade_status" DEFAULT 'pending' NOT NULL,
+	"responded_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "reserved_for_trade_id" uuid;--> statement-breakpoint
+ALTER TABLE "trade_items" ADD CONSTRAINT "trade_items_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trade_items" ADD CONSTRAINT "trade_items_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trades" ADD CONSTRAINT "trades_proposer_id_users_id_fk" FOREIGN KEY ("proposer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trades" ADD CONSTRAINT "trades_recipient_id_users_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trades" ADD CONSTRAINT "trades_target_product_id_products_id_fk" FOREIGN KEY ("target_product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trades_proposer_idx" ON "trades" USING btree ("proposer_id","updated_at");--> statement-breakpoint
+CREATE INDEX "trades_recipient_idx" ON "trades" USING btree ("recipient_id","updated_at");--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_reserved_for_trade_id_trades_id_fk" FOREIGN KEY ("reserved_for_trade_id") REFERENCES "public"."trades"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "default_location" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "default_contact_number" text;
\ No newline at end of file
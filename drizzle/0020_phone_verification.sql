@@ -0,0 +1,22 @@
+CREATE TABLE "phone_verification_challenges" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"phone_number" text NOT NULL,
+	"code_hash" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"consumed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "verified_phone_numbers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"phone_number" text NOT NULL,
+	"verified_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "verified_phone_numbers_user_phone_unique" UNIQUE("user_id","phone_number")
+);
+--> statement-breakpoint
+ALTER TABLE "phone_verification_challenges" ADD CONSTRAINT "phone_verification_challenges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "verified_phone_numbers" ADD CONSTRAINT "verified_phone_numbers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "phone_verification_challenges_user_idx" ON "phone_verification_challenges" USING btree ("user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "products" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("products"."name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("products"."category", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("products"."description", '')), 'C')
+  ) STORED;--> statement-breakpoint
+CREATE INDEX "products_search_idx" ON "products" USING gin ("search_vector");
\ No newline at end of file
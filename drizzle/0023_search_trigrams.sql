@@ -0,0 +1,3 @@
+-- Trigram matching backs search suggestions and "did you mean" corrections
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "products_name_trgm_idx" ON "products" USING gin ("name" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."trade_status" ADD VALUE 'expired';--> statement-breakpoint
+ALTER TABLE "trades" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+-- Proposals made before expiry existed get a deadline counted from when they were made
+UPDATE "trades" SET "expires_at" = "created_at" + interval '72 hours';--> statement-breakpoint
+ALTER TABLE "trades" ALTER COLUMN "expires_at" SET NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- The words "did you mean" corrections are picked from: every distinct word of a live listing's
+-- name and category, with a trigram index so each lookup doesn't scan the products table.
+-- The search vocabulary cron route refreshes it.
+CREATE MATERIALIZED VIEW "product_vocabulary" AS
+SELECT DISTINCT lower("listing_word") AS "word"
+FROM "products", regexp_split_to_table("products"."name" || ' ' || "products"."category", '[^[:alnum:]]+') AS "listing_word"
+WHERE "products"."is_active" = true AND length("listing_word") > 2;--> statement-breakpoint
+-- Unique, so the cron can refresh it concurrently without blocking lookups
+CREATE UNIQUE INDEX "product_vocabulary_word_idx" ON "product_vocabulary" ("word");--> statement-breakpoint
+CREATE INDEX "product_vocabulary_word_trgm_idx" ON "product_vocabulary" USING gin ("word" gin_trgm_ops);
\ No newline at end of file
@@ -1,28 +1,29 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, unsealSession } from '@/lib/session-token';
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  
-  // Check if user has a valid session cookie
-  const sessionCookie = request.cookies.get('re-trade-session');
-  
-  // If accessing protected routes without session, redirect to login
-  if (pathname.startsWith('/seller/') || pathname.startsWith('/buyer/')) {
-    if (!sessionCookie?.value) {
-      // No session cookie found, redirect to login
-      if (pathname.startsWith('/seller/')) {
-        return NextResponse.redirect(new URL('/login?redirect=' + encodeURIComponent(pathname), request.url));
-      } else if (pathname.startsWith('/buyer/')) {
-        return NextResponse.redirect(new URL('/login?redirect=' + encodeURIComponent(pathname), request.url));
+
+  // If accessing protected routes without a valid session, redirect to login
+  if (pathname.startsWith('/seller/') || pathname.startsWith('/buyer/') || pathname.startsWith('/account/')) {
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
+    const session = await unsealSession(sessionCookie?.value);
+
+    if (!session) {
+      // Missing, expired or tampered session cookie, redirect to login
+      const response = NextResponse.redirect(new URL('/login?redirect=' + encodeURIComponent(pathname), request.url));
+      if (sessionCookie) {
+        response.cookies.delete(SESSION_COOKIE_NAME);
       }
+      return response;
     }
-    
-    // Session cookie exists, let the request proceed
-    // The actual authentication will be handled by the server components using requireSellerAuth/requireBuyerAuth
+
+    // Session token is authentic, let the request proceed
+    // Role checks are handled by the server components using requireSellerAuth/requireBuyerAuth
     return NextResponse.next();
   }
-  
+
   return NextResponse.next();
 }
 
@@ -30,5 +31,6 @@ export const config = {
   matcher: [
     '/seller/:path*',
     '/buyer/:path*',
+    '/account/:path*',
   ],
 };
@@ -0,0 +1,51 @@
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, ShieldCheck } from "lucide-react";
+import Link from "next/link";
+import { requireAuth } from "@/lib/session";
+import { getActiveSessions } from "@/lib/session-actions";
+import SessionsClient from "./sessions-client";
+
+export default async function AccountSessionsPage() {
+  // Both buyers and sellers can manage their devices
+  const session = await requireAuth();
+  const activeSessions = await getActiveSessions();
+  const dashboardPath = session.role === 'seller' ? "/seller" : "/buyer";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {/* Navigation Header */}
+      <nav className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href={dashboardPath}>
+                <Button variant="ghost" size="sm" className="mr-4">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center mr-3">
+                <ShieldCheck className="w-5 h-5 text-white" />
+              </div>
+              <span className="text-xl font-bold text-gray-900">Account Security</span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Active Sessions
+          </h1>
+          <p className="text-gray-600">
+            These devices are currently signed in to your account. If you don't recognise one, sign it out.
+          </p>
+        </div>
+
+        <SessionsClient sessions={activeSessions} />
+      </main>
+    </div>
+  );
+}
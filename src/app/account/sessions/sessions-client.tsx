@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { 
+  Monitor,
+  Smartphone,
+  Globe,
+  Clock,
+  LogOut
+} from "lucide-react";
+import { revokeSession, revokeAllSessions, type ActiveSession } from "@/lib/session-actions";
+import { toast } from "sonner";
+
+interface SessionsClientProps {
+  sessions: ActiveSession[];
+}
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+
+  const os = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "Unknown OS";
+
+  return `${browser} on ${os}`;
+};
+
+const isMobile = (userAgent: string | null) => {
+  return !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+};
+
+export default function SessionsClient({ sessions }: SessionsClientProps) {
+  const router = useRouter();
+  const [localSessions, setLocalSessions] = useState<ActiveSession[]>(sessions);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setIsLoading(true);
+      const result = await revokeSession(sessionId);
+      toast.success(result.message);
+      if (result.redirectPath) {
+        router.push(result.redirectPath);
+        return;
+      }
+      setLocalSessions(prev => prev.filter(s => s.id !== sessionId));
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke session");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevokeAll = async (includeCurrent: boolean) => {
+    try {
+      setIsLoading(true);
+      const result = await revokeAllSessions({ includeCurrent });
+      toast.success(result.message);
+      if (result.redirectPath) {
+        router.push(result.redirectPath);
+        return;
+      }
+      setLocalSessions(prev => prev.filter(s => s.isCurrent));
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke sessions");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const otherSessions = localSessions.filter(s => !s.isCurrent);
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {localSessions.length} active session{localSessions.length !== 1 ? 's' : ''}
+          </h2>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRevokeAll(false)}
+              disabled={isLoading || otherSessions.length === 0}
+            >
+              Sign out other devices
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => handleRevokeAll(true)}
+              disabled={isLoading}
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out everywhere
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {localSessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-center gap-4">
+                <div className="p-3 rounded-full bg-blue-100 text-blue-600">
+                  {isMobile(session.userAgent) ? (
+                    <Smartphone className="w-5 h-5" />
+                  ) : (
+                    <Monitor className="w-5 h-5" />
+                  )}
+                </div>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-gray-900">{describeDevice(session.userAgent)}</p>
+                    {session.isCurrent && (
+                      <Badge variant="secondary" className="bg-green-100 text-green-800">
+                        This device
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 mt-1 text-sm text-gray-600">
+                    <span className="flex items-center gap-1">
+                      <Globe className="w-4 h-4" />
+                      {session.ipAddress || "Unknown IP"}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-4 h-4" />
+                      Last active {new Date(session.lastSeenAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRevoke(session.id)}
+                disabled={isLoading}
+                className="text-red-600 hover:text-red-700"
+              >
+                {session.isCurrent ? "Sign out" : "Revoke"}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
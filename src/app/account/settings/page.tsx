@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Settings } from "lucide-react";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { requireAuth } from "@/lib/session";
+import { getAccountSettings } from "@/lib/user-actions";
+import { getMyVerifiedPhoneNumbers } from "@/lib/phone-actions";
+import SettingsClient from "./settings-client";
+import PhoneNumbersCard from "./phone-numbers-card";
+
+export default async function AccountSettingsPage() {
+  // Both buyers and sellers manage their own account details here
+  const session = await requireAuth();
+  const settings = await getAccountSettings();
+  const verifiedPhones = session.role === 'seller' ? await getMyVerifiedPhoneNumbers() : [];
+  const dashboardPath = session.role === 'seller' ? "/seller" : "/buyer";
+
+  if (!settings) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {/* Navigation Header */}
+      <nav className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href={dashboardPath}>
+                <Button variant="ghost" size="sm" className="mr-4">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center mr-3">
+                <Settings className="w-5 h-5 text-white" />
+              </div>
+              <span className="text-xl font-bold text-gray-900">Account Settings</span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Account Settings
+          </h1>
+          <p className="text-gray-600">
+            Update your contact details, sign-in email and password.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <SettingsClient settings={settings} />
+          {session.role === 'seller' && <PhoneNumbersCard verifiedPhones={verifiedPhones} />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Phone, ShieldCheck, Trash2 } from "lucide-react";
+import {
+  confirmPhoneVerificationCode,
+  removeVerifiedPhoneNumber,
+  sendPhoneVerificationCode,
+  type VerifiedPhone,
+} from "@/lib/phone-actions";
+import { toast } from "sonner";
+
+interface PhoneNumbersCardProps {
+  verifiedPhones: VerifiedPhone[];
+}
+
+export default function PhoneNumbersCard({ verifiedPhones }: PhoneNumbersCardProps) {
+  const router = useRouter();
+
+  const [phoneNumber, setPhoneNumber] = useState("");
+  // The number a code was last sent to; the code field only shows once there is one
+  const [pendingNumber, setPendingNumber] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleSendCode = async () => {
+    try {
+      setIsSending(true);
+      const result = await sendPhoneVerificationCode({ phoneNumber: phoneNumber.trim() });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      setPendingNumber(phoneNumber.trim());
+      setCode("");
+    } catch (error) {
+      console.error("Error sending verification code:", error);
+      toast.error("Failed to send verification code");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleConfirmCode = async () => {
+    if (!pendingNumber) return;
+
+    try {
+      setIsConfirming(true);
+      const result = await confirmPhoneVerificationCode({ phoneNumber: pendingNumber, code });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      setPendingNumber(null);
+      setPhoneNumber("");
+      setCode("");
+      router.refresh();
+    } catch (error) {
+      console.error("Error confirming verification code:", error);
+      toast.error("Failed to verify phone number");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      setRemovingId(id);
+      const result = await removeVerifiedPhoneNumber(id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      router.refresh();
+    } catch (error) {
+      console.error("Error removing phone number:", error);
+      toast.error("Failed to remove phone number");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Phone className="w-5 h-5" />
+          Verified Phone Numbers
+        </CardTitle>
+        <CardDescription>
+          Listings can only show a contact number you&apos;ve confirmed by SMS. Buyers see a verified badge next to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verifiedPhones.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven&apos;t verified any numbers yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {verifiedPhones.map((phone) => (
+              <li key={phone.id} className="flex items-center justify-between py-2">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="w-4 h-4 text-green-600" />
+                  <span className="font-medium text-gray-900">{phone.phoneNumber}</span>
+                  <span className="text-xs text-gray-500">
+                    verified {new Date(phone.verifiedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(phone.id)}
+                  disabled={removingId === phone.id}
+                  aria-label={`Remove ${phone.phoneNumber}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="verify-phone-number">Add a number</Label>
+            <Input
+              id="verify-phone-number"
+              placeholder="e.g. 0771234567"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+            />
+          </div>
+          {pendingNumber && (
+            <div className="space-y-2">
+              <Label htmlFor="verify-phone-code">Code sent to {pendingNumber}</Label>
+              <Input
+                id="verify-phone-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                placeholder="6-digit code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleSendCode}
+            disabled={isSending || !phoneNumber.trim()}
+          >
+            {isSending ? "Sending..." : pendingNumber ? "Resend Code" : "Send Code"}
+          </Button>
+          {pendingNumber && (
+            <Button onClick={handleConfirmCode} disabled={isConfirming || code.trim().length !== 6}>
+              {isConfirming ? "Verifying..." : "Verify"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BadgeCheck, KeyRound, Mail, User } from "lucide-react";
+import { changeEmail, changePassword, updateProfile, type AccountSettings } from "@/lib/user-actions";
+import { resendVerificationEmail } from "@/lib/auth-actions";
+import { sriLankanCities } from "@/lib/validation-schemas";
+import { toast } from "sonner";
+
+interface SettingsClientProps {
+  settings: AccountSettings;
+}
+
+export default function SettingsClient({ settings }: SettingsClientProps) {
+  const router = useRouter();
+
+  const [profile, setProfile] = useState({
+    name: settings.name,
+    phone: settings.phone || "",
+    defaultLocation: settings.defaultLocation || "",
+    defaultContactNumber: settings.defaultContactNumber || "",
+  });
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [email, setEmail] = useState(settings.email);
+  const [emailPassword, setEmailPassword] = useState("");
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  const [passwords, setPasswords] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  const handleSaveProfile = async () => {
+    try {
+      setIsSavingProfile(true);
+      const result = await updateProfile(profile);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      router.refresh();
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      toast.error("Failed to update profile");
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    try {
+      setIsSavingEmail(true);
+      const result = await changeEmail({ email, currentPassword: emailPassword });
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      setEmailPassword("");
+      router.refresh();
+    } catch (error) {
+      console.error("Error changing email:", error);
+      toast.error("Failed to change email");
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setIsResending(true);
+      const result = await resendVerificationEmail();
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      toast.error("Failed to send verification email");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    try {
+      setIsSavingPassword(true);
+      const result = await changePassword(passwords);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+      setPasswords({ currentPassword: "", newPassword: "", confirmPassword: "" });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      toast.error("Failed to change password");
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Profile */}
+      <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <User className="w-5 h-5" />
+            Profile
+          </CardTitle>
+          <CardDescription>
+            {settings.role === 'seller'
+              ? "Your default location and contact number are filled in for each new listing."
+              : "Your phone number is filled in at checkout."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-name">Name</Label>
+              <Input
+                id="settings-name"
+                value={profile.name}
+                onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-phone">Phone</Label>
+              <Input
+                id="settings-phone"
+                type="tel"
+                placeholder="e.g. 0771234567"
+                value={profile.phone}
+                onChange={(e) => setProfile(prev => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Default location</Label>
+              <Select
+                value={profile.defaultLocation}
+                onValueChange={(value) => setProfile(prev => ({ ...prev, defaultLocation: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sriLankanCities.map((city) => (
+                    <SelectItem key={city} value={city}>
+                      {city}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-contact">Default contact number</Label>
+              <Input
+                id="settings-contact"
+                type="tel"
+                placeholder="e.g. 0771234567"
+                value={profile.defaultContactNumber}
+                onChange={(e) => setProfile(prev => ({ ...prev, defaultContactNumber: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveProfile} disabled={isSavingProfile || !profile.name.trim()}>
+              {isSavingProfile ? "Saving..." : "Save Profile"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Email */}
+      <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="w-5 h-5" />
+            Email
+            {settings.emailVerifiedAt ? (
+              <Badge variant="outline" className="border-green-200 bg-green-50 text-green-700">
+                <BadgeCheck className="w-3 h-3 mr-1" />
+                Verified
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="border-amber-200 bg-amber-50 text-amber-700">
+                Not verified
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            You sign in with this address. Confirm your current password to change it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!settings.emailVerifiedAt && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
+              <p className="text-sm text-amber-800">
+                Verify {settings.email} to list products and place orders.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleResendVerification}
+                disabled={isResending}
+              >
+                {isResending ? "Sending..." : "Resend Link"}
+              </Button>
+            </div>
+          )}
+          {settings.pendingEmail && (
+            <div className="rounded-lg border border-blue-200 bg-blue-50 p-3">
+              <p className="text-sm text-blue-800">
+                Open the link we sent to {settings.pendingEmail} to switch to it. Until then you keep
+                signing in with {settings.email}.
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-email">Email</Label>
+              <Input
+                id="settings-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-email-password">Current password</Label>
+              <Input
+                id="settings-email-password"
+                type="password"
+                autoComplete="current-password"
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleChangeEmail}
+              disabled={isSavingEmail || !emailPassword || email.trim().toLowerCase() === settings.email}
+            >
+              {isSavingEmail ? "Saving..." : "Change Email"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Password */}
+      <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5" />
+            Password
+          </CardTitle>
+          <CardDescription>
+            Changing your password signs you out on every other device.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="settings-current-password">Current password</Label>
+            <Input
+              id="settings-current-password"
+              type="password"
+              autoComplete="current-password"
+              value={passwords.currentPassword}
+              onChange={(e) => setPasswords(prev => ({ ...prev, currentPassword: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-new-password">New password</Label>
+              <Input
+                id="settings-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords(prev => ({ ...prev, newPassword: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-confirm-password">Confirm new password</Label>
+              <Input
+                id="settings-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.confirmPassword}
+                onChange={(e) => setPasswords(prev => ({ ...prev, confirmPassword: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleChangePassword}
+              disabled={isSavingPassword || !passwords.currentPassword || !passwords.newPassword}
+            >
+              {isSavingPassword ? "Saving..." : "Change Password"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
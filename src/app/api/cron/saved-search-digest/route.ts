@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { sendSavedSearchDigests } from "@/lib/saved-search-digest";
+
+// Sends the daily saved search digest. Scheduled in vercel.json; the scheduler authenticates
+// with CRON_SECRET as a bearer token, and without the secret set the route stays closed.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await sendSavedSearchDigests();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Saved search digest run error:", error);
+    return NextResponse.json({ error: "Failed to send saved search digests" }, { status: 500 });
+  }
+}
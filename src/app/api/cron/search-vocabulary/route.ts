@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { refreshSearchVocabulary } from "@/lib/search-vocabulary";
+
+// Rebuilds the "did you mean" word list from the current listings. Scheduled in vercel.json;
+// the scheduler authenticates with CRON_SECRET as a bearer token, and without the secret set the
+// route stays closed.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await refreshSearchVocabulary();
+    return NextResponse.json({ refreshed: true });
+  } catch (error) {
+    console.error("Search vocabulary refresh error:", error);
+    return NextResponse.json({ error: "Failed to refresh the search vocabulary" }, { status: 500 });
+  }
+}
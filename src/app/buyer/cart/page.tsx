@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { getCartItems, updateCartItem, removeFromCart, CartSummary } from "@/lib/cart-actions";
+import { getCartItems, updateCartItem, removeFromCart, acceptListedPrice, CartSummary } from "@/lib/cart-actions";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BuyerNav } from "@/components/buyer-nav";
@@ -14,7 +14,8 @@ import {
   Plus, 
   Trash2, 
   ArrowRight,
-  ShoppingBag
+  ShoppingBag,
+  AlertCircle
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -79,6 +80,24 @@ export default function CartPage() {
     }
   };
 
+  const handleAcceptListedPrice = async (cartItemId: string) => {
+    try {
+      setUpdatingItems(prev => new Set(prev).add(cartItemId));
+      const result = await acceptListedPrice(cartItemId);
+      await loadCart();
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error accepting listed price:", error);
+      toast.error("Failed to update cart item");
+    } finally {
+      setUpdatingItems(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(cartItemId);
+        return newSet;
+      });
+    }
+  };
+
   const formatPrice = (price: string | number) => {
     return new Intl.NumberFormat('en-LK', {
       style: 'currency',
@@ -88,6 +107,8 @@ export default function CartPage() {
     }).format(Number(price));
   };
 
+  const hasLapsedOffers = cartData?.items.some(item => item.lapsedOfferPrice) ?? false;
+
   const handleCheckout = () => {
     router.push("/buyer/checkout");
   };
@@ -172,7 +193,8 @@ export default function CartPage() {
           <div className="lg:col-span-2 space-y-4">
             {cartData.items.map((item) => {
               const isUpdating = updatingItems.has(item.id);
-              const itemTotal = parseFloat(item.product.price) * item.quantity;
+              const unitPrice = item.offerPrice ?? item.product.price;
+              const itemTotal = parseFloat(unitPrice) * item.quantity;
 
               return (
                 <Card key={item.id} className={isUpdating ? "opacity-50" : ""}>
@@ -203,6 +225,11 @@ export default function CartPage() {
                           <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded">
                             {item.product.condition}
                           </span>
+                          {item.offerPrice && (
+                            <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
+                              Offer accepted
+                            </span>
+                          )}
                         </div>
 
                         <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
@@ -210,6 +237,27 @@ export default function CartPage() {
                           <span>•</span>
                           <span>{item.product.location}</span>
                         </div>
+
+                        {item.lapsedOfferPrice && (
+                          <div className="mt-3 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                            <div className="flex items-start gap-2">
+                              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              <span>
+                                Your accepted offer of {formatPrice(item.lapsedOfferPrice)} has expired.
+                                This item is now {formatPrice(item.product.price)} each.
+                              </span>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="mt-2"
+                              onClick={() => handleAcceptListedPrice(item.id)}
+                              disabled={isUpdating}
+                            >
+                              Keep at listed price
+                            </Button>
+                          </div>
+                        )}
                       </div>
 
                       {/* Price and Controls */}
@@ -219,8 +267,13 @@ export default function CartPage() {
                             {formatPrice(itemTotal)}
                           </div>
                           <div className="text-sm text-gray-600">
-                            {formatPrice(item.product.price)} each
+                            {formatPrice(unitPrice)} each
                           </div>
+                          {item.offerPrice && (
+                            <div className="text-xs text-gray-500 line-through">
+                              {formatPrice(item.product.price)} listed
+                            </div>
+                          )}
                         </div>
 
                         {/* Quantity Controls */}
@@ -240,7 +293,7 @@ export default function CartPage() {
                             variant="outline"
                             size="sm"
                             onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
-                            disabled={isUpdating}
+                            disabled={isUpdating || item.quantity >= item.product.availableQuantity}
                           >
                             <Plus className="w-4 h-4" />
                           </Button>
@@ -293,10 +346,17 @@ export default function CartPage() {
                   <span>{formatPrice(cartData.totalAmount)}</span>
                 </div>
 
+                {hasLapsedOffers && (
+                  <p className="text-sm text-amber-700">
+                    Review the items whose offer expired before checking out.
+                  </p>
+                )}
+
                 <Button 
                   onClick={handleCheckout}
                   size="lg" 
                   className="w-full"
+                  disabled={hasLapsedOffers}
                 >
                   Proceed to Checkout
                   <ArrowRight className="w-4 h-4 ml-2" />
@@ -8,6 +8,7 @@ import { getCurrentUser } from "@/lib/user-actions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { BuyerNav } from "@/components/buyer-nav";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -137,7 +138,7 @@ export default function CheckoutPage() {
       const result = await createOrder(formData);
       
       toast.success("Order placed successfully!");
-      router.push(`/buyer/orders/${result.orderId}`);
+      router.push(`/buyer/orders/${result.checkoutId}`);
     } catch (error) {
       console.error("Error placing order:", error);
       toast.error(error instanceof Error ? error.message : "Failed to place order");
@@ -187,6 +188,8 @@ export default function CheckoutPage() {
     );
   }
 
+  const hasLapsedOffers = cartData?.items.some(item => item.lapsedOfferPrice) ?? false;
+
   if (!cartData || !user) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -205,6 +208,8 @@ export default function CheckoutPage() {
     <div className="min-h-screen bg-gray-50">
       <BuyerNav />
       <div className="container mx-auto px-4 max-w-6xl py-8">
+        <EmailVerificationBanner action="place orders" />
+
         {/* Header */}
         <div className="mb-8">
           <Button
@@ -357,7 +362,7 @@ export default function CheckoutPage() {
                             Qty: {item.quantity}
                           </p>
                           <p className="text-sm font-medium text-gray-900">
-                            {formatPrice(parseFloat(item.product.price) * item.quantity)}
+                            {formatPrice(parseFloat(item.offerPrice ?? item.product.price) * item.quantity)}
                           </p>
                         </div>
                       </div>
@@ -389,10 +394,20 @@ export default function CheckoutPage() {
                     <span>{formatPrice(cartData.totalAmount)}</span>
                   </div>
 
+                  {hasLapsedOffers && (
+                    <div className="p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900">
+                      An offer on an item in your cart has expired and its price has changed.{" "}
+                      <button type="button" className="underline" onClick={() => router.push("/buyer/cart")}>
+                        Review your cart
+                      </button>{" "}
+                      before placing the order.
+                    </div>
+                  )}
+
                   {/* Place Order Button */}
                   <Button 
                     type="submit"
-                    disabled={isSubmitting}
+                    disabled={isSubmitting || hasLapsedOffers}
                     size="lg" 
                     className="w-full"
                   >
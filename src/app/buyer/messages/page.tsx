@@ -0,0 +1,42 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { BuyerNav } from "@/components/buyer-nav";
+import { ConversationInbox } from "@/components/conversation-inbox";
+
+function MessagesPageContent() {
+  const searchParams = useSearchParams();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <BuyerNav />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Messages</h1>
+          <p className="text-gray-600">
+            Your conversations with sellers about their products and your orders
+          </p>
+        </div>
+
+        <ConversationInbox role="buyer" initialConversationId={searchParams.get("c")} />
+      </div>
+    </div>
+  );
+}
+
+export default function MessagesPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    }>
+      <MessagesPageContent />
+    </Suspense>
+  );
+}
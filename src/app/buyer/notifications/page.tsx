@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  NotificationItem
+} from "@/lib/notification-actions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { BuyerNav } from "@/components/buyer-nav";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bell, BookmarkCheck, CheckCheck, PackageCheck, TrendingDown } from "lucide-react";
+import { toast } from "sonner";
+
+const notificationStyles = {
+  price_drop: { icon: TrendingDown, badgeClassName: "bg-green-100 text-green-800" },
+  back_in_stock: { icon: PackageCheck, badgeClassName: "bg-blue-100 text-blue-800" },
+  saved_search_match: { icon: BookmarkCheck, badgeClassName: "bg-purple-100 text-purple-800" },
+} satisfies Record<NotificationItem['type'], { icon: typeof Bell; badgeClassName: string }>;
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [markingAll, setMarkingAll] = useState(false);
+
+  const loadNotifications = async () => {
+    try {
+      setLoading(true);
+      const data = await getNotifications();
+      setNotifications(data);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+      toast.error("Failed to load notifications");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadNotifications();
+  }, []);
+
+  const markReadLocally = (ids: string[]) => {
+    const now = new Date();
+    setNotifications(prev =>
+      prev.map(n => (ids.includes(n.id) && !n.readAt ? { ...n, readAt: now } : n))
+    );
+  };
+
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      try {
+        await markNotificationRead(notification.id);
+        markReadLocally([notification.id]);
+      } catch (error) {
+        console.error("Error marking notification read:", error);
+      }
+    }
+
+    if (notification.product) {
+      router.push(`/buyer/products/${notification.product.id}`);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      setMarkingAll(true);
+      const result = await markAllNotificationsRead();
+      markReadLocally(notifications.map(n => n.id));
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update notifications");
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const unreadCount = notifications.filter(n => !n.readAt).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <BuyerNav />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Notifications</h1>
+            <p className="text-gray-600">
+              Price drops and restocks for items on your wishlist, and new listings for your saved searches
+            </p>
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="outline" onClick={handleMarkAllRead} disabled={markingAll}>
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-4">
+                  <div className="flex gap-4">
+                    <Skeleton className="w-16 h-16" />
+                    <div className="flex-1 space-y-2">
+                      <Skeleton className="h-5 w-1/3" />
+                      <Skeleton className="h-4 w-3/4" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-16 space-y-4">
+            <Bell className="w-16 h-16 mx-auto text-gray-400" />
+            <h2 className="text-xl font-semibold text-gray-900">No notifications yet</h2>
+            <p className="text-gray-600">
+              Save items to your wishlist and we&apos;ll let you know when they get cheaper or come back in stock.
+              Save a search and we&apos;ll tell you when a new listing matches it.
+            </p>
+            <Button onClick={() => router.push("/buyer/products")}>
+              Browse Products
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {notifications.map((notification) => {
+              const { icon: Icon, badgeClassName } = notificationStyles[notification.type];
+
+              return (
+                <Card
+                  key={notification.id}
+                  className={`cursor-pointer transition-colors hover:bg-gray-50 ${
+                    notification.readAt ? "" : "border-blue-200 bg-blue-50/50"
+                  }`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex gap-4 items-start">
+                      {notification.product?.image ? (
+                        <img
+                          src={notification.product.image}
+                          alt=""
+                          className="w-16 h-16 object-cover rounded-md flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-16 h-16 rounded-md bg-gray-100 flex items-center justify-center flex-shrink-0">
+                          <Icon className="w-6 h-6 text-gray-400" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge className={badgeClassName}>
+                            <Icon className="w-3 h-3 mr-1" />
+                            {notification.title}
+                          </Badge>
+                          {!notification.readAt && (
+                            <span className="w-2 h-2 rounded-full bg-blue-600" aria-label="Unread" />
+                          )}
+                        </div>
+                        <p className="text-gray-900">{notification.message}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(notification.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
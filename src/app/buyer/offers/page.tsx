@@ -0,0 +1,23 @@
+"use client";
+
+import { BuyerNav } from "@/components/buyer-nav";
+import { OfferList } from "@/components/offer-list";
+
+export default function OffersPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <BuyerNav />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Offers</h1>
+          <p className="text-gray-600">
+            Accepted offers go straight to your cart at the agreed price
+          </p>
+        </div>
+
+        <OfferList role="buyer" />
+      </div>
+    </div>
+  );
+}
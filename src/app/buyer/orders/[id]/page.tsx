@@ -2,13 +2,19 @@
 
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { getOrderById, cancelOrder, OrderDetails } from "@/lib/order-actions";
+import { getCheckoutById, cancelOrder, confirmOrderReceived, requestOrderReturn, CheckoutDetails, OrderDetails } from "@/lib/order-actions";
+import { orderStatusLabels, reviewableOrderStatuses, type OrderStatus } from "@/lib/order-status";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BuyerNav } from "@/components/buyer-nav";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MessageSellerDialog } from "@/components/message-seller-dialog";
+import { ReviewDialog } from "@/components/review-dialog";
+import { StarRating } from "@/components/star-rating";
 import { 
   ArrowLeft,
   Package,
@@ -21,24 +27,35 @@ import {
   Truck,
   X,
   Check,
-  Clock
+  Clock,
+  PackageCheck,
+  RotateCcw,
+  MessageSquare,
+  Star
 } from "lucide-react";
 import { toast } from "sonner";
 
 export default function OrderDetailsPage() {
   const params = useParams();
   const router = useRouter();
-  const orderId = params.id as string;
+  const checkoutId = params.id as string;
 
-  const [order, setOrder] = useState<OrderDetails | null>(null);
+  const [order, setOrder] = useState<CheckoutDetails | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isCancelling, setIsCancelling] = useState(false);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [returningOrder, setReturningOrder] = useState<OrderDetails | null>(null);
+  const [returnReason, setReturnReason] = useState("");
+  const [messagingOrder, setMessagingOrder] = useState<OrderDetails | null>(null);
+  const [reviewing, setReviewing] = useState<{
+    sellerName: string;
+    item: OrderDetails['items'][number];
+  } | null>(null);
 
   useEffect(() => {
     const loadOrder = async () => {
       try {
         setLoading(true);
-        const orderData = await getOrderById(orderId);
+        const orderData = await getCheckoutById(checkoutId);
         
         if (!orderData) {
           toast.error("Order not found");
@@ -55,20 +72,20 @@ export default function OrderDetailsPage() {
       }
     };
 
-    if (orderId) {
+    if (checkoutId) {
       loadOrder();
     }
-  }, [orderId, router]);
+  }, [checkoutId, router]);
 
-  const handleCancelOrder = async () => {
-    if (!order || order.status !== 'pending') return;
+  const handleCancelOrder = async (subOrder: OrderDetails) => {
+    if (subOrder.status !== 'pending') return;
 
     try {
-      setIsCancelling(true);
-      await cancelOrder(order.id);
+      setUpdatingOrderId(subOrder.id);
+      await cancelOrder(subOrder.id);
       
       // Reload order to get updated status
-      const updatedOrder = await getOrderById(orderId);
+      const updatedOrder = await getCheckoutById(checkoutId);
       setOrder(updatedOrder);
       
       toast.success("Order cancelled successfully");
@@ -76,7 +93,54 @@ export default function OrderDetailsPage() {
       console.error("Error cancelling order:", error);
       toast.error("Failed to cancel order");
     } finally {
-      setIsCancelling(false);
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const handleConfirmReceived = async (subOrder: OrderDetails) => {
+    try {
+      setUpdatingOrderId(subOrder.id);
+      const result = await confirmOrderReceived(subOrder.id);
+      
+      const updatedOrder = await getCheckoutById(checkoutId);
+      setOrder(updatedOrder);
+      
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error completing order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to complete order");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const handleReviewed = async () => {
+    try {
+      const updatedOrder = await getCheckoutById(checkoutId);
+      setOrder(updatedOrder);
+    } catch (error) {
+      console.error("Error reloading order:", error);
+    }
+  };
+
+  const handleRequestReturn = async () => {
+    if (!returningOrder) return;
+
+    try {
+      setUpdatingOrderId(returningOrder.id);
+      const result = await requestOrderReturn(returningOrder.id, returnReason);
+      
+      const updatedOrder = await getCheckoutById(checkoutId);
+      setOrder(updatedOrder);
+      setReturningOrder(null);
+      setReturnReason("");
+      
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error requesting return:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to request return");
+    } finally {
+      setUpdatingOrderId(null);
     }
   };
 
@@ -92,10 +156,19 @@ export default function OrderDetailsPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'return_requested':
         return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      case 'shipped':
+      case 'out_for_delivery':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'delivered':
+      case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
+      case 'returned':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
@@ -105,9 +178,19 @@ export default function OrderDetailsPage() {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'processing':
         return <Clock className="w-4 h-4" />;
       case 'confirmed':
         return <Check className="w-4 h-4" />;
+      case 'shipped':
+      case 'out_for_delivery':
+        return <Truck className="w-4 h-4" />;
+      case 'delivered':
+      case 'completed':
+        return <PackageCheck className="w-4 h-4" />;
+      case 'return_requested':
+      case 'returned':
+        return <RotateCcw className="w-4 h-4" />;
       case 'cancelled':
         return <X className="w-4 h-4" />;
       default:
@@ -115,14 +198,53 @@ export default function OrderDetailsPage() {
     }
   };
 
-  const getStatusText = (status: string) => {
+  const getStatusText = (status: OrderStatus) => {
+    if (status === 'pending') return 'Pending Confirmation';
+    return orderStatusLabels[status] || status;
+  };
+
+  const getTimelineDotColor = (status: OrderStatus) => {
+    switch (status) {
+      case 'cancelled':
+      case 'returned':
+        return 'bg-red-500';
+      case 'return_requested':
+        return 'bg-yellow-500';
+      case 'delivered':
+      case 'completed':
+        return 'bg-green-500';
+      default:
+        return 'bg-blue-500';
+    }
+  };
+
+  const getTimelineTitle = (entry: OrderDetails['history'][number]) => {
+    if (!entry.fromStatus) return 'Order Placed';
+    if (entry.fromStatus === 'return_requested' && entry.toStatus === 'delivered') return 'Return Declined';
+    return orderStatusLabels[entry.toStatus];
+  };
+
+  const getItemStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
-        return 'Pending Confirmation';
+        return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
-        return 'Confirmed';
-      case 'cancelled':
-        return 'Cancelled';
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getItemStatusText = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return 'Awaiting seller';
+      case 'confirmed':
+        return 'Confirmed by seller';
+      case 'rejected':
+        return 'Rejected by seller';
       default:
         return status;
     }
@@ -181,7 +303,9 @@ export default function OrderDetailsPage() {
     );
   }
 
-  const totalItems = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalItems = order.orders.reduce((sum, subOrder) => {
+    return sum + subOrder.items.reduce((itemSum, item) => itemSum + item.quantity, 0);
+  }, 0);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -201,45 +325,82 @@ export default function OrderDetailsPage() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold text-gray-900">
-                Order #{order.orderNumber}
+                Order #{order.checkoutNumber}
               </h1>
               <p className="text-gray-600 mt-1">
                 Placed on {new Date(order.createdAt).toLocaleDateString()}
+                {order.orders.length > 1 && ` · split into ${order.orders.length} orders, one per seller`}
               </p>
             </div>
-            
-            <div className="flex items-center gap-3">
-              <Badge className={`${getStatusColor(order.status)} flex items-center gap-1`}>
-                {getStatusIcon(order.status)}
-                {getStatusText(order.status)}
-              </Badge>
-              
-              {order.status === 'pending' && (
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={handleCancelOrder}
-                  disabled={isCancelling}
-                >
-                  {isCancelling ? "Cancelling..." : "Cancel Order"}
-                </Button>
-              )}
-            </div>
           </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Order Items */}
           <div className="lg:col-span-2 space-y-6">
-            <Card>
+            {order.orders.map((subOrder) => (
+            <Card key={subOrder.id}>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Package className="w-5 h-5" />
-                  Order Items ({totalItems} items)
-                </CardTitle>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="w-5 h-5" />
+                    Order #{subOrder.orderNumber}
+                  </CardTitle>
+                  <div className="flex items-center gap-3">
+                    <Badge className={`${getStatusColor(subOrder.status)} flex items-center gap-1`}>
+                      {getStatusIcon(subOrder.status)}
+                      {getStatusText(subOrder.status)}
+                    </Badge>
+                    
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setMessagingOrder(subOrder)}
+                    >
+                      <MessageSquare className="w-4 h-4 mr-2" />
+                      Message Seller
+                    </Button>
+
+                    {subOrder.status === 'pending' && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleCancelOrder(subOrder)}
+                        disabled={updatingOrderId === subOrder.id}
+                      >
+                        {updatingOrderId === subOrder.id ? "Cancelling..." : "Cancel Order"}
+                      </Button>
+                    )}
+
+                    {subOrder.status === 'delivered' && (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => handleConfirmReceived(subOrder)}
+                          disabled={updatingOrderId === subOrder.id}
+                        >
+                          <PackageCheck className="w-4 h-4 mr-2" />
+                          Confirm Received
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReturningOrder(subOrder)}
+                          disabled={updatingOrderId === subOrder.id}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Request Return
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Sold by {subOrder.seller.name} &middot; {formatPrice(subOrder.totalAmount)}
+                </p>
               </CardHeader>
               <CardContent className="space-y-4">
-                {order.items.map((item) => (
+                {subOrder.items.map((item) => (
                   <div key={item.id} className="flex gap-4 p-4 border border-gray-200 rounded-lg">
                     <img
                       src={item.product.images?.[0] || '/placeholder-product.jpg'}
@@ -261,6 +422,40 @@ export default function OrderDetailsPage() {
                         <MapPin className="w-4 h-4" />
                         <span>{item.product.location}</span>
                       </div>
+                      <div className="mt-2">
+                        <Badge className={`${getItemStatusColor(item.status)} flex items-center gap-1 w-fit`}>
+                          {getItemStatusText(item.status)}
+                        </Badge>
+                        {item.status === 'rejected' && item.rejectionReason && (
+                          <p className="text-sm text-red-700 mt-1">
+                            Seller's reason: {item.rejectionReason}
+                          </p>
+                        )}
+                      </div>
+                      {item.review ? (
+                        <div className="mt-3 space-y-1">
+                          <StarRating rating={item.review.rating} />
+                          {item.review.comment && (
+                            <p className="text-sm text-gray-700">{item.review.comment}</p>
+                          )}
+                          {item.review.sellerReply && (
+                            <p className="text-sm text-gray-600 border-l-2 border-gray-200 pl-2">
+                              <span className="font-medium">{subOrder.seller.name} replied:</span>{" "}
+                              {item.review.sellerReply}
+                            </p>
+                          )}
+                        </div>
+                      ) : item.status !== 'rejected' && reviewableOrderStatuses.includes(subOrder.status) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-3"
+                          onClick={() => setReviewing({ sellerName: subOrder.seller.name, item })}
+                        >
+                          <Star className="w-4 h-4 mr-2" />
+                          Leave a Review
+                        </Button>
+                      )}
                     </div>
                     
                     <div className="text-right">
@@ -278,6 +473,7 @@ export default function OrderDetailsPage() {
                 ))}
               </CardContent>
             </Card>
+            ))}
 
             {/* Customer Information */}
             <Card>
@@ -380,36 +576,47 @@ export default function OrderDetailsPage() {
                   Order Timeline
                 </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center gap-3">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                  <div className="text-sm">
-                    <div className="font-medium">Order Placed</div>
-                    <div className="text-gray-600">
-                      {new Date(order.createdAt).toLocaleString()}
-                    </div>
-                  </div>
-                </div>
-                
-                {order.status === 'confirmed' && (
-                  <div className="flex items-center gap-3">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <div className="text-sm">
-                      <div className="font-medium">Order Confirmed</div>
-                      <div className="text-gray-600">Seller confirmed your order</div>
-                    </div>
-                  </div>
-                )}
-                
-                {order.status === 'cancelled' && (
-                  <div className="flex items-center gap-3">
-                    <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                    <div className="text-sm">
-                      <div className="font-medium">Order Cancelled</div>
-                      <div className="text-gray-600">Order was cancelled</div>
+              <CardContent className="space-y-6">
+                {order.orders.map((subOrder) => {
+                  // Orders placed before status history was recorded only have their creation date
+                  const history = subOrder.history.length > 0
+                    ? subOrder.history
+                    : [{
+                        id: subOrder.id,
+                        fromStatus: null,
+                        toStatus: subOrder.status,
+                        actorRole: 'buyer' as const,
+                        note: null,
+                        createdAt: subOrder.createdAt,
+                      }];
+
+                  return (
+                    <div key={subOrder.id} className="space-y-3">
+                      {order.orders.length > 1 && (
+                        <div className="text-xs font-medium text-gray-500 uppercase">
+                          #{subOrder.orderNumber} &middot; {subOrder.seller.name}
+                        </div>
+                      )}
+
+                      <ol className="relative border-l border-gray-200 ml-1 space-y-4">
+                        {history.map((entry) => (
+                          <li key={entry.id} className="ml-4">
+                            <div className={`absolute w-2 h-2 rounded-full -left-[4.5px] mt-1.5 ${getTimelineDotColor(entry.toStatus)}`}></div>
+                            <div className="text-sm">
+                              <div className="font-medium">{getTimelineTitle(entry)}</div>
+                              <div className="text-gray-600">
+                                {new Date(entry.createdAt).toLocaleString()}
+                              </div>
+                              {entry.note && (
+                                <div className="text-gray-700 mt-1">{entry.note}</div>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
                     </div>
-                  </div>
-                )}
+                  );
+                })}
               </CardContent>
             </Card>
 
@@ -434,6 +641,68 @@ export default function OrderDetailsPage() {
           </div>
         </div>
       </div>
+
+      {/* Message Seller Dialog, the thread is tied to the order's first item */}
+      {messagingOrder && messagingOrder.items[0] && (
+        <MessageSellerDialog
+          open={!!messagingOrder}
+          onOpenChange={(open) => !open && setMessagingOrder(null)}
+          sellerName={messagingOrder.seller.name}
+          productId={messagingOrder.items[0].product.id}
+          productName={messagingOrder.items[0].productName}
+          order={{ id: messagingOrder.id, orderNumber: messagingOrder.orderNumber }}
+        />
+      )}
+
+      {reviewing && (
+        <ReviewDialog
+          open={!!reviewing}
+          onOpenChange={(open) => !open && setReviewing(null)}
+          sellerName={reviewing.sellerName}
+          item={reviewing.item}
+          onReviewed={handleReviewed}
+        />
+      )}
+
+      {/* Return Request Dialog */}
+      <Dialog 
+        open={!!returningOrder} 
+        onOpenChange={(open) => {
+          if (!open) {
+            setReturningOrder(null);
+            setReturnReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request a Return</DialogTitle>
+            <DialogDescription>
+              Tell {returningOrder?.seller.name} what's wrong with order #{returningOrder?.orderNumber}.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="e.g. The item doesn't match the description"
+            rows={4}
+            value={returnReason}
+            onChange={(e) => setReturnReason(e.target.value)}
+          />
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button 
+              variant="outline" 
+              onClick={() => setReturningOrder(null)}
+            >
+              Cancel
+            </Button>
+            <Button 
+              onClick={handleRequestReturn}
+              disabled={!!updatingOrderId || returnReason.trim().length < 10}
+            >
+              Request Return
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
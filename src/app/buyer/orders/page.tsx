@@ -17,13 +17,22 @@ import {
   ArrowRight
 } from "lucide-react";
 import { toast } from "sonner";
+import { orderStatusLabels, type OrderStatus } from "@/lib/order-status";
 
-interface Order {
+interface SubOrder {
   id: string;
   orderNumber: string;
   totalAmount: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: OrderStatus;
+  sellerName: string;
+}
+
+interface Order {
+  id: string;
+  checkoutNumber: string;
+  totalAmount: string;
   createdAt: Date;
+  orders: SubOrder[];
 }
 
 export default function OrdersPage() {
@@ -32,28 +41,30 @@ export default function OrdersPage() {
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [total, setTotal] = useState(0);
 
-  const loadOrders = async (page: number = 1) => {
+  const loadOrders = async (cursor?: string) => {
     try {
-      if (page === 1) {
+      if (!cursor) {
         setLoading(true);
       } else {
         setLoadingMore(true);
       }
 
-      const response = await getUserOrders(page, 10);
+      const response = await getUserOrders({ cursor, limit: 10, includeTotal: !cursor });
       
-      if (page === 1) {
-        setOrders(response.orders);
+      if (!cursor) {
+        setOrders(response.checkouts);
       } else {
-        setOrders(prev => [...prev, ...response.orders]);
+        setOrders(prev => [...prev, ...response.checkouts]);
       }
       
       setHasMore(response.hasMore);
-      setTotal(response.total);
-      setCurrentPage(page);
+      setNextCursor(response.nextCursor);
+      if (response.total !== null) {
+        setTotal(response.total);
+      }
     } catch (error) {
       console.error("Error loading orders:", error);
       toast.error("Failed to load orders");
@@ -68,8 +79,8 @@ export default function OrdersPage() {
   }, []);
 
   const loadMore = () => {
-    if (!loadingMore && hasMore) {
-      loadOrders(currentPage + 1);
+    if (!loadingMore && hasMore && nextCursor) {
+      loadOrders(nextCursor);
     }
   };
 
@@ -85,27 +96,27 @@ export default function OrdersPage() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
+      case 'return_requested':
         return 'bg-yellow-100 text-yellow-800';
       case 'confirmed':
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      case 'shipped':
+      case 'out_for_delivery':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'delivered':
+      case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
+      case 'returned':
         return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'Pending';
-      case 'confirmed':
-        return 'Confirmed';
-      case 'cancelled':
-        return 'Cancelled';
-      default:
-        return status;
-    }
+  const getStatusText = (status: OrderStatus) => {
+    return orderStatusLabels[status] || status;
   };
 
   if (loading) {
@@ -180,12 +191,14 @@ export default function OrdersPage() {
                     <div className="flex items-center gap-2">
                       <Package className="w-5 h-5 text-gray-500" />
                       <span className="font-semibold text-gray-900">
-                        Order #{order.orderNumber}
+                        Order #{order.checkoutNumber}
                       </span>
                     </div>
-                    <Badge className={getStatusColor(order.status)}>
-                      {getStatusText(order.status)}
-                    </Badge>
+                    {order.orders.length > 1 && (
+                      <Badge variant="secondary">
+                        {order.orders.length} sellers
+                      </Badge>
+                    )}
                   </div>
                   <Button
                     variant="outline"
@@ -220,6 +233,24 @@ export default function OrdersPage() {
                   </div>
                 </div>
 
+                {/* Per-seller sub-orders */}
+                <div className="mt-4 space-y-2">
+                  {order.orders.map((subOrder) => (
+                    <div key={subOrder.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium text-gray-900">#{subOrder.orderNumber}</span>
+                        <span className="text-gray-600 truncate">from {subOrder.sellerName}</span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-medium">{formatPrice(subOrder.totalAmount)}</span>
+                        <Badge className={getStatusColor(subOrder.status)}>
+                          {getStatusText(subOrder.status)}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <Button
                     variant="ghost"
@@ -3,8 +3,11 @@
 import { useState, useEffect, useMemo, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { getProducts, getProductCategories, getProductLocations, ProductFilters } from "@/lib/product-discovery-actions";
+import { getWishlistProductIds } from "@/lib/wishlist-actions";
 import { ProductCard } from "@/components/product-card";
 import { FilterSidebar } from "@/components/filter-sidebar";
+import { ProductSortSelect } from "@/components/product-sort-select";
+import { SaveSearchButton } from "@/components/save-search-button";
 import { BuyerNav } from "@/components/buyer-nav";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,7 +15,9 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Search, Filter, Grid3X3, List } from "lucide-react";
 import { toast } from "sonner";
+import { parseProductSortMode } from "@/lib/product-sort";
 import { debounce } from "lodash";
+import type { SearchHighlights } from "@/lib/product-search";
 
 type Product = {
   id: string;
@@ -25,6 +30,9 @@ type Product = {
   images: string[] | null;
   location: string;
   contactNumber: string;
+  contactNumberVerified: boolean;
+  availableQuantity: number;
+  reservedForTradeId: string | null;
   createdAt: Date;
   updatedAt: Date;
   sellerId: string;
@@ -32,7 +40,10 @@ type Product = {
   seller: {
     name: string;
     email: string;
+    ratingAverage: number | null;
+    ratingCount: number;
   };
+  highlights: SearchHighlights | null;
 };
 
 function BuyerProductsPageContent() {
@@ -43,11 +54,12 @@ function BuyerProductsPageContent() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [total, setTotal] = useState(0);
   const [categories, setCategories] = useState<string[]>([]);
   const [locations, setLocations] = useState<string[]>([]);
+  const [wishlistIds, setWishlistIds] = useState<Set<string>>(new Set());
   
   const [filters, setFilters] = useState<ProductFilters>({
     search: "",
@@ -58,36 +70,50 @@ function BuyerProductsPageContent() {
     location: [],
   });
 
-  // Initialize filters from search params after component mounts
+  // Load the buyer's saved products once so the cards can show their hearts
   useEffect(() => {
-    if (searchParams) {
-      const search = searchParams.get("search") || "";
-      const category = searchParams.getAll("category");
-      const productType = (searchParams.get("productType") as 'household' | 'industrial') || undefined;
-      const condition = (searchParams.get("condition") as 'excellent' | 'good' | 'fair') || undefined;
-      const priceRange = searchParams.get("minPrice") || searchParams.get("maxPrice") ? {
-        min: Number(searchParams.get("minPrice")) || 0,
-        max: Number(searchParams.get("maxPrice")) || 1000000,
-      } : undefined;
-      const location = searchParams.getAll("location");
+    getWishlistProductIds()
+      .then(ids => setWishlistIds(new Set(ids)))
+      .catch(error => console.error("Error loading wishlist:", error));
+  }, []);
 
-      setSearchQuery(search);
-      setFilters({
-        search,
-        category,
-        productType,
-        condition,
-        priceRange,
-        location,
-      });
-    }
+  const handleWishlistChange = (productId: string, isWishlisted: boolean) => {
+    setWishlistIds(prev => {
+      const next = new Set(prev);
+      if (isWishlisted) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+  };
+
+  const readFiltersFromURL = (): ProductFilters => ({
+    search: searchParams.get("search") || "",
+    category: searchParams.getAll("category"),
+    productType: (searchParams.get("productType") as 'household' | 'industrial') || undefined,
+    condition: (searchParams.get("condition") as 'excellent' | 'good' | 'fair') || undefined,
+    priceRange: searchParams.get("minPrice") || searchParams.get("maxPrice") ? {
+      min: Number(searchParams.get("minPrice")) || 0,
+      max: Number(searchParams.get("maxPrice")) || 1000000,
+    } : undefined,
+    location: searchParams.getAll("location"),
+    sort: parseProductSortMode(searchParams.get("sort")),
+    nearCity: searchParams.get("near") || undefined,
+  });
+
+  // Keep filters in step with the URL, which is where shared links and back/forward put them
+  useEffect(() => {
+    const urlFilters = readFiltersFromURL();
+    setSearchQuery(urlFilters.search || "");
+    setFilters(urlFilters);
   }, [searchParams]);
 
   // Debounced search function
   const debouncedSearch = useMemo(
     () => debounce((query: string) => {
       setFilters(prev => ({ ...prev, search: query }));
-      setCurrentPage(1);
     }, 300),
     []
   );
@@ -107,18 +133,21 @@ function BuyerProductsPageContent() {
     if (newFilters.location?.length) {
       newFilters.location.forEach(loc => params.append("location", loc));
     }
+    if (newFilters.sort) params.set("sort", newFilters.sort);
+    if (newFilters.nearCity) params.set("near", newFilters.nearCity);
 
     router.push(`/buyer?${params.toString()}`, { scroll: false });
   };
 
   // Load products
-  const loadProducts = async (page: number = 1, newFilters?: ProductFilters) => {
+  // Without a cursor this starts over from the first page, which is also the only one counted
+  const loadProducts = async (cursor?: string, newFilters?: ProductFilters) => {
     try {
       setLoading(true);
       const currentFilters = newFilters || filters;
-      const response = await getProducts(currentFilters, { page, limit: 20 });
+      const response = await getProducts(currentFilters, { cursor, limit: 20, includeTotal: !cursor });
       
-      if (page === 1) {
+      if (!cursor) {
         setProducts(response.products.map(product => ({
           ...product,
           updatedAt: product.createdAt,
@@ -134,9 +163,11 @@ function BuyerProductsPageContent() {
         }))]);
       }
       
-      setTotal(response.total);
+      if (response.total !== null) {
+        setTotal(response.total);
+      }
       setHasMore(response.hasMore);
-      setCurrentPage(page);
+      setNextCursor(response.nextCursor);
     } catch (error) {
       console.error("Error loading products:", error);
       toast.error("Failed to load products");
@@ -170,9 +201,8 @@ function BuyerProductsPageContent() {
   const handleFilterChange = (newFilters: Partial<ProductFilters>) => {
     const updatedFilters = { ...filters, ...newFilters };
     setFilters(updatedFilters);
-    setCurrentPage(1);
     updateURL(updatedFilters);
-    loadProducts(1, updatedFilters);
+    loadProducts(undefined, updatedFilters);
   };
 
   // Clear all filters
@@ -187,21 +217,20 @@ function BuyerProductsPageContent() {
     };
     setFilters(clearedFilters);
     setSearchQuery("");
-    setCurrentPage(1);
     updateURL(clearedFilters);
-    loadProducts(1, clearedFilters);
+    loadProducts(undefined, clearedFilters);
   };
 
   // Load more products
   const loadMore = () => {
-    if (!loading && hasMore) {
-      loadProducts(currentPage + 1);
+    if (!loading && hasMore && nextCursor) {
+      loadProducts(nextCursor);
     }
   };
 
-  // Initial load
+  // Initial load, straight from the URL since the filters state hasn't caught up yet
   useEffect(() => {
-    loadProducts(1, filters);
+    loadProducts(undefined, readFiltersFromURL());
     loadCategoriesAndLocations();
   }, []);
 
@@ -219,8 +248,10 @@ function BuyerProductsPageContent() {
             </p>
           </div>
 
-          {/* View Mode Toggle */}
+          {/* Sort and View Mode Toggle */}
           <div className="flex items-center gap-2">
+            <SaveSearchButton filters={filters} />
+            <ProductSortSelect filters={filters} onFilterChange={handleFilterChange} />
             <Button
               variant={viewMode === "grid" ? "default" : "outline"}
               size="sm"
@@ -298,6 +329,8 @@ function BuyerProductsPageContent() {
                       viewMode={viewMode}
                       isBuyerView={true}
                       showActions={false}
+                      isWishlisted={wishlistIds.has(product.id)}
+                      onWishlistChange={handleWishlistChange}
                     />
                   ))}
                 </div>
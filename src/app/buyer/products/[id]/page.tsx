@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
 import { getProductById, getRelatedProducts } from "@/lib/product-discovery-actions";
 import { addToCart } from "@/lib/cart-actions";
 import { ProductCard } from "@/components/product-card";
@@ -21,8 +22,17 @@ import {
   Calendar,
   Package,
   Share,
-  Heart
+  Heart,
+  MessageSquare,
+  HandCoins,
+  Repeat
 } from "lucide-react";
+import { toggleWishlist, getWishlistProductIds } from "@/lib/wishlist-actions";
+import { MessageSellerDialog } from "@/components/message-seller-dialog";
+import { MakeOfferDialog } from "@/components/make-offer-dialog";
+import { ProposeTradeDialog } from "@/components/propose-trade-dialog";
+import { SellerRatingSummary } from "@/components/star-rating";
+import { VerifiedPhoneBadge } from "@/components/verified-phone-badge";
 import { toast } from "sonner";
 
 interface ProductDetails {
@@ -36,6 +46,9 @@ interface ProductDetails {
   images: string[] | null;
   location: string;
   contactNumber: string;
+  contactNumberVerified: boolean;
+  availableQuantity: number;
+  isReserved: boolean;
   createdAt: Date;
   updatedAt: Date;
   seller: {
@@ -43,6 +56,8 @@ interface ProductDetails {
     name: string;
     email: string;
     phone: string | null;
+    ratingAverage: number | null;
+    ratingCount: number;
   };
 }
 
@@ -55,6 +70,8 @@ interface RelatedProduct {
   price: string;
   images: string[] | null;
   location: string;
+  availableQuantity: number;
+  reservedForTradeId: string | null;
   createdAt: Date;
 }
 
@@ -69,6 +86,11 @@ export default function ProductDetailPage() {
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
+  const [isWishlisted, setIsWishlisted] = useState(false);
+  const [isTogglingWishlist, setIsTogglingWishlist] = useState(false);
+  const [isMessagingSeller, setIsMessagingSeller] = useState(false);
+  const [isMakingOffer, setIsMakingOffer] = useState(false);
+  const [isProposingTrade, setIsProposingTrade] = useState(false);
 
   useEffect(() => {
     const loadProductData = async () => {
@@ -84,9 +106,13 @@ export default function ProductDetailPage() {
 
         setProduct(productData);
 
-        // Load related products
-        const related = await getRelatedProducts(productData.seller.id, productId);
+        // Load related products and whether the buyer saved this one
+        const [related, wishlistIds] = await Promise.all([
+          getRelatedProducts(productData.seller.id, productId),
+          getWishlistProductIds(),
+        ]);
         setRelatedProducts(related);
+        setIsWishlisted(wishlistIds.includes(productId));
       } catch (error) {
         console.error("Error loading product:", error);
         toast.error("Failed to load product details");
@@ -115,6 +141,22 @@ export default function ProductDetailPage() {
     }
   };
 
+  const handleToggleWishlist = async () => {
+    if (!product) return;
+
+    try {
+      setIsTogglingWishlist(true);
+      const result = await toggleWishlist(product.id);
+      setIsWishlisted(result.isWishlisted);
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error updating wishlist:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update wishlist");
+    } finally {
+      setIsTogglingWishlist(false);
+    }
+  };
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
@@ -211,6 +253,10 @@ export default function ProductDetailPage() {
     );
   }
 
+  const isSoldOut = product.availableQuantity <= 0;
+  // Reserved listings are part of an open trade and can't be bought until it's settled
+  const isUnavailable = isSoldOut || product.isReserved;
+
   const images = product.images && product.images.length > 0 
     ? product.images 
     : ['/placeholder-product.jpg'];
@@ -313,43 +359,58 @@ export default function ProductDetailPage() {
                   <Phone className="w-4 h-4 text-gray-500" />
                   <span className="text-gray-600">Contact:</span>
                   <span className="font-medium">{product.contactNumber}</span>
+                  {product.contactNumberVerified && <VerifiedPhoneBadge />}
                 </div>
               </div>
             </div>
 
             {/* Quantity Selector */}
-            <div className="flex items-center gap-4">
-              <span className="text-sm font-medium text-gray-700">Quantity:</span>
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setQuantity(Math.max(1, quantity - 1))}
-                  disabled={quantity <= 1}
-                >
-                  -
-                </Button>
-                <span className="w-12 text-center font-medium">{quantity}</span>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setQuantity(quantity + 1)}
-                >
-                  +
-                </Button>
+            {isSoldOut ? (
+              <Badge className="bg-gray-800 text-white">Sold out</Badge>
+            ) : product.isReserved ? (
+              <Badge className="bg-amber-500 text-white">Reserved for a trade</Badge>
+            ) : (
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-medium text-gray-700">Quantity:</span>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                    disabled={quantity <= 1}
+                  >
+                    -
+                  </Button>
+                  <span className="w-12 text-center font-medium">{quantity}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setQuantity(Math.min(product.availableQuantity, quantity + 1))}
+                    disabled={quantity >= product.availableQuantity}
+                  >
+                    +
+                  </Button>
+                </div>
+                <span className="text-sm text-gray-500">
+                  {product.availableQuantity} available
+                </span>
               </div>
-            </div>
+            )}
 
             {/* Action Buttons */}
             <div className="space-y-3">
               <Button
                 onClick={handleAddToCart}
-                disabled={isAddingToCart}
+                disabled={isAddingToCart || isUnavailable}
                 size="lg"
                 className="w-full"
               >
                 {isAddingToCart ? (
                   "Adding to Cart..."
+                ) : isSoldOut ? (
+                  "Sold Out"
+                ) : product.isReserved ? (
+                  "Reserved"
                 ) : (
                   <>
                     <ShoppingCart className="w-5 h-5 mr-2" />
@@ -358,7 +419,37 @@ export default function ProductDetailPage() {
                 )}
               </Button>
               
+              <Button
+                variant="outline"
+                onClick={() => setIsMakingOffer(true)}
+                disabled={isUnavailable}
+                size="lg"
+                className="w-full"
+              >
+                <HandCoins className="w-5 h-5 mr-2" />
+                Make an Offer
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => setIsProposingTrade(true)}
+                disabled={product.isReserved}
+                size="lg"
+                className="w-full"
+              >
+                <Repeat className="w-5 h-5 mr-2" />
+                Propose a Trade
+              </Button>
+
               <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsMessagingSeller(true)}
+                  className="flex-1"
+                >
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Message Seller
+                </Button>
                 <Button
                   variant="outline"
                   onClick={handleShare}
@@ -367,8 +458,14 @@ export default function ProductDetailPage() {
                   <Share className="w-4 h-4 mr-2" />
                   Share
                 </Button>
-                <Button variant="outline" size="icon">
-                  <Heart className="w-4 h-4" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleToggleWishlist}
+                  disabled={isTogglingWishlist}
+                  aria-label={isWishlisted ? "Remove from wishlist" : "Save to wishlist"}
+                >
+                  <Heart className={`w-4 h-4 ${isWishlisted ? "fill-red-500 text-red-500" : ""}`} />
                 </Button>
               </div>
             </div>
@@ -387,7 +484,16 @@ export default function ProductDetailPage() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <p className="text-sm text-gray-600">Name</p>
-                <p className="font-medium">{product.seller.name}</p>
+                <Link href={`/sellers/${product.seller.id}`} className="font-medium text-blue-600 hover:underline">
+                  {product.seller.name}
+                </Link>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Rating</p>
+                <SellerRatingSummary
+                  average={product.seller.ratingAverage}
+                  count={product.seller.ratingCount}
+                />
               </div>
               <div>
                 <p className="text-sm text-gray-600">Email</p>
@@ -434,6 +540,26 @@ export default function ProductDetailPage() {
           </div>
         )}
       </div>
+
+      <MakeOfferDialog
+        open={isMakingOffer}
+        onOpenChange={setIsMakingOffer}
+        product={product}
+      />
+
+      <ProposeTradeDialog
+        open={isProposingTrade}
+        onOpenChange={setIsProposingTrade}
+        product={product}
+      />
+
+      <MessageSellerDialog
+        open={isMessagingSeller}
+        onOpenChange={setIsMessagingSeller}
+        sellerName={product.seller.name}
+        productId={product.id}
+        productName={product.name}
+      />
     </div>
   );
 }
@@ -1,17 +1,21 @@
 "use client";
 
-import { useState, useEffect, useMemo, Suspense } from "react";
+import { useState, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { getProducts, getProductCategories, getProductLocations, ProductFilters } from "@/lib/product-discovery-actions";
+import { getProducts, getProductCategories, getProductLocations, getSearchSuggestions, ProductFilters } from "@/lib/product-discovery-actions";
+import { getWishlistProductIds } from "@/lib/wishlist-actions";
 import { ProductCard } from "@/components/product-card";
 import { FilterSidebar } from "@/components/filter-sidebar";
+import { ProductSortSelect } from "@/components/product-sort-select";
+import { SaveSearchButton } from "@/components/save-search-button";
+import { SearchCommand } from "@/components/search-command";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Search, Filter, Grid3X3, List } from "lucide-react";
+import { Filter, Grid3X3, List } from "lucide-react";
 import { toast } from "sonner";
-import { debounce } from "lodash";
+import { parseProductSortMode } from "@/lib/product-sort";
+import type { SearchHighlights } from "@/lib/product-search";
 
 interface Product {
   id: string;
@@ -24,6 +28,9 @@ interface Product {
   images: string[] | null;
   location: string;
   contactNumber: string;
+  contactNumberVerified: boolean;
+  availableQuantity: number;
+  reservedForTradeId: string | null;
   createdAt: Date;
   updatedAt: Date;
   sellerId: string;
@@ -31,7 +38,10 @@ interface Product {
   seller: {
     name: string;
     email: string;
+    ratingAverage: number | null;
+    ratingCount: number;
   };
+  highlights: SearchHighlights | null;
 }
 
 function ProductsPageContent() {
@@ -42,11 +52,13 @@ function ProductsPageContent() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
   const [total, setTotal] = useState(0);
   const [categories, setCategories] = useState<string[]>([]);
   const [locations, setLocations] = useState<string[]>([]);
+  const [wishlistIds, setWishlistIds] = useState<Set<string>>(new Set());
+  const [didYouMean, setDidYouMean] = useState<string[]>([]);
   
   const [filters, setFilters] = useState<ProductFilters>({
     search: "",
@@ -57,39 +69,45 @@ function ProductsPageContent() {
     location: [],
   });
 
-  // Initialize filters from search params after component mounts
+  // Load the buyer's saved products once so the cards can show their hearts
   useEffect(() => {
-    if (searchParams) {
-      const search = searchParams.get("search") || "";
-      const category = searchParams.getAll("category");
-      const productType = (searchParams.get("productType") as 'household' | 'industrial') || undefined;
-      const condition = (searchParams.get("condition") as 'excellent' | 'good' | 'fair') || undefined;
-      const priceRange = searchParams.get("minPrice") || searchParams.get("maxPrice") ? {
-        min: Number(searchParams.get("minPrice")) || 0,
-        max: Number(searchParams.get("maxPrice")) || 1000000,
-      } : undefined;
-      const location = searchParams.getAll("location");
+    getWishlistProductIds()
+      .then(ids => setWishlistIds(new Set(ids)))
+      .catch(error => console.error("Error loading wishlist:", error));
+  }, []);
 
-      setSearchQuery(search);
-      setFilters({
-        search,
-        category,
-        productType,
-        condition,
-        priceRange,
-        location,
-      });
-    }
-  }, [searchParams]);
+  const handleWishlistChange = (productId: string, isWishlisted: boolean) => {
+    setWishlistIds(prev => {
+      const next = new Set(prev);
+      if (isWishlisted) {
+        next.add(productId);
+      } else {
+        next.delete(productId);
+      }
+      return next;
+    });
+  };
 
-  // Debounced search function
-  const debouncedSearch = useMemo(
-    () => debounce((query: string) => {
-      setFilters(prev => ({ ...prev, search: query }));
-      setCurrentPage(1);
-    }, 300),
-    []
-  );
+  const readFiltersFromURL = (): ProductFilters => ({
+    search: searchParams.get("search") || "",
+    category: searchParams.getAll("category"),
+    productType: (searchParams.get("productType") as 'household' | 'industrial') || undefined,
+    condition: (searchParams.get("condition") as 'excellent' | 'good' | 'fair') || undefined,
+    priceRange: searchParams.get("minPrice") || searchParams.get("maxPrice") ? {
+      min: Number(searchParams.get("minPrice")) || 0,
+      max: Number(searchParams.get("maxPrice")) || 1000000,
+    } : undefined,
+    location: searchParams.getAll("location"),
+    sort: parseProductSortMode(searchParams.get("sort")),
+    nearCity: searchParams.get("near") || undefined,
+  });
+
+  // Keep filters in step with the URL, which is where shared links and back/forward put them
+  useEffect(() => {
+    const urlFilters = readFiltersFromURL();
+    setSearchQuery(urlFilters.search || "");
+    setFilters(urlFilters);
+  }, [searchParams]);
 
   // Update URL with current filters
   const updateURL = (newFilters: ProductFilters) => {
@@ -106,18 +124,21 @@ function ProductsPageContent() {
     if (newFilters.location?.length) {
       newFilters.location.forEach(loc => params.append("location", loc));
     }
+    if (newFilters.sort) params.set("sort", newFilters.sort);
+    if (newFilters.nearCity) params.set("near", newFilters.nearCity);
 
     router.push(`/buyer/products?${params.toString()}`, { scroll: false });
   };
 
   // Load products
-  const loadProducts = async (page: number = 1, newFilters?: ProductFilters) => {
+  // Without a cursor this starts over from the first page, which is also the only one counted
+  const loadProducts = async (cursor?: string, newFilters?: ProductFilters) => {
     try {
       setLoading(true);
       const currentFilters = newFilters || filters;
-      const response = await getProducts(currentFilters, { page, limit: 20 });
+      const response = await getProducts(currentFilters, { cursor, limit: 20, includeTotal: !cursor });
       
-      if (page === 1) {
+      if (!cursor) {
         setProducts(response.products.map(product => ({
           ...product,
           updatedAt: product.createdAt,
@@ -133,9 +154,20 @@ function ProductsPageContent() {
         }))]);
       }
       
-      setTotal(response.total);
+      if (response.total !== null) {
+        setTotal(response.total);
+      }
       setHasMore(response.hasMore);
-      setCurrentPage(page);
+      setNextCursor(response.nextCursor);
+
+      // Offer respellings when a search finds nothing at all
+      if (response.total === 0 && currentFilters.search) {
+        getSearchSuggestions(currentFilters.search)
+          .then(suggestions => setDidYouMean(suggestions.didYouMean))
+          .catch(error => console.error("Error loading search corrections:", error));
+      } else if (!cursor) {
+        setDidYouMean([]);
+      }
     } catch (error) {
       console.error("Error loading products:", error);
       toast.error("Failed to load products");
@@ -158,20 +190,28 @@ function ProductsPageContent() {
     }
   };
 
-  // Handle search input change
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const query = e.target.value;
-    setSearchQuery(query);
-    debouncedSearch(query);
-  };
-
   // Handle filter changes
   const handleFilterChange = (newFilters: Partial<ProductFilters>) => {
     const updatedFilters = { ...filters, ...newFilters };
     setFilters(updatedFilters);
-    setCurrentPage(1);
     updateURL(updatedFilters);
-    loadProducts(1, updatedFilters);
+    loadProducts(undefined, updatedFilters);
+  };
+
+  const handleSearch = (term: string) => {
+    setSearchQuery(term);
+    handleFilterChange({ search: term });
+  };
+
+  // A suggested category or location replaces the typed text with a filter
+  const handleSelectCategory = (category: string) => {
+    setSearchQuery("");
+    handleFilterChange({ search: "", category: [category] });
+  };
+
+  const handleSelectLocation = (location: string) => {
+    setSearchQuery("");
+    handleFilterChange({ search: "", location: [location] });
   };
 
   // Clear all filters
@@ -186,21 +226,20 @@ function ProductsPageContent() {
     };
     setFilters(clearedFilters);
     setSearchQuery("");
-    setCurrentPage(1);
     updateURL(clearedFilters);
-    loadProducts(1, clearedFilters);
+    loadProducts(undefined, clearedFilters);
   };
 
   // Load more products
   const loadMore = () => {
-    if (!loading && hasMore) {
-      loadProducts(currentPage + 1);
+    if (!loading && hasMore && nextCursor) {
+      loadProducts(nextCursor);
     }
   };
 
-  // Initial load
+  // Initial load, straight from the URL since the filters state hasn't caught up yet
   useEffect(() => {
-    loadProducts(1, filters);
+    loadProducts(undefined, readFiltersFromURL());
     loadCategoriesAndLocations();
   }, []);
 
@@ -216,8 +255,10 @@ function ProductsPageContent() {
             </p>
           </div>
 
-          {/* View Mode Toggle */}
+          {/* Sort and View Mode Toggle */}
           <div className="flex items-center gap-2">
+            <SaveSearchButton filters={filters} />
+            <ProductSortSelect filters={filters} onFilterChange={handleFilterChange} />
             <Button
               variant={viewMode === "grid" ? "default" : "outline"}
               size="sm"
@@ -235,6 +276,17 @@ function ProductsPageContent() {
           </div>
         </div>
 
+        {/* Search */}
+        <div className="mb-8 max-w-2xl">
+          <SearchCommand
+            value={searchQuery}
+            onValueChange={setSearchQuery}
+            onSearch={handleSearch}
+            onSelectCategory={handleSelectCategory}
+            onSelectLocation={handleSelectLocation}
+          />
+        </div>
+
         <div className="flex gap-8">
           {/* Desktop Filter Sidebar */}
           <div className="hidden lg:block w-80 flex-shrink-0">
@@ -269,6 +321,22 @@ function ProductsPageContent() {
               <div className="text-center py-12">
                 <div className="text-gray-400 text-6xl mb-4">📦</div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">No products found</h3>
+                {didYouMean.length > 0 && (
+                  <p className="text-gray-700 mb-2">
+                    Did you mean{" "}
+                    {didYouMean.map((correction) => (
+                      <button
+                        key={correction}
+                        type="button"
+                        onClick={() => handleSearch(correction)}
+                        className="font-medium text-blue-600 hover:text-blue-700 underline"
+                      >
+                        {correction}
+                      </button>
+                    ))}
+                    ?
+                  </p>
+                )}
                 <p className="text-gray-600 mb-4">
                   Try adjusting your search or filters to find what you're looking for.
                 </p>
@@ -295,6 +363,8 @@ function ProductsPageContent() {
                       viewMode={viewMode}
                       isBuyerView={true}
                       showActions={false}
+                      isWishlisted={wishlistIds.has(product.id)}
+                      onWishlistChange={handleWishlistChange}
                     />
                   ))}
                 </div>
@@ -330,20 +400,6 @@ function ProductsPageContent() {
             />
           </SheetContent>
         </Sheet>
-
-        {/* Search Bar */}
-        <div className="fixed bottom-4 left-4 z-50 lg:hidden">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-            <Input
-              type="text"
-              placeholder="Search products..."
-              value={searchQuery}
-              onChange={handleSearchChange}
-              className="pl-10 w-64"
-            />
-          </div>
-        </div>
       </div>
     </div>
   );
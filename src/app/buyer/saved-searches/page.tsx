@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+  getSavedSearches,
+  setSavedSearchDigest,
+  deleteSavedSearch,
+  SavedSearchItem
+} from "@/lib/saved-search-actions";
+import { describeSavedSearch, savedSearchUrl } from "@/lib/saved-search-filters";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { BuyerNav } from "@/components/buyer-nav";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bookmark, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function SavedSearchesPage() {
+  const router = useRouter();
+  const [searches, setSearches] = useState<SavedSearchItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingSearches, setUpdatingSearches] = useState<Set<string>>(new Set());
+
+  const loadSearches = async () => {
+    try {
+      setLoading(true);
+      const data = await getSavedSearches();
+      setSearches(data);
+    } catch (error) {
+      console.error("Error loading saved searches:", error);
+      toast.error("Failed to load saved searches");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSearches();
+  }, []);
+
+  const markUpdating = (searchId: string, isUpdating: boolean) => {
+    setUpdatingSearches(prev => {
+      const newSet = new Set(prev);
+      if (isUpdating) {
+        newSet.add(searchId);
+      } else {
+        newSet.delete(searchId);
+      }
+      return newSet;
+    });
+  };
+
+  const handleDigestChange = async (search: SavedSearchItem, emailDigest: boolean) => {
+    try {
+      markUpdating(search.id, true);
+      const result = await setSavedSearchDigest(search.id, emailDigest);
+      setSearches(prev => prev.map(s => (s.id === search.id ? { ...s, emailDigest } : s)));
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update saved search");
+    } finally {
+      markUpdating(search.id, false);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearchItem) => {
+    try {
+      markUpdating(search.id, true);
+      await deleteSavedSearch(search.id);
+      setSearches(prev => prev.filter(s => s.id !== search.id));
+      toast.success("Saved search deleted");
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast.error("Failed to delete saved search");
+    } finally {
+      markUpdating(search.id, false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <BuyerNav />
+        <div className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6 space-y-2">
+                <Skeleton className="h-6 w-1/3" />
+                <Skeleton className="h-4 w-2/3" />
+                <Skeleton className="h-4 w-1/4" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (searches.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <BuyerNav />
+        <div className="flex items-center justify-center" style={{minHeight: 'calc(100vh - 64px)'}}>
+          <div className="text-center space-y-6">
+            <div className="text-gray-400 text-6xl">
+              <Bookmark className="w-24 h-24 mx-auto" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">No saved searches yet</h1>
+            <p className="text-gray-600 max-w-md">
+              Search or filter the listings, then tap Save search and we&apos;ll tell you when something new matches.
+            </p>
+            <Button
+              onClick={() => router.push("/buyer/products")}
+              size="lg"
+            >
+              Browse Products
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <BuyerNav />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Saved Searches</h1>
+          <p className="text-gray-600">
+            New listings that match these show up in your alerts, and in a daily email if you turn it on
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {searches.map((search) => {
+            const isUpdating = updatingSearches.has(search.id);
+
+            return (
+              <Card key={search.id} className={isUpdating ? "opacity-50" : ""}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-lg font-semibold text-gray-900 truncate">{search.name}</h2>
+                        {search.unreadMatches > 0 && (
+                          <Badge className="bg-purple-100 text-purple-800">
+                            {search.unreadMatches} new
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-gray-600">{describeSavedSearch(search.filters)}</p>
+                      <p className="text-xs text-gray-500">
+                        Saved {new Date(search.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => router.push(savedSearchUrl(search.filters))}
+                      >
+                        <Search className="w-4 h-4 mr-2" />
+                        View Results
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(search)}
+                        disabled={isUpdating}
+                        aria-label={`Delete ${search.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-4">
+                    <Checkbox
+                      id={`digest-${search.id}`}
+                      checked={search.emailDigest}
+                      disabled={isUpdating}
+                      onCheckedChange={(checked) => handleDigestChange(search, checked as boolean)}
+                    />
+                    <Label htmlFor={`digest-${search.id}`} className="font-normal">
+                      Email me a daily digest of new matches
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
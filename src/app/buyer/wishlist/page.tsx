@@ -0,0 +1,267 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { getWishlistItems, removeFromWishlist, WishlistItem } from "@/lib/wishlist-actions";
+import { addToCart } from "@/lib/cart-actions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { BuyerNav } from "@/components/buyer-nav";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Heart,
+  Trash2,
+  ShoppingCart,
+  TrendingDown,
+  TrendingUp,
+  AlertCircle
+} from "lucide-react";
+import { toast } from "sonner";
+
+export default function WishlistPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
+
+  const loadWishlist = async () => {
+    try {
+      setLoading(true);
+      const data = await getWishlistItems();
+      setItems(data);
+    } catch (error) {
+      console.error("Error loading wishlist:", error);
+      toast.error("Failed to load wishlist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWishlist();
+  }, []);
+
+  const markUpdating = (itemId: string, isUpdating: boolean) => {
+    setUpdatingItems(prev => {
+      const newSet = new Set(prev);
+      if (isUpdating) {
+        newSet.add(itemId);
+      } else {
+        newSet.delete(itemId);
+      }
+      return newSet;
+    });
+  };
+
+  const handleRemove = async (item: WishlistItem) => {
+    try {
+      markUpdating(item.id, true);
+      await removeFromWishlist(item.product.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      toast.success("Removed from your wishlist");
+    } catch (error) {
+      console.error("Error removing wishlist item:", error);
+      toast.error("Failed to remove item");
+    } finally {
+      markUpdating(item.id, false);
+    }
+  };
+
+  const handleAddToCart = async (item: WishlistItem) => {
+    try {
+      markUpdating(item.id, true);
+      await addToCart(item.product.id, 1);
+      toast.success("Added to cart successfully!");
+    } catch (error) {
+      console.error("Error adding to cart:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add to cart");
+    } finally {
+      markUpdating(item.id, false);
+    }
+  };
+
+  const formatPrice = (price: string | number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(Number(price));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <BuyerNav />
+        <div className="container mx-auto px-4 py-8 space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Card key={i}>
+              <CardContent className="p-6">
+                <div className="flex gap-4">
+                  <Skeleton className="w-24 h-24" />
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-6 w-3/4" />
+                    <Skeleton className="h-4 w-1/2" />
+                    <Skeleton className="h-4 w-1/4" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <BuyerNav />
+        <div className="flex items-center justify-center" style={{minHeight: 'calc(100vh - 64px)'}}>
+          <div className="text-center space-y-6">
+            <div className="text-gray-400 text-6xl">
+              <Heart className="w-24 h-24 mx-auto" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Your wishlist is empty</h1>
+            <p className="text-gray-600 max-w-md">
+              Tap the heart on any product to save it here and keep an eye on its price.
+            </p>
+            <Button
+              onClick={() => router.push("/buyer/products")}
+              size="lg"
+            >
+              Browse Products
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const flaggedCount = items.filter(item => item.isUnavailable || item.priceChange).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <BuyerNav />
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Wishlist</h1>
+          <p className="text-gray-600">
+            {items.length} saved item{items.length !== 1 ? 's' : ''}
+            {flaggedCount > 0 && ` · ${flaggedCount} changed since you saved ${flaggedCount !== 1 ? 'them' : 'it'}`}
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          {items.map((item) => {
+            const isUpdating = updatingItems.has(item.id);
+
+            return (
+              <Card key={item.id} className={isUpdating ? "opacity-50" : ""}>
+                <CardContent className="p-6">
+                  <div className="flex gap-4">
+                    {/* Product Image */}
+                    <div
+                      className={`w-24 h-24 flex-shrink-0 ${item.product.isActive ? "cursor-pointer" : ""}`}
+                      onClick={() => item.product.isActive && router.push(`/buyer/products/${item.product.id}`)}
+                    >
+                      <img
+                        src={item.product.images?.[0] || '/placeholder-product.jpg'}
+                        alt={item.product.name}
+                        className={`w-full h-full object-cover rounded-md ${item.isUnavailable ? "grayscale" : ""}`}
+                      />
+                    </div>
+
+                    {/* Product Info */}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-lg text-gray-900 truncate">
+                        {item.product.name}
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                        {item.product.description}
+                      </p>
+
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <span className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded">
+                          {item.product.category}
+                        </span>
+                        {!item.product.isActive ? (
+                          <Badge className="bg-gray-100 text-gray-800">
+                            <AlertCircle className="w-3 h-3 mr-1" />
+                            No longer listed
+                          </Badge>
+                        ) : item.product.availableQuantity <= 0 && (
+                          <Badge className="bg-gray-100 text-gray-800">
+                            <AlertCircle className="w-3 h-3 mr-1" />
+                            Sold out
+                          </Badge>
+                        )}
+                        {item.priceChange === 'dropped' && (
+                          <Badge className="bg-green-100 text-green-800">
+                            <TrendingDown className="w-3 h-3 mr-1" />
+                            Price dropped
+                          </Badge>
+                        )}
+                        {item.priceChange === 'increased' && (
+                          <Badge className="bg-orange-100 text-orange-800">
+                            <TrendingUp className="w-3 h-3 mr-1" />
+                            Price went up
+                          </Badge>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-2 mt-2 text-sm text-gray-600">
+                        <span>Seller: {item.product.seller.name}</span>
+                        <span>•</span>
+                        <span>{item.product.location}</span>
+                        <span>•</span>
+                        <span>Saved {new Date(item.addedAt).toLocaleDateString()}</span>
+                      </div>
+                    </div>
+
+                    {/* Price and Controls */}
+                    <div className="text-right space-y-4">
+                      <div>
+                        <div className="text-lg font-bold text-gray-900">
+                          {formatPrice(item.product.price)}
+                        </div>
+                        {item.priceChange && (
+                          <div className="text-sm text-gray-500 line-through">
+                            {formatPrice(item.priceAtAdd)}
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex flex-col gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleAddToCart(item)}
+                          disabled={isUpdating || item.isUnavailable}
+                        >
+                          <ShoppingCart className="w-4 h-4 mr-1" />
+                          Add to Cart
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(item)}
+                          disabled={isUpdating}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
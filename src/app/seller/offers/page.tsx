@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, HandCoins } from "lucide-react";
+import Link from "next/link";
+import { requireSellerAuth } from "@/lib/session";
+import { OfferList } from "@/components/offer-list";
+
+export default async function SellerOffersPage() {
+  // Get authenticated seller from session
+  await requireSellerAuth();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {/* Navigation Header */}
+      <nav className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <Link href="/seller">
+                <Button variant="ghost" size="sm" className="mr-4">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Dashboard
+                </Button>
+              </Link>
+              <div className="w-8 h-8 bg-gradient-to-r from-green-600 to-emerald-600 rounded-lg flex items-center justify-center mr-3">
+                <HandCoins className="w-5 h-5 text-white" />
+              </div>
+              <span className="text-xl font-bold text-gray-900">Offers</span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Offers on your listings
+          </h1>
+          <p className="text-gray-600">
+            Accept an offer to put the item in the buyer&apos;s cart at that price, or counter with your own.
+          </p>
+        </div>
+
+        <OfferList role="seller" />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,535 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Package,
+  User,
+  Phone,
+  MapPin,
+  Calendar,
+  Check,
+  X,
+  Search,
+  Hash,
+  AlertCircle
+} from "lucide-react";
+import {
+  confirmOrderItem,
+  rejectOrderItem,
+  updateSellerOrderStatus,
+  updateSellerOrderPrefix,
+  type OrderItemStatus,
+  type SellerOrderItem
+} from "@/lib/seller-order-actions";
+import {
+  finalOrderStatuses,
+  getAllowedTransitions,
+  orderStatusLabels,
+  type OrderStatus
+} from "@/lib/order-status";
+import { DEFAULT_ORDER_PREFIX, hasOrderNumberFormat, isValidOrderNumber } from "@/lib/order-number";
+import { toast } from "sonner";
+
+interface SellerOrdersClientProps {
+  orderItems: SellerOrderItem[];
+  orderPrefix: string | null;
+}
+
+type StatusFilter = 'pending' | 'active' | 'closed' | 'all';
+
+interface SellerOrderGroup {
+  order: SellerOrderItem['order'];
+  items: SellerOrderItem[];
+}
+
+// Labels for the buttons that move an order to the given status
+const transitionActionLabels: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'Confirm Order',
+  processing: 'Start Processing',
+  shipped: 'Mark Shipped',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Mark Delivered',
+  returned: 'Accept Return',
+  cancelled: 'Cancel Order',
+};
+
+export default function SellerOrdersClient({ orderItems, orderPrefix }: SellerOrdersClientProps) {
+  const [localItems, setLocalItems] = useState<SellerOrderItem[]>(orderItems);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [isLoading, setIsLoading] = useState(false);
+  const [rejectingItem, setRejectingItem] = useState<SellerOrderItem | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [orderSearch, setOrderSearch] = useState("");
+  const [currentPrefix, setCurrentPrefix] = useState(orderPrefix);
+  const [isPrefixDialogOpen, setIsPrefixDialogOpen] = useState(false);
+  const [prefixInput, setPrefixInput] = useState(orderPrefix || "");
+
+  const updateLocalItem = (itemId: string, changes: Partial<SellerOrderItem>) => {
+    setLocalItems(prev => prev.map(item =>
+      item.id === itemId ? { ...item, ...changes, statusUpdatedAt: new Date() } : item
+    ));
+  };
+
+  const updateLocalOrderStatus = (orderId: string, status: OrderStatus) => {
+    setLocalItems(prev => prev.map(item => {
+      if (item.order.id !== orderId) return item;
+
+      const order = { ...item.order, status };
+      // Mirrors the server: confirming or cancelling a pending order settles its undecided items
+      if (item.status === 'pending' && (status === 'confirmed' || status === 'cancelled')) {
+        return {
+          ...item,
+          order,
+          status: status === 'confirmed' ? 'confirmed' as const : 'rejected' as const,
+          rejectionReason: status === 'cancelled' ? "Order cancelled by seller" : null,
+          statusUpdatedAt: new Date(),
+        };
+      }
+      return { ...item, order };
+    }));
+  };
+
+  // Item decisions can roll up to the order, so re-derive the order status locally
+  const syncLocalOrderStatus = (orderId: string) => {
+    setLocalItems(prev => {
+      const items = prev.filter(item => item.order.id === orderId);
+      if (items.some(item => item.status === 'pending')) return prev;
+
+      const status: OrderStatus = items.some(item => item.status === 'confirmed') ? 'confirmed' : 'cancelled';
+      return prev.map(item =>
+        item.order.id === orderId ? { ...item, order: { ...item.order, status } } : item
+      );
+    });
+  };
+
+  const handleConfirm = async (item: SellerOrderItem) => {
+    try {
+      setIsLoading(true);
+      const result = await confirmOrderItem(item.id);
+      toast.success(result.message);
+      updateLocalItem(item.id, { status: 'confirmed', rejectionReason: null });
+      syncLocalOrderStatus(item.order.id);
+    } catch (error) {
+      console.error("Error confirming order item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to confirm order item");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingItem) return;
+
+    try {
+      setIsLoading(true);
+      const result = await rejectOrderItem(rejectingItem.id, rejectionReason);
+      toast.success(result.message);
+      updateLocalItem(rejectingItem.id, { status: 'rejected', rejectionReason: rejectionReason.trim() });
+      syncLocalOrderStatus(rejectingItem.order.id);
+      setRejectingItem(null);
+      setRejectionReason("");
+    } catch (error) {
+      console.error("Error rejecting order item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reject order item");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (orderId: string, status: OrderStatus) => {
+    try {
+      setIsLoading(true);
+      const result = await updateSellerOrderStatus(orderId, status);
+      toast.success(result.message);
+      updateLocalOrderStatus(orderId, status);
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update order status");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSavePrefix = async () => {
+    try {
+      setIsLoading(true);
+      const result = await updateSellerOrderPrefix(prefixInput);
+      toast.success(result.message);
+      setCurrentPrefix(result.prefix);
+      setIsPrefixDialogOpen(false);
+    } catch (error) {
+      console.error("Error updating order prefix:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update order number prefix");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const getStatusColor = (status: OrderItemStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'confirmed':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getOrderStatusColor = (status: OrderStatus) => {
+    switch (status) {
+      case 'pending':
+      case 'return_requested':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'confirmed':
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      case 'shipped':
+      case 'out_for_delivery':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'delivered':
+      case 'completed':
+        return 'bg-green-100 text-green-800';
+      case 'cancelled':
+      case 'returned':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getTransitionLabel = (from: OrderStatus, to: OrderStatus) => {
+    if (from === 'return_requested' && to === 'delivered') return 'Decline Return';
+    return transitionActionLabels[to] || orderStatusLabels[to];
+  };
+
+  // Items arrive newest order first, so grouping keeps that order
+  const orderGroups = localItems.reduce<SellerOrderGroup[]>((groups, item) => {
+    const group = groups.find(g => g.order.id === item.order.id);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ order: item.order, items: [item] });
+    }
+    return groups;
+  }, []);
+
+  const matchesFilter = (status: OrderStatus, filter: StatusFilter) => {
+    switch (filter) {
+      case 'pending':
+        return status === 'pending';
+      case 'active':
+        return status !== 'pending' && !finalOrderStatuses.includes(status);
+      case 'closed':
+        return finalOrderStatuses.includes(status);
+      default:
+        return true;
+    }
+  };
+
+  const normalizedSearch = orderSearch.trim().toUpperCase();
+
+  // A complete number whose check digit doesn't add up was almost certainly mistyped
+  const isMistypedNumber = hasOrderNumberFormat(normalizedSearch) && !isValidOrderNumber(normalizedSearch);
+
+  const filteredGroups = orderGroups.filter(group =>
+    normalizedSearch
+      ? group.order.orderNumber.includes(normalizedSearch)
+      : matchesFilter(group.order.status, statusFilter)
+  );
+
+  const countByFilter = (filter: StatusFilter) =>
+    orderGroups.filter(group => matchesFilter(group.order.status, filter)).length;
+
+  return (
+    <>
+      <div className="flex flex-col md:flex-row md:items-start gap-4 mb-6">
+        <div className="flex-1">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              placeholder="Find an order by number, e.g. RT-2026-000123-1-6"
+              className="pl-10 bg-white"
+              value={orderSearch}
+              onChange={(e) => setOrderSearch(e.target.value)}
+            />
+          </div>
+          {isMistypedNumber && (
+            <p className="text-sm text-red-600 flex items-center space-x-1 mt-2">
+              <AlertCircle className="w-4 h-4" />
+              <span>This order number doesn&apos;t pass its check digit, it may have been mistyped</span>
+            </p>
+          )}
+        </div>
+        <Button variant="outline" onClick={() => setIsPrefixDialogOpen(true)}>
+          <Hash className="w-4 h-4 mr-2" />
+          Number prefix: {currentPrefix || DEFAULT_ORDER_PREFIX}
+        </Button>
+      </div>
+
+      <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="pending">To Confirm ({countByFilter('pending')})</TabsTrigger>
+          <TabsTrigger value="active">Active ({countByFilter('active')})</TabsTrigger>
+          <TabsTrigger value="closed">Closed ({countByFilter('closed')})</TabsTrigger>
+          <TabsTrigger value="all">All ({orderGroups.length})</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {filteredGroups.length === 0 ? (
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardContent className="p-6">
+            <div className="text-center py-12">
+              <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No orders here</h3>
+              <p className="text-gray-600">
+                When buyers order your products they will show up in this inbox.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {filteredGroups.map(({ order, items }) => {
+            const isOrderPending = order.status === 'pending';
+            const transitions = getAllowedTransitions(order.status, 'seller')
+              // Pending orders are confirmed item by item, or cancelled as a whole
+              .filter(status => !(isOrderPending && status === 'confirmed'));
+            const orderTotal = items
+              .filter(item => item.status !== 'rejected')
+              .reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+
+            return (
+              <Card key={order.id} className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+                <CardHeader>
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex flex-wrap items-center gap-2 text-lg">
+                        Order #{order.orderNumber}
+                        <Badge className={getOrderStatusColor(order.status)}>
+                          {orderStatusLabels[order.status]}
+                        </Badge>
+                      </CardTitle>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {items.length} item{items.length !== 1 ? 's' : ''} &middot;{" "}
+                        <span className="font-medium text-gray-900">{formatPrice(orderTotal)}</span>
+                      </p>
+                    </div>
+
+                    {transitions.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {transitions.map((status) => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={status === 'cancelled' ? 'outline' : 'default'}
+                            onClick={() => handleStatusChange(order.id, status)}
+                            disabled={isLoading}
+                            className={status === 'cancelled' ? 'text-red-600 hover:text-red-700' : ''}
+                          >
+                            {getTransitionLabel(order.status, status)}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm mt-4">
+                    <div className="flex items-center gap-2">
+                      <User className="w-4 h-4 text-gray-500" />
+                      <span>{order.buyerName}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Phone className="w-4 h-4 text-gray-500" />
+                      <span>{order.buyerPhone}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <MapPin className="w-4 h-4 text-gray-500" />
+                      <span className="truncate">{order.shippingAddress}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Calendar className="w-4 h-4 text-gray-500" />
+                      <span>{new Date(order.createdAt).toLocaleString()}</span>
+                    </div>
+                  </div>
+                </CardHeader>
+
+                <CardContent className="space-y-4">
+                  {items.map((item) => (
+                    <div key={item.id} className="flex flex-col md:flex-row md:items-start gap-4 p-4 border rounded-lg">
+                      <div className="w-16 h-16 bg-gray-200 rounded-lg overflow-hidden flex-shrink-0">
+                        {item.product.images && item.product.images.length > 0 ? (
+                          <img
+                            src={item.product.images[0]}
+                            alt={item.productName}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className="w-full h-full bg-gray-300 flex items-center justify-center">
+                            <Package className="w-6 h-6 text-gray-500" />
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h3 className="font-semibold text-gray-900">{item.productName}</h3>
+                          <Badge className={getStatusColor(item.status)}>
+                            {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                          </Badge>
+                        </div>
+
+                        <div className="text-sm text-gray-600">
+                          Qty {item.quantity} &middot;{" "}
+                          <span className="font-medium text-gray-900">
+                            {formatPrice(Number(item.price) * item.quantity)}
+                          </span>
+                        </div>
+
+                        {item.status === 'rejected' && item.rejectionReason && (
+                          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                            <span className="font-medium">Rejection reason:</span> {item.rejectionReason}
+                          </div>
+                        )}
+                      </div>
+
+                      {item.status === 'pending' && isOrderPending && (
+                        <div className="flex md:flex-col gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleConfirm(item)}
+                            disabled={isLoading}
+                            className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+                          >
+                            <Check className="w-4 h-4 mr-2" />
+                            Confirm
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRejectingItem(item)}
+                            disabled={isLoading}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <X className="w-4 h-4 mr-2" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Order Number Prefix Dialog */}
+      <Dialog
+        open={isPrefixDialogOpen}
+        onOpenChange={(open) => {
+          setIsPrefixDialogOpen(open);
+          if (!open) {
+            setPrefixInput(currentPrefix || "");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Order Number Prefix</DialogTitle>
+            <DialogDescription>
+              New orders for your products will be numbered with this prefix instead of {DEFAULT_ORDER_PREFIX}.
+              Leave it empty to use the default.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="orderPrefix">Prefix</Label>
+            <Input
+              id="orderPrefix"
+              placeholder={DEFAULT_ORDER_PREFIX}
+              maxLength={6}
+              value={prefixInput}
+              onChange={(e) => setPrefixInput(e.target.value.toUpperCase())}
+            />
+            <p className="text-xs text-gray-500">2 to 6 letters. Existing order numbers don&apos;t change.</p>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button
+              variant="outline"
+              onClick={() => setIsPrefixDialogOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSavePrefix}
+              disabled={isLoading}
+            >
+              Save Prefix
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog
+        open={!!rejectingItem}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingItem(null);
+            setRejectionReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Order Item</DialogTitle>
+            <DialogDescription>
+              Let the buyer know why you can't fulfil "{rejectingItem?.productName}".
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="e.g. The item was sold elsewhere"
+            rows={4}
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+          />
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button
+              variant="outline"
+              onClick={() => setRejectingItem(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={isLoading || rejectionReason.trim().length < 3}
+            >
+              Reject Item
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,11 +4,21 @@ import {
   ShoppingBag, 
   LogOut, 
   Settings, 
-  Plus
+  Plus,
+  ShieldCheck,
+  Inbox,
+  MessageSquare,
+  HandCoins,
+  Repeat,
+  Star,
+  Store
 } from "lucide-react";
 import Link from "next/link";
 import { getSellerProducts } from "@/lib/product-actions";
 import { requireSellerAuth } from "@/lib/session";
+import { getUnreadMessageCount } from "@/lib/message-actions";
+import { getOffersAwaitingResponseCount } from "@/lib/offer-actions";
+import { getPendingTradeCount } from "@/lib/trade-actions";
 import SellerDashboardClient from "./seller-dashboard-client";
 
 export default async function SellerPage() {
@@ -16,7 +26,12 @@ export default async function SellerPage() {
   const session = await requireSellerAuth();
   
   // Load products for the authenticated seller
-  const productsResult = await getSellerProducts(session.userId, { limit: 100 });
+  const [productsResult, unreadMessages, pendingOffers, pendingTrades] = await Promise.all([
+    getSellerProducts(session.userId, { limit: 100 }),
+    getUnreadMessageCount(),
+    getOffersAwaitingResponseCount(),
+    getPendingTradeCount(),
+  ]);
   const products = productsResult.success ? productsResult.products || [] : [];
 
   // Calculate stats
@@ -40,10 +55,69 @@ export default async function SellerPage() {
               </Badge>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="ghost" size="sm">
-                <Settings className="w-4 h-4 mr-2" />
-                Settings
-              </Button>
+              <Link href="/seller/orders">
+                <Button variant="ghost" size="sm">
+                  <Inbox className="w-4 h-4 mr-2" />
+                  Orders
+                </Button>
+              </Link>
+              <Link href="/seller/offers">
+                <Button variant="ghost" size="sm">
+                  <HandCoins className="w-4 h-4 mr-2" />
+                  Offers
+                  {pendingOffers > 0 && (
+                    <Badge className="ml-2 bg-red-600 text-white">
+                      {pendingOffers > 99 ? "99+" : pendingOffers}
+                    </Badge>
+                  )}
+                </Button>
+              </Link>
+              <Link href="/seller/trades">
+                <Button variant="ghost" size="sm">
+                  <Repeat className="w-4 h-4 mr-2" />
+                  Trades
+                  {pendingTrades > 0 && (
+                    <Badge className="ml-2 bg-red-600 text-white">
+                      {pendingTrades > 99 ? "99+" : pendingTrades}
+                    </Badge>
+                  )}
+                </Button>
+              </Link>
+              <Link href="/seller/storefront">
+                <Button variant="ghost" size="sm">
+                  <Store className="w-4 h-4 mr-2" />
+                  Storefront
+                </Button>
+              </Link>
+              <Link href="/seller/reviews">
+                <Button variant="ghost" size="sm">
+                  <Star className="w-4 h-4 mr-2" />
+                  Reviews
+                </Button>
+              </Link>
+              <Link href="/seller/messages">
+                <Button variant="ghost" size="sm" className="relative">
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Messages
+                  {unreadMessages > 0 && (
+                    <Badge className="ml-2 bg-red-600 text-white">
+                      {unreadMessages > 99 ? "99+" : unreadMessages}
+                    </Badge>
+                  )}
+                </Button>
+              </Link>
+              <Link href="/account/settings">
+                <Button variant="ghost" size="sm">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Settings
+                </Button>
+              </Link>
+              <Link href="/account/sessions">
+                <Button variant="ghost" size="sm">
+                  <ShieldCheck className="w-4 h-4 mr-2" />
+                  Security
+                </Button>
+              </Link>
               <Link href="/">
                 <Button variant="outline" size="sm">
                   <LogOut className="w-4 h-4 mr-2" />
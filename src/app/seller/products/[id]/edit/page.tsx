@@ -109,6 +109,7 @@ export default function EditProductPage() {
     price: Number(product.price),
     location: product.location,
     contactNumber: product.contactNumber,
+    availableQuantity: product.availableQuantity,
     images: product.images || [],
   };
 
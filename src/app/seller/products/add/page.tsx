@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -9,12 +9,27 @@ import { ArrowLeft, Plus } from "lucide-react";
 import Link from "next/link";
 import ProductForm from "@/components/product-form";
 import { createProduct } from "@/lib/product-actions";
+import { getAccountSettings } from "@/lib/user-actions";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EmailVerificationBanner } from "@/components/email-verification-banner";
+import type { ProductFormData } from "@/lib/validation-schemas";
 
 
 export default function AddProductPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [defaults, setDefaults] = useState<Partial<ProductFormData> | null>(null);
   const router = useRouter();
 
+  // Prefill the listing with the seller's default location and contact number
+  useEffect(() => {
+    getAccountSettings()
+      .then(settings => setDefaults({
+        location: settings?.defaultLocation || undefined,
+        contactNumber: settings?.defaultContactNumber || settings?.phone || undefined,
+      }))
+      .catch(() => setDefaults({}));
+  }, []);
+
   const handleSubmit = async (formData: FormData) => {
     setIsSubmitting(true);
     
@@ -69,6 +84,8 @@ export default function AddProductPage() {
           </p>
         </div>
 
+        <EmailVerificationBanner action="list products" />
+
         {/* Product Form */}
         <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
           <CardHeader>
@@ -81,11 +98,20 @@ export default function AddProductPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <ProductForm
-              onSubmit={handleSubmit}
-              isSubmitting={isSubmitting}
-              mode="create"
-            />
+            {defaults ? (
+              <ProductForm
+                initialData={defaults}
+                onSubmit={handleSubmit}
+                isSubmitting={isSubmitting}
+                mode="create"
+              />
+            ) : (
+              <div className="space-y-4">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
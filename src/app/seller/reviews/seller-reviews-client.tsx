@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MessageSquare, Star } from "lucide-react";
+import { getMyReviews, replyToReview, SellerReview } from "@/lib/review-actions";
+import { ReviewCard } from "@/components/review-card";
+import { toast } from "sonner";
+
+interface SellerReviewsClientProps {
+  reviews: SellerReview[];
+  sellerName: string;
+}
+
+export default function SellerReviewsClient({ reviews, sellerName }: SellerReviewsClientProps) {
+  const [localReviews, setLocalReviews] = useState<SellerReview[]>(reviews);
+  const [replyingTo, setReplyingTo] = useState<SellerReview | null>(null);
+  const [reply, setReply] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleReply = async () => {
+    if (!replyingTo) return;
+
+    try {
+      setIsSubmitting(true);
+      const result = await replyToReview(replyingTo.id, reply);
+      toast.success(result.message);
+      setReplyingTo(null);
+      setReply("");
+      setLocalReviews(await getMyReviews());
+    } catch (error) {
+      console.error("Error replying to review:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to post reply");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (localReviews.length === 0) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <Star className="w-16 h-16 mx-auto text-gray-400" />
+        <p className="text-gray-600">
+          No reviews yet. Buyers can review items once you confirm their order.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        {localReviews.map((review) => (
+          <Card key={review.id} className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+            <CardContent className="px-6 py-2">
+              <ReviewCard
+                review={review}
+                sellerName={sellerName}
+                replyAction={
+                  <div className="flex justify-end">
+                    <Button variant="outline" size="sm" onClick={() => setReplyingTo(review)}>
+                      <MessageSquare className="w-4 h-4 mr-2" />
+                      Reply
+                    </Button>
+                  </div>
+                }
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog
+        open={!!replyingTo}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReplyingTo(null);
+            setReply("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reply to {replyingTo?.buyer.name}</DialogTitle>
+            <DialogDescription>
+              Your reply is shown publicly under the review and can&apos;t be edited once posted.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={4}
+            maxLength={1000}
+            placeholder="e.g. Thanks for buying, glad the item worked out!"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+          />
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setReplyingTo(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReply} disabled={isSubmitting || reply.trim().length < 2}>
+              {isSubmitting ? "Posting..." : "Post Reply"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -234,6 +234,9 @@ export default function SellerDashboardClient({
                         >
                           {product.isActive ? "Active" : "Inactive"}
                         </Badge>
+                        {product.isActive && product.availableQuantity <= 0 && (
+                          <Badge className="bg-gray-800 ml-2">Sold out</Badge>
+                        )}
                       </td>
                       <td className="py-4 px-4">
                         <div className="flex items-center space-x-2">
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { User } from "lucide-react";
+import { updateStorefrontProfile, StorefrontProfile } from "@/lib/storefront-actions";
+import { validateImageFile } from "@/lib/blob-utils";
+import { sriLankanCities } from "@/lib/validation-schemas";
+import { toast } from "sonner";
+
+interface StorefrontSettingsClientProps {
+  profile: StorefrontProfile;
+  sellerName: string;
+}
+
+export default function StorefrontSettingsClient({ profile, sellerName }: StorefrontSettingsClientProps) {
+  const [bio, setBio] = useState(profile.bio || "");
+  const [city, setCity] = useState(profile.city || "");
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(profile.avatarUrl);
+  const [removeAvatar, setRemoveAvatar] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Free the object URL of a picked file once it's replaced
+  useEffect(() => {
+    return () => {
+      if (avatarPreview?.startsWith("blob:")) {
+        URL.revokeObjectURL(avatarPreview);
+      }
+    };
+  }, [avatarPreview]);
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      e.target.value = "";
+      return;
+    }
+
+    setAvatarFile(file);
+    setAvatarPreview(URL.createObjectURL(file));
+    setRemoveAvatar(false);
+  };
+
+  const handleRemoveAvatar = () => {
+    setAvatarFile(null);
+    setAvatarPreview(null);
+    setRemoveAvatar(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const formData = new FormData();
+      formData.append("bio", bio);
+      formData.append("city", city);
+      if (avatarFile) {
+        formData.append("avatar", avatarFile);
+      } else if (removeAvatar) {
+        formData.append("removeAvatar", "true");
+      }
+
+      const result = await updateStorefrontProfile(formData);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(result.message);
+      setAvatarFile(null);
+      setRemoveAvatar(false);
+    } catch (error) {
+      console.error("Error saving storefront:", error);
+      toast.error("Failed to update storefront");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center gap-6">
+          {avatarPreview ? (
+            <img
+              src={avatarPreview}
+              alt={sellerName}
+              className="w-24 h-24 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-24 h-24 rounded-full bg-gray-100 flex items-center justify-center">
+              <User className="w-12 h-12 text-gray-500" />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="storefront-avatar">Avatar</Label>
+            <Input
+              id="storefront-avatar"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={handleAvatarChange}
+            />
+            <p className="text-xs text-gray-500">JPEG, PNG or WebP, up to 3MB</p>
+            {avatarPreview && (
+              <Button variant="outline" size="sm" onClick={handleRemoveAvatar}>
+                Remove Avatar
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="storefront-bio">Bio</Label>
+          <Textarea
+            id="storefront-bio"
+            rows={5}
+            maxLength={500}
+            placeholder="e.g. Selling quality second-hand electronics since 2015. Happy to answer questions!"
+            value={bio}
+            onChange={(e) => setBio(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 text-right">{bio.length}/500</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>City</Label>
+          <Select value={city} onValueChange={setCity}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select your city" />
+            </SelectTrigger>
+            <SelectContent>
+              {sriLankanCities.map((cityOption) => (
+                <SelectItem key={cityOption} value={cityOption}>
+                  {cityOption}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Storefront"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeftRight, Check, Repeat, X } from "lucide-react";
+import {
+  cancelTrade,
+  getMyTrades,
+  respondToTrade,
+  TradeListing,
+  TradeStatus,
+  TradeSummary
+} from "@/lib/trade-actions";
+import { toast } from "sonner";
+
+interface SellerTradesClientProps {
+  trades: TradeSummary[];
+}
+
+const tradeStatusLabels: Record<TradeStatus, string> = {
+  pending: "Pending",
+  completed: "Completed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+const tradeStatusColors: Record<TradeStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  expired: "bg-gray-100 text-gray-800",
+};
+
+export default function SellerTradesClient({ trades }: SellerTradesClientProps) {
+  const [localTrades, setLocalTrades] = useState<TradeSummary[]>(trades);
+  const [updatingTradeId, setUpdatingTradeId] = useState<string | null>(null);
+
+  const runTradeAction = async (tradeId: string, action: () => Promise<{ message: string }>) => {
+    try {
+      setUpdatingTradeId(tradeId);
+      const result = await action();
+      toast.success(result.message);
+      setLocalTrades(await getMyTrades());
+    } catch (error) {
+      console.error("Error updating trade:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update trade");
+    } finally {
+      setUpdatingTradeId(null);
+    }
+  };
+
+  const formatPrice = (price: string | number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(Number(price));
+  };
+
+  const renderListing = (listing: TradeListing) => (
+    <div key={listing.id} className="flex items-center gap-3">
+      <img
+        src={listing.image || '/placeholder-product.jpg'}
+        alt={listing.name}
+        className="w-12 h-12 object-cover rounded-md"
+      />
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{listing.name}</p>
+        <p className="text-xs text-gray-600">{formatPrice(listing.price)}</p>
+      </div>
+    </div>
+  );
+
+  const renderTrade = (trade: TradeSummary) => {
+    const isUpdating = updatingTradeId === trade.id;
+    const hasCash = parseFloat(trade.cashTopUp) > 0;
+
+    return (
+      <Card key={trade.id} className={`border-0 shadow-lg bg-white/80 backdrop-blur-sm ${isUpdating ? "opacity-50" : ""}`}>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-600">
+              {trade.direction === 'received'
+                ? `${trade.counterpart.name} wants your listing`
+                : `You proposed to ${trade.counterpart.name}`}
+              {" · "}{new Date(trade.createdAt).toLocaleDateString()}
+            </p>
+            <Badge className={tradeStatusColors[trade.status]}>
+              {tradeStatusLabels[trade.status]}
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-center">
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase text-gray-500">
+                {trade.direction === 'received' ? "They offer" : "You offer"}
+              </p>
+              {trade.offeredProducts.map(renderListing)}
+              {hasCash && (
+                <p className="text-sm font-medium text-gray-900">
+                  + {formatPrice(trade.cashTopUp)} cash
+                </p>
+              )}
+            </div>
+            <ArrowLeftRight className="w-5 h-5 text-gray-400 mx-auto" />
+            <div className="space-y-2">
+              <p className="text-xs font-medium uppercase text-gray-500">
+                {trade.direction === 'received' ? "For your listing" : "For their listing"}
+              </p>
+              {renderListing(trade.targetProduct)}
+            </div>
+          </div>
+
+          {trade.message && (
+            <p className="text-sm text-gray-600 italic">&ldquo;{trade.message}&rdquo;</p>
+          )}
+
+          {trade.status === 'pending' && (
+            <div className="flex justify-end gap-2">
+              {trade.direction === 'received' ? (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runTradeAction(trade.id, () => respondToTrade(trade.id, 'decline'))}
+                    disabled={isUpdating}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => runTradeAction(trade.id, () => respondToTrade(trade.id, 'accept'))}
+                    disabled={isUpdating}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Accept Trade
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runTradeAction(trade.id, () => cancelTrade(trade.id))}
+                  disabled={isUpdating}
+                >
+                  Cancel Proposal
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const received = localTrades.filter(trade => trade.direction === 'received');
+  const sent = localTrades.filter(trade => trade.direction === 'sent');
+  const pendingReceived = received.filter(trade => trade.status === 'pending').length;
+
+  const renderList = (list: TradeSummary[], emptyText: string) =>
+    list.length === 0 ? (
+      <div className="text-center py-16 space-y-4">
+        <Repeat className="w-16 h-16 mx-auto text-gray-400" />
+        <p className="text-gray-600">{emptyText}</p>
+      </div>
+    ) : (
+      <div className="space-y-4">{list.map(renderTrade)}</div>
+    );
+
+  return (
+    <Tabs defaultValue="received">
+      <TabsList className="mb-6">
+        <TabsTrigger value="received">
+          Received
+          {pendingReceived > 0 && (
+            <Badge className="ml-2 bg-blue-600 text-white">{pendingReceived}</Badge>
+          )}
+        </TabsTrigger>
+        <TabsTrigger value="sent">Sent</TabsTrigger>
+      </TabsList>
+      <TabsContent value="received">
+        {renderList(received, "No one has proposed a trade for your listings yet.")}
+      </TabsContent>
+      <TabsContent value="sent">
+        {renderList(sent, "Open another seller's listing and choose \"Propose a Trade\" to swap items.")}
+      </TabsContent>
+    </Tabs>
+  );
+}
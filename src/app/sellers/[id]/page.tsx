@@ -0,0 +1,177 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Calendar, Clock, MapPin, MessageSquare, ShoppingBag, Star, User } from "lucide-react";
+import { getSellerReviews } from "@/lib/review-actions";
+import { getSellerStorefront } from "@/lib/storefront-actions";
+import { ReviewCard } from "@/components/review-card";
+import { StarRating } from "@/components/star-rating";
+import { StorefrontListings } from "./storefront-listings";
+
+interface SellerStorefrontPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function formatResponseTime(hours: number) {
+  if (hours < 1) return "within an hour";
+  if (hours < 24) return `within ${Math.ceil(hours)} hours`;
+  const days = Math.ceil(hours / 24);
+  return `within ${days} day${days === 1 ? "" : "s"}`;
+}
+
+export default async function SellerStorefrontPage({ params }: SellerStorefrontPageProps) {
+  const { id } = await params;
+  const [seller, profile] = await Promise.all([
+    getSellerStorefront(id),
+    getSellerReviews(id),
+  ]);
+
+  if (!seller || !profile) {
+    notFound();
+  }
+
+  const { rating, responseStats } = seller;
+  const { distribution, reviews } = profile;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Link href="/" className="flex items-center">
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center mr-3">
+                <ShoppingBag className="w-5 h-5 text-white" />
+              </div>
+              <span className="text-xl font-bold text-gray-900">ReTrade</span>
+            </Link>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Seller Summary */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardContent className="p-6">
+            <div className="flex flex-col md:flex-row md:items-start gap-6">
+              <div className="flex items-start gap-4 flex-1">
+                {seller.avatarUrl ? (
+                  <img
+                    src={seller.avatarUrl}
+                    alt={seller.name}
+                    className="w-20 h-20 rounded-full object-cover"
+                  />
+                ) : (
+                  <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center">
+                    <User className="w-10 h-10 text-gray-500" />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <h1 className="text-2xl font-bold text-gray-900">{seller.name}</h1>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      Member since {new Date(seller.joinedAt).toLocaleDateString()}
+                    </span>
+                    {seller.city && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-4 h-4" />
+                        {seller.city}
+                      </span>
+                    )}
+                  </div>
+                  {seller.bio && (
+                    <p className="text-gray-700 whitespace-pre-wrap max-w-2xl">{seller.bio}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-6">
+                <div className="text-center">
+                  <div className="text-4xl font-bold text-gray-900">
+                    {rating.average !== null ? rating.average.toFixed(1) : "–"}
+                  </div>
+                  <StarRating rating={rating.average ?? 0} />
+                  <p className="text-xs text-gray-600 mt-1">
+                    {rating.count} review{rating.count === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  {[5, 4, 3, 2, 1].map((stars) => (
+                    <div key={stars} className="flex items-center gap-2 text-xs text-gray-600">
+                      <span className="w-3">{stars}</span>
+                      <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                      <div className="w-32 h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-yellow-400"
+                          style={{
+                            width: rating.count > 0
+                              ? `${(distribution[stars - 1] / rating.count) * 100}%`
+                              : "0%",
+                          }}
+                        />
+                      </div>
+                      <span className="w-6 text-right">{distribution[stars - 1]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <Separator className="my-6" />
+
+            {/* Response Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div className="flex items-center gap-3">
+                <MessageSquare className="w-5 h-5 text-blue-600" />
+                <div>
+                  <p className="text-gray-600">Response rate</p>
+                  <p className="font-medium text-gray-900">
+                    {responseStats.responseRate !== null
+                      ? `${responseStats.responseRate}% of ${responseStats.conversationCount} buyer conversation${responseStats.conversationCount === 1 ? "" : "s"}`
+                      : "No buyer messages yet"}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <Clock className="w-5 h-5 text-blue-600" />
+                <div>
+                  <p className="text-gray-600">Response time</p>
+                  <p className="font-medium text-gray-900">
+                    {responseStats.averageResponseHours !== null
+                      ? `Usually replies ${formatResponseTime(responseStats.averageResponseHours)}`
+                      : "Not enough replies yet"}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <StorefrontListings sellerId={seller.id} sellerName={seller.name} />
+
+        {/* Reviews */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Reviews</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {reviews.length === 0 ? (
+              <p className="text-gray-600 text-center py-8">
+                {seller.name} hasn&apos;t been reviewed yet.
+              </p>
+            ) : (
+              reviews.map((review, index) => (
+                <div key={review.id}>
+                  {index > 0 && <Separator />}
+                  <ReviewCard review={review} sellerName={seller.name} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getProducts, getProductCategories, getProductLocations, ProductFilters, ProductsResponse } from "@/lib/product-discovery-actions";
+import { ProductCard } from "@/components/product-card";
+import { FilterSidebar } from "@/components/filter-sidebar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { Filter } from "lucide-react";
+import { toast } from "sonner";
+
+interface StorefrontListingsProps {
+  sellerId: string;
+  sellerName: string;
+}
+
+const emptyFilters: ProductFilters = {
+  category: [],
+  productType: undefined,
+  condition: undefined,
+  priceRange: undefined,
+  location: [],
+};
+
+export function StorefrontListings({ sellerId, sellerName }: StorefrontListingsProps) {
+  const [products, setProducts] = useState<ProductsResponse['products']>([]);
+  const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [locations, setLocations] = useState<string[]>([]);
+  const [filters, setFilters] = useState<ProductFilters>(emptyFilters);
+
+  const loadProducts = async (cursor: string | null, currentFilters: ProductFilters) => {
+    try {
+      setLoading(true);
+      const response = await getProducts(
+        { ...currentFilters, sellerId },
+        { cursor: cursor ?? undefined, limit: 12, includeTotal: !cursor }
+      );
+
+      setProducts(prev => cursor ? [...prev, ...response.products] : response.products);
+      if (response.total !== null) {
+        setTotal(response.total);
+      }
+      setHasMore(response.hasMore);
+      setNextCursor(response.nextCursor);
+    } catch (error) {
+      console.error("Error loading listings:", error);
+      toast.error("Failed to load listings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProducts(null, emptyFilters);
+    Promise.all([getProductCategories(), getProductLocations()])
+      .then(([categoriesData, locationsData]) => {
+        setCategories(categoriesData);
+        setLocations(locationsData);
+      })
+      .catch(error => console.error("Error loading categories and locations:", error));
+  }, [sellerId]);
+
+  const handleFilterChange = (newFilters: Partial<ProductFilters>) => {
+    const updatedFilters = { ...filters, ...newFilters };
+    setFilters(updatedFilters);
+    loadProducts(null, updatedFilters);
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    loadProducts(null, emptyFilters);
+  };
+
+  const filterSidebar = (
+    <FilterSidebar
+      filters={filters}
+      categories={categories}
+      locations={locations}
+      onFilterChange={handleFilterChange}
+      onClearFilters={clearFilters}
+    />
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Listings</h2>
+          <p className="text-gray-600">
+            {loading ? "Loading..." : `${total} active listing${total === 1 ? "" : "s"}`}
+          </p>
+        </div>
+
+        {/* Mobile Filter Sheet */}
+        <Sheet>
+          <SheetTrigger asChild>
+            <Button variant="outline" className="lg:hidden">
+              <Filter className="h-4 w-4 mr-2" />
+              Filters
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="right" className="w-80">
+            {filterSidebar}
+          </SheetContent>
+        </Sheet>
+      </div>
+
+      <div className="flex gap-8">
+        {/* Desktop Filter Sidebar */}
+        <div className="hidden lg:block w-72 flex-shrink-0">
+          <div className="sticky top-20">
+            {filterSidebar}
+          </div>
+        </div>
+
+        <div className="flex-1">
+          {loading && products.length === 0 ? (
+            <div className="grid gap-6 grid-cols-1 md:grid-cols-2 xl:grid-cols-3">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <div key={index} className="space-y-4">
+                  <Skeleton className="aspect-square w-full" />
+                  <Skeleton className="h-4 w-3/4" />
+                  <Skeleton className="h-4 w-1/2" />
+                </div>
+              ))}
+            </div>
+          ) : products.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-gray-400 text-6xl mb-4">📦</div>
+              <p className="text-gray-600 mb-4">
+                No listings from {sellerName} match these filters.
+              </p>
+              <Button onClick={clearFilters} variant="outline">
+                Clear Filters
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-6 grid-cols-1 md:grid-cols-2 xl:grid-cols-3">
+                {products.map((product) => (
+                  <ProductCard
+                    key={product.id}
+                    product={{
+                      ...product,
+                      updatedAt: product.createdAt,
+                      sellerId,
+                      isActive: true,
+                    }}
+                    isBuyerView={true}
+                    showActions={false}
+                  />
+                ))}
+              </div>
+
+              {hasMore && (
+                <div className="text-center mt-8">
+                  <Button onClick={() => loadProducts(nextCursor, filters)} disabled={loading}>
+                    {loading ? "Loading..." : "Load More"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
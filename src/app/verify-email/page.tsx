@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { verifyEmail } from "@/lib/auth-actions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { MailCheck } from "lucide-react";
+import Link from "next/link";
+
+function VerifyEmailCard() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  // Tokens are single use, so don't spend one twice when effects run again in development
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (hasSubmitted.current) {
+      return;
+    }
+    hasSubmitted.current = true;
+
+    verifyEmail(token)
+      .then((response) => {
+        setResult({
+          success: response.success,
+          message: (response.success ? response.message : response.error) || "Failed to verify email",
+        });
+      })
+      .catch(() => setResult({ success: false, message: "Failed to verify email. Please try again." }));
+  }, [token]);
+
+  return (
+    <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="space-y-1 text-center">
+        <div className="mx-auto w-12 h-12 bg-gradient-to-r from-green-600 to-emerald-600 rounded-full flex items-center justify-center mb-4">
+          <MailCheck className="w-6 h-6 text-white" />
+        </div>
+        <CardTitle className="text-2xl font-bold text-gray-900">
+          Verify Your Email
+        </CardTitle>
+        <CardDescription className="text-gray-600">
+          A verified email lets you list products and place orders
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {!result ? (
+          <div className="text-center">
+            <div className="w-8 h-8 border-2 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Checking your link...</p>
+          </div>
+        ) : (
+          <div className="text-center space-y-4">
+            <p className={result.success ? "text-gray-700" : "text-red-600"}>{result.message}</p>
+            {!result.success && (
+              <p className="text-sm text-gray-500">
+                You can ask for a new link from your account settings.
+              </p>
+            )}
+            <Link
+              href={result.success ? "/login" : "/account/settings"}
+              className="font-medium text-green-600 hover:text-green-700 transition-colors duration-200"
+            >
+              {result.success ? "Continue to ReTrade" : "Go to account settings"}
+            </Link>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <Suspense fallback={
+        <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+          <CardContent className="p-8 text-center">
+            <div className="w-12 h-12 border-2 border-green-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-gray-600">Loading...</p>
+          </CardContent>
+        </Card>
+      }>
+        <VerifyEmailCard />
+      </Suspense>
+    </div>
+  );
+}
@@ -1,13 +1,28 @@
 "use client";
 
-import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart, Package } from "lucide-react";
+import { ShoppingCart, Package, ShieldCheck, Heart, Bell, Bookmark, MessageSquare, HandCoins, Settings } from "lucide-react";
 import { logoutUser } from "@/lib/auth-actions";
+import { getUnreadNotificationCount } from "@/lib/notification-actions";
+import { getUnreadMessageCount } from "@/lib/message-actions";
+import { getOffersAwaitingResponseCount } from "@/lib/offer-actions";
 import { toast } from "sonner";
 
 export function BuyerNav() {
   const router = useRouter();
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [counteredOffers, setCounteredOffers] = useState(0);
+
+  // Refresh the badges on every navigation so handled notifications, messages and offers clear them
+  useEffect(() => {
+    getUnreadNotificationCount().then(setUnreadCount);
+    getUnreadMessageCount().then(setUnreadMessages);
+    getOffersAwaitingResponseCount().then(setCounteredOffers);
+  }, [pathname]);
 
   const handleLogout = async () => {
     try {
@@ -48,6 +63,62 @@ export function BuyerNav() {
               <ShoppingCart className="w-4 h-4 mr-2" />
               Cart
             </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/buyer/wishlist")}
+            >
+              <Heart className="w-4 h-4 mr-2" />
+              Wishlist
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/buyer/saved-searches")}
+            >
+              <Bookmark className="w-4 h-4 mr-2" />
+              Searches
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/buyer/offers")}
+              className="relative"
+              aria-label={counteredOffers > 0 ? `Offers (${counteredOffers} awaiting you)` : "Offers"}
+            >
+              <HandCoins className="w-4 h-4 mr-2" />
+              Offers
+              {counteredOffers > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+                  {counteredOffers > 99 ? "99+" : counteredOffers}
+                </span>
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/buyer/messages")}
+              className="relative"
+              aria-label={unreadMessages > 0 ? `Messages (${unreadMessages} unread)` : "Messages"}
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Messages
+              {unreadMessages > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+                  {unreadMessages > 99 ? "99+" : unreadMessages}
+                </span>
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/buyer/notifications")}
+              className="relative"
+              aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+            >
+              <Bell className="w-4 h-4 mr-2" />
+              Alerts
+              {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
+            </Button>
             <Button
               variant="ghost"
               onClick={() => router.push("/buyer/orders")}
@@ -55,6 +126,20 @@ export function BuyerNav() {
               <Package className="w-4 h-4 mr-2" />
               Orders
             </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/account/settings")}
+            >
+              <Settings className="w-4 h-4 mr-2" />
+              Settings
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => router.push("/account/sessions")}
+            >
+              <ShieldCheck className="w-4 h-4 mr-2" />
+              Security
+            </Button>
             <Button variant="outline" size="sm" onClick={handleLogout}>
               Logout
             </Button>
@@ -0,0 +1,269 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useRouter } from "next/navigation";
+import {
+  getConversations,
+  getConversationMessages,
+  markConversationRead,
+  sendMessage,
+  ConversationSummary,
+  ConversationMessage
+} from "@/lib/message-actions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MessageSquare, Send, Package } from "lucide-react";
+import { toast } from "sonner";
+
+// New messages are picked up by polling while the inbox is open
+const POLL_INTERVAL_MS = 15000;
+
+interface ConversationInboxProps {
+  role: 'buyer' | 'seller';
+  initialConversationId?: string | null;
+}
+
+export function ConversationInbox({ role, initialConversationId }: ConversationInboxProps) {
+  const router = useRouter();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(initialConversationId ?? null);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const data = await getConversations();
+      setConversations(data);
+    } catch (error) {
+      console.error("Error loading conversations:", error);
+      toast.error("Failed to load messages");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadMessages = useCallback(async (conversationId: string) => {
+    const data = await getConversationMessages(conversationId);
+    setMessages(data);
+    await markConversationRead(conversationId);
+    setConversations(prev =>
+      prev.map(c => (c.id === conversationId ? { ...c, unreadCount: 0 } : c))
+    );
+  }, []);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  useEffect(() => {
+    if (!activeId) return;
+
+    setLoadingMessages(true);
+    loadMessages(activeId)
+      .catch((error) => {
+        console.error("Error loading conversation:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to load conversation");
+      })
+      .finally(() => setLoadingMessages(false));
+  }, [activeId, loadMessages]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      loadConversations();
+      if (activeId) {
+        loadMessages(activeId).catch((error) => console.error("Error refreshing conversation:", error));
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeId, loadConversations, loadMessages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages]);
+
+  const handleSelect = (conversationId: string) => {
+    setActiveId(conversationId);
+    router.replace(`/${role}/messages?c=${conversationId}`);
+  };
+
+  const handleSend = async () => {
+    if (!activeId || !draft.trim()) return;
+
+    try {
+      setIsSending(true);
+      await sendMessage(activeId, draft);
+      setDraft("");
+      await Promise.all([loadMessages(activeId), loadConversations()]);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const activeConversation = conversations.find(c => c.id === activeId);
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+        <Skeleton className="md:col-span-2 h-96" />
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <MessageSquare className="w-16 h-16 mx-auto text-gray-400" />
+        <h2 className="text-xl font-semibold text-gray-900">No messages yet</h2>
+        <p className="text-gray-600">
+          {role === "buyer"
+            ? "Ask a seller about a product from its page and the conversation will show up here."
+            : "Questions from buyers about your products will show up here."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Thread list */}
+      <div className="space-y-2">
+        {conversations.map((conversation) => (
+          <button
+            key={conversation.id}
+            onClick={() => handleSelect(conversation.id)}
+            className={`w-full text-left rounded-lg border p-3 transition-colors ${
+              conversation.id === activeId
+                ? "border-blue-300 bg-blue-50"
+                : "border-gray-200 bg-white hover:bg-gray-50"
+            }`}
+          >
+            <div className="flex gap-3">
+              {conversation.product.image ? (
+                <img
+                  src={conversation.product.image}
+                  alt=""
+                  className="w-12 h-12 object-cover rounded-md flex-shrink-0"
+                />
+              ) : (
+                <div className="w-12 h-12 rounded-md bg-gray-100 flex items-center justify-center flex-shrink-0">
+                  <Package className="w-5 h-5 text-gray-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900 truncate">
+                    {conversation.counterpart.name}
+                  </span>
+                  {conversation.unreadCount > 0 && (
+                    <Badge className="bg-blue-600 text-white">{conversation.unreadCount}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate">
+                  {conversation.product.name}
+                  {conversation.order && ` · ${conversation.order.orderNumber}`}
+                </p>
+                {conversation.lastMessage && (
+                  <p className="text-sm text-gray-600 truncate mt-1">{conversation.lastMessage}</p>
+                )}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Active thread */}
+      <Card className="md:col-span-2">
+        <CardContent className="p-0 flex flex-col h-[32rem]">
+          {!activeConversation ? (
+            <div className="flex-1 flex items-center justify-center text-gray-500">
+              Select a conversation to read it
+            </div>
+          ) : (
+            <>
+              <div className="border-b px-4 py-3">
+                <p className="font-semibold text-gray-900">{activeConversation.counterpart.name}</p>
+                <p className="text-sm text-gray-600">
+                  {role === "buyer" ? (
+                    <button
+                      onClick={() => router.push(`/buyer/products/${activeConversation.product.id}`)}
+                      className="hover:text-blue-600 hover:underline"
+                    >
+                      {activeConversation.product.name}
+                    </button>
+                  ) : (
+                    activeConversation.product.name
+                  )}
+                  {activeConversation.order && ` · Order ${activeConversation.order.orderNumber}`}
+                </p>
+              </div>
+
+              <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+                {loadingMessages && messages.length === 0 ? (
+                  <div className="space-y-3">
+                    <Skeleton className="h-12 w-2/3" />
+                    <Skeleton className="h-12 w-1/2 ml-auto" />
+                  </div>
+                ) : (
+                  messages.map((message) => (
+                    <div
+                      key={message.id}
+                      className={`flex ${message.isMine ? "justify-end" : "justify-start"}`}
+                    >
+                      <div
+                        className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                          message.isMine ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-900"
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                        <p className={`text-xs mt-1 ${message.isMine ? "text-blue-100" : "text-gray-500"}`}>
+                          {new Date(message.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))
+                )}
+                <div ref={bottomRef} />
+              </div>
+
+              <div className="border-t p-3 flex gap-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSend();
+                    }
+                  }}
+                  placeholder="Write a message..."
+                  rows={2}
+                  maxLength={2000}
+                  className="resize-none"
+                />
+                <Button onClick={handleSend} disabled={isSending || !draft.trim()}>
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getEmailVerificationStatus, resendVerificationEmail } from "@/lib/auth-actions";
+import { toast } from "sonner";
+
+interface EmailVerificationBannerProps {
+  // What the user is blocked from until they verify, e.g. "place orders"
+  action: string;
+}
+
+export function EmailVerificationBanner({ action }: EmailVerificationBannerProps) {
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    getEmailVerificationStatus()
+      .then((status) => setNeedsVerification(status.isLoggedIn && !status.isVerified))
+      .catch((error) => console.error("Error checking email verification:", error));
+  }, []);
+
+  if (!needsVerification) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setIsSending(true);
+      const result = await resendVerificationEmail();
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      toast.error("Failed to send verification email");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start gap-3">
+        <MailWarning className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+        <p className="text-sm text-amber-800">
+          Verify your email address to {action}. We sent a link when you signed up.
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+        {isSending ? "Sending..." : "Resend Link"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { HighlightSegment } from "@/lib/product-search";
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[] | undefined;
+  // Shown as-is when there are no search highlights
+  fallback: string;
+}
+
+export function HighlightedText({ segments, fallback }: HighlightedTextProps) {
+  if (!segments || segments.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { makeOffer } from "@/lib/offer-actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+
+interface MakeOfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: {
+    id: string;
+    name: string;
+    price: string;
+    availableQuantity: number;
+  };
+}
+
+export function MakeOfferDialog({ open, onOpenChange, product }: MakeOfferDialogProps) {
+  const router = useRouter();
+  const [amount, setAmount] = useState("");
+  const [quantity, setQuantity] = useState(1);
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const listedPrice = parseFloat(product.price);
+  const offeredAmount = parseFloat(amount);
+  const isValidAmount = offeredAmount > 0 && offeredAmount < listedPrice;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      const result = await makeOffer(product.id, {
+        amount: offeredAmount,
+        quantity,
+        message: message || undefined,
+      });
+      toast.success(result.message);
+      setAmount("");
+      setMessage("");
+      onOpenChange(false);
+      router.push("/buyer/offers");
+    } catch (error) {
+      console.error("Error making offer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to make offer");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Make an Offer</DialogTitle>
+          <DialogDescription>
+            {product.name} is listed at {formatPrice(listedPrice)}. The seller can accept, reject or counter your offer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="offer-amount">Your offer per item (LKR)</Label>
+            <Input
+              id="offer-amount"
+              type="number"
+              min={1}
+              max={listedPrice - 1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            {amount && !isValidAmount && (
+              <p className="text-sm text-red-600">Your offer must be below the listed price</p>
+            )}
+          </div>
+          {product.availableQuantity > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="offer-quantity">Quantity</Label>
+              <Input
+                id="offer-quantity"
+                type="number"
+                min={1}
+                max={product.availableQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(1, Math.min(product.availableQuantity, parseInt(e.target.value, 10) || 1)))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="offer-message">Message (optional)</Label>
+            <Textarea
+              id="offer-message"
+              placeholder="e.g. I can pick it up this weekend"
+              rows={3}
+              maxLength={500}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isValidAmount}>
+            {isSubmitting ? "Sending..." : "Send Offer"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
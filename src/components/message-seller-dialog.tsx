@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { startConversation } from "@/lib/message-actions";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Send } from "lucide-react";
+import { toast } from "sonner";
+
+interface MessageSellerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sellerName: string;
+  productId: string;
+  productName: string;
+  // Set when the buyer is asking about one of their orders rather than the listing
+  order?: {
+    id: string;
+    orderNumber: string;
+  };
+}
+
+export function MessageSellerDialog({
+  open,
+  onOpenChange,
+  sellerName,
+  productId,
+  productName,
+  order
+}: MessageSellerDialogProps) {
+  const router = useRouter();
+  const [body, setBody] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    try {
+      setIsSending(true);
+      const result = await startConversation({ productId, orderId: order?.id, body });
+      toast.success(result.message);
+      setBody("");
+      onOpenChange(false);
+      router.push(`/buyer/messages?c=${result.conversationId}`);
+    } catch (error) {
+      console.error("Error messaging seller:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Message {sellerName}</DialogTitle>
+          <DialogDescription>
+            {order
+              ? `Ask about ${productName} in order #${order.orderNumber}.`
+              : `Ask a question about ${productName}.`}
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          placeholder={order ? "e.g. When will this be shipped?" : "e.g. Is this still available?"}
+          rows={4}
+          maxLength={2000}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <div className="flex justify-end space-x-2 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !body.trim()}>
+            <Send className="w-4 h-4 mr-2" />
+            {isSending ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
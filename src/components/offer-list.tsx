@@ -0,0 +1,307 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import {
+  getMyOffers,
+  respondToOffer,
+  withdrawOffer,
+  OfferSummary,
+  OfferResponse
+} from "@/lib/offer-actions";
+import { getOfferResponder, offerStatusLabels, type OfferStatus } from "@/lib/offer-status";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, Clock, HandCoins, Package, Repeat, ShoppingCart, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface OfferListProps {
+  role: 'buyer' | 'seller';
+}
+
+const statusColors: Record<OfferStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  countered: "bg-blue-100 text-blue-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-gray-100 text-gray-800",
+  expired: "bg-gray-100 text-gray-800",
+  purchased: "bg-purple-100 text-purple-800",
+};
+
+export function OfferList({ role }: OfferListProps) {
+  const router = useRouter();
+  const [offers, setOffers] = useState<OfferSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<'open' | 'all'>('open');
+  const [updatingOfferId, setUpdatingOfferId] = useState<string | null>(null);
+  const [counteringOffer, setCounteringOffer] = useState<OfferSummary | null>(null);
+  const [counterAmount, setCounterAmount] = useState("");
+
+  const loadOffers = useCallback(async () => {
+    try {
+      const data = await getMyOffers();
+      setOffers(data);
+    } catch (error) {
+      console.error("Error loading offers:", error);
+      toast.error("Failed to load offers");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers]);
+
+  const handleRespond = async (offer: OfferSummary, response: OfferResponse) => {
+    try {
+      setUpdatingOfferId(offer.id);
+      const result = await respondToOffer(offer.id, response);
+      toast.success(result.message);
+      setCounteringOffer(null);
+      setCounterAmount("");
+      await loadOffers();
+    } catch (error) {
+      console.error("Error responding to offer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond to offer");
+    } finally {
+      setUpdatingOfferId(null);
+    }
+  };
+
+  const handleWithdraw = async (offer: OfferSummary) => {
+    try {
+      setUpdatingOfferId(offer.id);
+      const result = await withdrawOffer(offer.id);
+      toast.success(result.message);
+      await loadOffers();
+    } catch (error) {
+      console.error("Error withdrawing offer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to withdraw offer");
+    } finally {
+      setUpdatingOfferId(null);
+    }
+  };
+
+  const formatPrice = (price: string | number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(Number(price));
+  };
+
+  const isOpen = (offer: OfferSummary) => getOfferResponder(offer.status) !== null;
+  const visibleOffers = activeTab === 'open' ? offers.filter(isOpen) : offers;
+  const awaitingCount = offers.filter(offer => getOfferResponder(offer.status) === role).length;
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'open' | 'all')} className="mb-6">
+        <TabsList>
+          <TabsTrigger value="open">
+            Open
+            {awaitingCount > 0 && (
+              <Badge className="ml-2 bg-blue-600 text-white">{awaitingCount}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="all">All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {visibleOffers.length === 0 ? (
+        <div className="text-center py-16 space-y-4">
+          <HandCoins className="w-16 h-16 mx-auto text-gray-400" />
+          <h2 className="text-xl font-semibold text-gray-900">
+            {activeTab === 'open' ? "No open offers" : "No offers yet"}
+          </h2>
+          <p className="text-gray-600">
+            {role === "buyer"
+              ? "Make an offer from any product page to negotiate a better price."
+              : "Offers buyers make on your listings will show up here."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visibleOffers.map((offer) => {
+            const isUpdating = updatingOfferId === offer.id;
+            const isMyTurn = getOfferResponder(offer.status) === role;
+            // The price on the table is whatever the other side proposed last
+            const proposedPrice = offer.status === 'countered' ? offer.counterAmount : offer.amount;
+
+            return (
+              <Card key={offer.id} className={`border-0 shadow-lg bg-white/80 backdrop-blur-sm ${isUpdating ? "opacity-50" : ""}`}>
+                <CardContent className="p-6">
+                  <div className="flex flex-col md:flex-row gap-4">
+                    {offer.product.image ? (
+                      <img
+                        src={offer.product.image}
+                        alt={offer.product.name}
+                        className="w-20 h-20 object-cover rounded-md flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="w-20 h-20 rounded-md bg-gray-100 flex items-center justify-center flex-shrink-0">
+                        <Package className="w-6 h-6 text-gray-400" />
+                      </div>
+                    )}
+
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="font-semibold text-gray-900 truncate">{offer.product.name}</h3>
+                        <Badge className={statusColors[offer.status]}>
+                          {offerStatusLabels[offer.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {role === "buyer" ? "Seller" : "Buyer"}: {offer.counterpart.name}
+                        {" · "}Listed at {formatPrice(offer.product.price)}
+                        {offer.quantity > 1 && ` · Qty ${offer.quantity}`}
+                      </p>
+                      <div className="flex flex-wrap gap-x-4 text-sm">
+                        <span>
+                          {role === "buyer" ? "Your offer" : "Offer"}: <strong>{formatPrice(offer.amount)}</strong>
+                        </span>
+                        {offer.counterAmount && (
+                          <span>
+                            {role === "seller" ? "Your counter" : "Counter"}: <strong>{formatPrice(offer.counterAmount)}</strong>
+                          </span>
+                        )}
+                        {offer.agreedPrice && (
+                          <span className="text-green-700">
+                            Agreed: <strong>{formatPrice(offer.agreedPrice)}</strong> each
+                          </span>
+                        )}
+                      </div>
+                      {offer.message && (
+                        <p className="text-sm text-gray-600 italic">&ldquo;{offer.message}&rdquo;</p>
+                      )}
+                      {(isOpen(offer) || offer.status === 'accepted') && (
+                        <p className="text-xs text-gray-500 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {offer.status === 'accepted' ? "Price held until" : "Expires"} {new Date(offer.expiresAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap md:flex-col gap-2 md:w-40">
+                      {isMyTurn && proposedPrice && (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => handleRespond(offer, { action: 'accept' })}
+                            disabled={isUpdating}
+                          >
+                            <Check className="w-4 h-4 mr-1" />
+                            Accept {formatPrice(proposedPrice)}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setCounteringOffer(offer)}
+                            disabled={isUpdating}
+                          >
+                            <Repeat className="w-4 h-4 mr-1" />
+                            Counter
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRespond(offer, { action: 'reject' })}
+                            disabled={isUpdating}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <X className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {role === "buyer" && offer.status === 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleWithdraw(offer)}
+                          disabled={isUpdating}
+                        >
+                          Withdraw
+                        </Button>
+                      )}
+                      {role === "buyer" && offer.status === 'accepted' && (
+                        <Button size="sm" onClick={() => router.push("/buyer/cart")}>
+                          <ShoppingCart className="w-4 h-4 mr-1" />
+                          Go to Cart
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Counter Offer Dialog */}
+      <Dialog
+        open={!!counteringOffer}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCounteringOffer(null);
+            setCounterAmount("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Counter Offer</DialogTitle>
+            <DialogDescription>
+              Propose a different price per item for {counteringOffer?.product.name}.
+              {counteringOffer && ` It's listed at ${formatPrice(counteringOffer.product.price)}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="counter-amount">Your price (LKR)</Label>
+            <Input
+              id="counter-amount"
+              type="number"
+              min={1}
+              value={counterAmount}
+              onChange={(e) => setCounterAmount(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setCounteringOffer(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                counteringOffer &&
+                handleRespond(counteringOffer, { action: 'counter', amount: parseFloat(counterAmount) })
+              }
+              disabled={!!updatingOfferId || !(parseFloat(counterAmount) > 0)}
+            >
+              Send Counter
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
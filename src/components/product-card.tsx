@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
@@ -16,19 +16,29 @@ import {
   Phone,
   Calendar,
   ShoppingCart,
-  User
+  User,
+  Heart
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { addToCart } from "@/lib/cart-actions";
+import { toggleWishlist } from "@/lib/wishlist-actions";
+import { SellerRatingSummary } from "@/components/star-rating";
+import { VerifiedPhoneBadge } from "@/components/verified-phone-badge";
+import { HighlightedText } from "@/components/highlighted-text";
 import { toast } from "sonner";
 
 import type { Product } from "@/db/schema";
+import type { SearchHighlights } from "@/lib/product-search";
 
 interface ProductCardProps {
   product: Product & {
+    contactNumberVerified?: boolean;
+    highlights?: SearchHighlights | null;
     seller?: {
       name: string;
       email: string;
+      ratingAverage?: number | null;
+      ratingCount?: number;
     };
   };
   onEdit?: (productId: string) => void;
@@ -38,6 +48,8 @@ interface ProductCardProps {
   variant?: 'default' | 'compact';
   viewMode?: 'grid' | 'list';
   isBuyerView?: boolean;
+  isWishlisted?: boolean;
+  onWishlistChange?: (productId: string, isWishlisted: boolean) => void;
 }
 
 export function ProductCard({ 
@@ -48,13 +60,25 @@ export function ProductCard({
   showActions = true,
   variant = 'default',
   viewMode = 'grid',
-  isBuyerView = false
+  isBuyerView = false,
+  isWishlisted = false,
+  onWishlistChange
 }: ProductCardProps) {
   const router = useRouter();
   const [isImageLoading, setIsImageLoading] = useState(true);
   const [currentImageIndex] = useState(0);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const [isSaved, setIsSaved] = useState(isWishlisted);
+  const [isTogglingWishlist, setIsTogglingWishlist] = useState(false);
+
+  // Lists load the wishlist after the products, pick up the saved state when it arrives
+  useEffect(() => {
+    setIsSaved(isWishlisted);
+  }, [isWishlisted]);
+
+  const isSoldOut = product.availableQuantity <= 0;
+  const isReserved = !!product.reservedForTradeId;
 
   const mainImage = product.images && product.images.length > 0 
     ? product.images[0] 
@@ -109,6 +133,37 @@ export function ProductCard({
     }
   };
 
+  const handleToggleWishlist = async () => {
+    try {
+      setIsTogglingWishlist(true);
+      const result = await toggleWishlist(product.id);
+      setIsSaved(result.isWishlisted);
+      onWishlistChange?.(product.id, result.isWishlisted);
+      toast.success(result.message);
+    } catch (error) {
+      console.error("Error updating wishlist:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update wishlist");
+    } finally {
+      setIsTogglingWishlist(false);
+    }
+  };
+
+  const wishlistButton = (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={(e) => {
+        e.stopPropagation();
+        handleToggleWishlist();
+      }}
+      disabled={isTogglingWishlist}
+      aria-label={isSaved ? "Remove from wishlist" : "Save to wishlist"}
+      className="bg-white/90"
+    >
+      <Heart className={`w-4 h-4 ${isSaved ? "fill-red-500 text-red-500" : ""}`} />
+    </Button>
+  );
+
   const handleViewProduct = () => {
     router.push(`/buyer/products/${product.id}`);
   };
@@ -217,14 +272,19 @@ export function ProductCard({
             <div className="flex-1 min-w-0">
               <div className="flex justify-between items-start">
                 <div className="flex-1">
-                  <h3 className="font-semibold text-lg text-gray-900 truncate min-h-[1.5rem]">{product.name}</h3>
-                  <p className="text-sm text-gray-600 mt-1 line-clamp-2 min-h-[2.5rem]">{product.description}</p>
+                  <h3 className="font-semibold text-lg text-gray-900 truncate min-h-[1.5rem]">
+                    <HighlightedText segments={product.highlights?.name} fallback={product.name} />
+                  </h3>
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2 min-h-[2.5rem]">
+                    <HighlightedText segments={product.highlights?.description} fallback={product.description} />
+                  </p>
                   
                   <div className="flex items-center gap-2 mt-2">
                     <Badge variant="outline" className="text-xs">{product.category}</Badge>
                     <Badge variant="secondary" className={getConditionColor(product.condition)}>
                       {product.condition}
                     </Badge>
+                    {product.contactNumberVerified && <VerifiedPhoneBadge />}
                   </div>
 
                   <div className="flex items-center gap-4 mt-2 text-sm text-gray-600">
@@ -236,25 +296,38 @@ export function ProductCard({
                       <div className="flex items-center gap-1">
                         <User className="w-4 h-4" />
                         <span>{product.seller.name}</span>
+                        {product.seller.ratingCount !== undefined && (
+                          <SellerRatingSummary
+                            average={product.seller.ratingAverage ?? null}
+                            count={product.seller.ratingCount}
+                          />
+                        )}
                       </div>
                     )}
                   </div>
                 </div>
 
                 <div className="text-right">
-                  <div className="text-2xl font-bold text-gray-900 mb-2">
-                    {formatPrice(Number(product.price))}
+                  <div className="flex items-center justify-end gap-2 mb-2">
+                    <div className="text-2xl font-bold text-gray-900">
+                      {formatPrice(Number(product.price))}
+                    </div>
+                    {wishlistButton}
                   </div>
                   <Button
                     onClick={(e) => {
                       e.stopPropagation();
                       handleAddToCart();
                     }}
-                    disabled={isAddingToCart}
+                    disabled={isAddingToCart || isSoldOut || isReserved}
                     className="w-full"
                   >
                     {isAddingToCart ? (
                       "Adding..."
+                    ) : isSoldOut ? (
+                      "Sold Out"
+                    ) : isReserved ? (
+                      "Reserved"
                     ) : (
                       <>
                         <ShoppingCart className="w-4 h-4 mr-2" />
@@ -306,14 +379,27 @@ export function ProductCard({
               </div>
             )}
 
+            {/* Wishlist Toggle */}
+            {isBuyerView && (
+              <div className="absolute top-2 left-2">
+                {wishlistButton}
+              </div>
+            )}
+
             {/* Status Badge */}
             <div className="absolute top-2 right-2">
-              <Badge 
-                variant={product.isActive ? "default" : "secondary"}
-                className={product.isActive ? "bg-green-500" : "bg-gray-500"}
-              >
-                {product.isActive ? "Active" : "Inactive"}
-              </Badge>
+              {product.isActive && isSoldOut ? (
+                <Badge className="bg-gray-800">Sold out</Badge>
+              ) : product.isActive && isReserved ? (
+                <Badge className="bg-amber-500">Reserved for trade</Badge>
+              ) : (
+                <Badge 
+                  variant={product.isActive ? "default" : "secondary"}
+                  className={product.isActive ? "bg-green-500" : "bg-gray-500"}
+                >
+                  {product.isActive ? "Active" : "Inactive"}
+                </Badge>
+              )}
             </div>
 
             {/* Quick Actions Overlay */}
@@ -345,10 +431,10 @@ export function ProductCard({
           <div className="space-y-3">
             <div>
               <h3 className="font-semibold text-gray-900 text-lg line-clamp-2 min-h-[3rem]">
-                {product.name}
+                <HighlightedText segments={product.highlights?.name} fallback={product.name} />
               </h3>
               <p className="text-sm text-gray-600 mt-1 line-clamp-2 min-h-[2.5rem]">
-                {product.description}
+                <HighlightedText segments={product.highlights?.description} fallback={product.description} />
               </p>
             </div>
 
@@ -387,6 +473,7 @@ export function ProductCard({
               <div className="flex items-center space-x-1">
                 <Phone className="w-3 h-3" />
                 <span>{product.contactNumber}</span>
+                {product.contactNumberVerified && <VerifiedPhoneBadge className="ml-1" />}
               </div>
                                    <div className="flex items-center space-x-1">
                        <Calendar className="w-3 h-3" />
@@ -427,7 +514,13 @@ export function ProductCard({
                 {product.seller && (
                   <div className="flex items-center gap-1 text-sm text-gray-600">
                     <User className="w-4 h-4" />
-                    <span>{product.seller.name}</span>
+                    <span className="truncate">{product.seller.name}</span>
+                    {product.seller.ratingCount !== undefined && (
+                      <SellerRatingSummary
+                        average={product.seller.ratingAverage ?? null}
+                        count={product.seller.ratingCount}
+                      />
+                    )}
                   </div>
                 )}
                 <Button
@@ -435,11 +528,15 @@ export function ProductCard({
                     e.stopPropagation();
                     handleAddToCart();
                   }}
-                  disabled={isAddingToCart}
+                  disabled={isAddingToCart || isSoldOut || isReserved}
                   className="w-full"
                 >
                   {isAddingToCart ? (
                     "Adding..."
+                  ) : isSoldOut ? (
+                    "Sold Out"
+                  ) : isReserved ? (
+                    "Reserved"
                   ) : (
                     <>
                       <ShoppingCart className="w-4 h-4 mr-2" />
@@ -18,6 +18,7 @@ import {
   DollarSign,
   AlertCircle
 } from "lucide-react";
+import Link from "next/link";
 import ImageUpload from "./image-upload";
 import { 
   productFormSchema, 
@@ -61,6 +62,7 @@ export default function ProductForm({
       price: initialData?.price || 0,
       location: initialData?.location || undefined,
       contactNumber: initialData?.contactNumber || "",
+      availableQuantity: initialData?.availableQuantity ?? 1,
       images: initialData?.images || [],
     },
     mode: "onBlur",
@@ -95,6 +97,7 @@ export default function ProductForm({
     formData.append("productType", data.productType);
     formData.append("condition", data.condition);
     formData.append("price", data.price.toString());
+    formData.append("availableQuantity", data.availableQuantity.toString());
     formData.append("location", data.location);
     formData.append("contactNumber", data.contactNumber);
     
@@ -360,6 +363,31 @@ export default function ProductForm({
               Price range: 1 LKR - 10,000,000 LKR
             </p>
           </div>
+
+          {/* Available Quantity */}
+          <div className="space-y-2">
+            <Label htmlFor="availableQuantity" className="text-sm font-medium text-gray-700">
+              Available Quantity <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="availableQuantity"
+              type="number"
+              step="1"
+              min="0"
+              max="10000"
+              className={errors.availableQuantity ? "border-red-500" : ""}
+              {...register("availableQuantity", { valueAsNumber: true })}
+            />
+            {errors.availableQuantity && (
+              <p className="text-sm text-red-600 flex items-center space-x-1">
+                <AlertCircle className="w-4 h-4" />
+                <span>{errors.availableQuantity.message}</span>
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              How many units you have to sell. The listing shows as sold out at 0
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -425,7 +453,10 @@ export default function ProductForm({
               </p>
             )}
             <p className="text-xs text-gray-500">
-              Enter a valid Sri Lankan phone number
+              Use a number you&apos;ve verified by SMS.{" "}
+              <Link href="/account/settings" className="text-green-600 hover:text-green-700 underline">
+                Verify a number
+              </Link>
             </p>
           </div>
         </CardContent>
@@ -0,0 +1,63 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ProductFilters } from "@/lib/product-discovery-actions";
+import { productSortLabels, productSortModes, type ProductSortMode } from "@/lib/product-sort";
+import { sriLankanCities } from "@/lib/validation-schemas";
+
+interface ProductSortSelectProps {
+  filters: ProductFilters;
+  onFilterChange: (filters: Partial<ProductFilters>) => void;
+}
+
+// Stands in for "no city picked", since Select items can't have an empty value
+const MY_LOCATION = "__my_location__";
+
+export function ProductSortSelect({ filters, onFilterChange }: ProductSortSelectProps) {
+  // Best match only means something while searching, the server falls back to newest otherwise
+  const modes = productSortModes.filter(mode => mode !== "relevance" || filters.search);
+  const requested = filters.sort ?? (filters.search ? "relevance" : "newest");
+  const sort = modes.includes(requested) ? requested : "newest";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={sort}
+        onValueChange={(value) => onFilterChange({
+          sort: value as ProductSortMode,
+          nearCity: value === "nearest" ? filters.nearCity : undefined,
+        })}
+      >
+        <SelectTrigger className="w-48" aria-label="Sort products">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {modes.map(mode => (
+            <SelectItem key={mode} value={mode}>
+              {productSortLabels[mode]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {sort === "nearest" && (
+        <Select
+          value={filters.nearCity || MY_LOCATION}
+          onValueChange={(value) => onFilterChange({ nearCity: value === MY_LOCATION ? undefined : value })}
+        >
+          <SelectTrigger className="w-44" aria-label="Nearest to city">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MY_LOCATION}>My default location</SelectItem>
+            {sriLankanCities.filter(city => city !== "Other").map(city => (
+              <SelectItem key={city} value={city}>
+                {city}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
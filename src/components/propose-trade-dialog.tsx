@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { getTradeableListings, proposeTrade, TradeListing } from "@/lib/trade-actions";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+
+interface ProposeTradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: {
+    id: string;
+    name: string;
+    price: string;
+  };
+}
+
+export function ProposeTradeDialog({ open, onOpenChange, product }: ProposeTradeDialogProps) {
+  const router = useRouter();
+  const [listings, setListings] = useState<TradeListing[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [cashTopUp, setCashTopUp] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    getTradeableListings()
+      .then(setListings)
+      .catch((error) => {
+        console.error("Error loading listings:", error);
+        toast.error("Failed to load your listings");
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const toggleListing = (listingId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const newSet = new Set(prev);
+      if (checked) {
+        newSet.add(listingId);
+      } else {
+        newSet.delete(listingId);
+      }
+      return newSet;
+    });
+  };
+
+  const formatPrice = (price: string | number) => {
+    return new Intl.NumberFormat('en-LK', {
+      style: 'currency',
+      currency: 'LKR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(Number(price));
+  };
+
+  const offeredValue = listings
+    .filter(listing => selectedIds.has(listing.id))
+    .reduce((sum, listing) => sum + parseFloat(listing.price), 0) + (parseFloat(cashTopUp) || 0);
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      const result = await proposeTrade(product.id, {
+        offeredProductIds: [...selectedIds],
+        cashTopUp: parseFloat(cashTopUp) || 0,
+        message: message || undefined,
+      });
+      toast.success(result.message);
+      setSelectedIds(new Set());
+      setCashTopUp("");
+      setMessage("");
+      onOpenChange(false);
+      router.push("/seller/trades");
+    } catch (error) {
+      console.error("Error proposing trade:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to propose trade");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Propose a Trade</DialogTitle>
+          <DialogDescription>
+            Offer your own listings for {product.name} ({formatPrice(product.price)}). Everything in
+            the trade is reserved until the seller answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : listings.length === 0 ? (
+          <p className="text-sm text-gray-600 py-4">
+            You need active listings of your own that aren&apos;t already part of a trade. Trades are
+            available to seller accounts.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {listings.map((listing) => (
+                <label
+                  key={listing.id}
+                  className="flex items-center gap-3 rounded-lg border border-gray-200 p-2 cursor-pointer hover:bg-gray-50"
+                >
+                  <Checkbox
+                    checked={selectedIds.has(listing.id)}
+                    onCheckedChange={(checked) => toggleListing(listing.id, checked === true)}
+                  />
+                  <img
+                    src={listing.image || '/placeholder-product.jpg'}
+                    alt=""
+                    className="w-10 h-10 object-cover rounded"
+                  />
+                  <span className="flex-1 min-w-0 truncate text-sm font-medium">{listing.name}</span>
+                  <span className="text-sm text-gray-600">{formatPrice(listing.price)}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trade-cash">Cash top-up (LKR, optional)</Label>
+              <Input
+                id="trade-cash"
+                type="number"
+                min={0}
+                value={cashTopUp}
+                onChange={(e) => setCashTopUp(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="trade-message">Message (optional)</Label>
+              <Textarea
+                id="trade-message"
+                rows={3}
+                maxLength={500}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+
+            {selectedIds.size > 0 && (
+              <p className="text-sm text-gray-600">
+                You&apos;re offering {formatPrice(offeredValue)} in listed value and cash.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || selectedIds.size === 0 || parseFloat(cashTopUp) < 0}
+          >
+            {isSubmitting ? "Sending..." : "Propose Trade"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
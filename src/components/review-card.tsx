@@ -0,0 +1,36 @@
+import type { ReactNode } from "react";
+import type { SellerReview } from "@/lib/review-actions";
+import { StarRating } from "@/components/star-rating";
+
+interface ReviewCardProps {
+  review: SellerReview;
+  sellerName: string;
+  // Shown under the review when the seller hasn't replied yet, e.g. a reply button
+  replyAction?: ReactNode;
+}
+
+export function ReviewCard({ review, sellerName, replyAction }: ReviewCardProps) {
+  return (
+    <div className="space-y-2 py-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <StarRating rating={review.rating} />
+          <span className="text-sm font-medium text-gray-900">{review.buyer.name}</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {new Date(review.createdAt).toLocaleDateString()}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500">Bought {review.productName}</p>
+      {review.comment && (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.comment}</p>
+      )}
+      {review.sellerReply ? (
+        <div className="ml-4 border-l-2 border-gray-200 pl-3">
+          <p className="text-xs font-medium text-gray-900">Reply from {sellerName}</p>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.sellerReply}</p>
+        </div>
+      ) : replyAction}
+    </div>
+  );
+}
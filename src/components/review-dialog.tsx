@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { createReview } from "@/lib/review-actions";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { StarRatingInput } from "@/components/star-rating";
+import { toast } from "sonner";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sellerName: string;
+  item: {
+    id: string;
+    productName: string;
+  };
+  onReviewed?: () => void;
+}
+
+export function ReviewDialog({ open, onOpenChange, sellerName, item, onReviewed }: ReviewDialogProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      const result = await createReview(item.id, {
+        rating,
+        comment: comment || undefined,
+      });
+      toast.success(result.message);
+      setRating(0);
+      setComment("");
+      onOpenChange(false);
+      onReviewed?.();
+    } catch (error) {
+      console.error("Error submitting review:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit review");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review {sellerName}</DialogTitle>
+          <DialogDescription>
+            How did buying {item.productName} go? Your review is shown publicly on the seller&apos;s profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <StarRatingInput value={rating} onChange={setRating} disabled={isSubmitting} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Review (optional)</Label>
+            <Textarea
+              id="review-comment"
+              rows={4}
+              maxLength={1000}
+              placeholder="e.g. Item was exactly as described and the seller was quick to respond"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || rating === 0}>
+            {isSubmitting ? "Submitting..." : "Submit Review"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { saveSearch } from "@/lib/saved-search-actions";
+import type { ProductFilters } from "@/lib/product-discovery-actions";
+import { describeSavedSearch, hasSavedSearchCriteria } from "@/lib/saved-search-filters";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bookmark } from "lucide-react";
+import { toast } from "sonner";
+
+interface SaveSearchButtonProps {
+  filters: ProductFilters;
+}
+
+// Saves the filters currently applied to a listing page, for alerts about new matches
+export function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [emailDigest, setEmailDigest] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSave = hasSavedSearchCriteria(filters);
+  const summary = describeSavedSearch(filters);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(summary.slice(0, 100));
+      setEmailDigest(false);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setIsSubmitting(true);
+      const { sellerId: _sellerId, ...savedFilters } = filters;
+      const result = await saveSearch({ name, filters: savedFilters, emailDigest });
+      toast.success(result.message);
+      setOpen(false);
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save search");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleOpenChange(true)}
+        disabled={!canSave}
+        title={canSave ? "Get alerts for new listings like these" : "Search for something or pick a filter first"}
+      >
+        <Bookmark className="h-4 w-4 mr-2" />
+        Save search
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>
+              We&apos;ll alert you when a new listing matches {summary}. Manage your alerts on the{" "}
+              <Link href="/buyer/saved-searches" className="underline">saved searches</Link> page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                placeholder="e.g. Fridge in Kandy"
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="saved-search-digest"
+                checked={emailDigest}
+                onCheckedChange={(checked) => setEmailDigest(checked as boolean)}
+              />
+              <Label htmlFor="saved-search-digest" className="font-normal">
+                Also email me a daily digest of new matches
+              </Label>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? "Saving..." : "Save Search"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
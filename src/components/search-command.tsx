@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { debounce } from "lodash";
+import { MapPin, Package, Search, SpellCheck, Tag } from "lucide-react";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { getSearchSuggestions, type SearchSuggestions } from "@/lib/product-discovery-actions";
+
+interface SearchCommandProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  // Run a full search for the term
+  onSearch: (term: string) => void;
+  onSelectCategory: (category: string) => void;
+  onSelectLocation: (location: string) => void;
+  placeholder?: string;
+}
+
+const emptySuggestions: SearchSuggestions = { products: [], categories: [], locations: [], didYouMean: [] };
+
+// Search box with a suggestion dropdown. Typing only fetches suggestions; the product list is
+// searched when the buyer presses Enter or picks an entry.
+export function SearchCommand({
+  value,
+  onValueChange,
+  onSearch,
+  onSelectCategory,
+  onSelectLocation,
+  placeholder = "Search products...",
+}: SearchCommandProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>(emptySuggestions);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Ignore responses for terms the buyer has already typed past
+  const latestTerm = useRef("");
+
+  const fetchSuggestions = useMemo(
+    () => debounce(async (term: string) => {
+      try {
+        const result = await getSearchSuggestions(term);
+        if (latestTerm.current === term) {
+          setSuggestions(result);
+        }
+      } catch (error) {
+        console.error("Error loading search suggestions:", error);
+      }
+    }, 200),
+    []
+  );
+
+  useEffect(() => () => fetchSuggestions.cancel(), [fetchSuggestions]);
+
+  // Close when clicking anywhere outside the box
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => document.removeEventListener("pointerdown", handlePointerDown);
+  }, []);
+
+  const handleValueChange = (next: string) => {
+    onValueChange(next);
+    setOpen(true);
+    latestTerm.current = next.trim();
+    if (next.trim().length < 2) {
+      fetchSuggestions.cancel();
+      setSuggestions(emptySuggestions);
+      return;
+    }
+    fetchSuggestions(next.trim());
+  };
+
+  const runSearch = (term: string) => {
+    setOpen(false);
+    onValueChange(term);
+    onSearch(term);
+  };
+
+  const hasSuggestions = suggestions.products.length > 0
+    || suggestions.categories.length > 0
+    || suggestions.locations.length > 0
+    || suggestions.didYouMean.length > 0;
+  const showList = open && value.trim().length >= 2;
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <Command
+        shouldFilter={false}
+        className="overflow-visible border bg-white"
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            setOpen(false);
+          }
+        }}
+      >
+        <CommandInput
+          value={value}
+          onValueChange={handleValueChange}
+          onFocus={() => setOpen(true)}
+          placeholder={placeholder}
+          aria-label="Search products"
+        />
+        {showList && (
+          <CommandList className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-white shadow-lg">
+            {/* Always offer the plain search first, so Enter searches for exactly what was typed */}
+            <CommandGroup>
+              <CommandItem value={`search:${value}`} onSelect={() => runSearch(value.trim())}>
+                <Search />
+                <span>Search for &ldquo;{value.trim()}&rdquo;</span>
+              </CommandItem>
+            </CommandGroup>
+
+            {suggestions.didYouMean.length > 0 && (
+              <CommandGroup heading="Did you mean">
+                {suggestions.didYouMean.map((correction) => (
+                  <CommandItem
+                    key={correction}
+                    value={`correction:${correction}`}
+                    onSelect={() => runSearch(correction)}
+                  >
+                    <SpellCheck />
+                    <span>{correction}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {suggestions.products.length > 0 && (
+              <CommandGroup heading="Products">
+                {suggestions.products.map((product) => (
+                  <CommandItem
+                    key={product.id}
+                    value={`product:${product.id}`}
+                    onSelect={() => {
+                      setOpen(false);
+                      router.push(`/buyer/products/${product.id}`);
+                    }}
+                  >
+                    <Package />
+                    <span className="truncate">{product.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {suggestions.categories.length > 0 && (
+              <CommandGroup heading="Categories">
+                {suggestions.categories.map((category) => (
+                  <CommandItem
+                    key={category}
+                    value={`category:${category}`}
+                    onSelect={() => {
+                      setOpen(false);
+                      onSelectCategory(category);
+                    }}
+                  >
+                    <Tag />
+                    <span className="capitalize">{category}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {suggestions.locations.length > 0 && (
+              <CommandGroup heading="Locations">
+                {suggestions.locations.map((location) => (
+                  <CommandItem
+                    key={location}
+                    value={`location:${location}`}
+                    onSelect={() => {
+                      setOpen(false);
+                      onSelectLocation(location);
+                    }}
+                  >
+                    <MapPin />
+                    <span>{location}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {!hasSuggestions && (
+              <p className="px-3 py-2 text-xs text-gray-500">No suggestions yet, keep typing or press Enter to search</p>
+            )}
+          </CommandList>
+        )}
+      </Command>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  rating: number;
+  className?: string;
+}
+
+// Read-only stars, filled up to the rounded rating
+export function StarRating({ rating, className = "w-4 h-4" }: StarRatingProps) {
+  const filled = Math.round(rating);
+
+  return (
+    <div className="flex items-center gap-0.5" aria-label={`${rating} out of 5 stars`}>
+      {Array.from({ length: 5 }).map((_, index) => (
+        <Star
+          key={index}
+          className={`${className} ${index < filled ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (rating: number) => void;
+  disabled?: boolean;
+}
+
+export function StarRatingInput({ value, onChange, disabled = false }: StarRatingInputProps) {
+  return (
+    <div className="flex items-center gap-1">
+      {Array.from({ length: 5 }).map((_, index) => {
+        const rating = index + 1;
+        return (
+          <button
+            key={rating}
+            type="button"
+            onClick={() => onChange(rating)}
+            disabled={disabled}
+            aria-label={`${rating} star${rating === 1 ? "" : "s"}`}
+            className="p-0.5 disabled:cursor-not-allowed"
+          >
+            <Star
+              className={`w-7 h-7 ${rating <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300 hover:text-yellow-300"}`}
+            />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface SellerRatingSummaryProps {
+  average: number | null;
+  count: number;
+}
+
+// Compact "★ 4.6 (12)" label used next to a seller's name
+export function SellerRatingSummary({ average, count }: SellerRatingSummaryProps) {
+  if (average === null || count === 0) {
+    return <span className="text-xs text-gray-500">No reviews yet</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-sm text-gray-700">
+      <Star className="w-3.5 h-3.5 fill-yellow-400 text-yellow-400" />
+      <span className="font-medium">{average.toFixed(1)}</span>
+      <span className="text-gray-500">({count})</span>
+    </span>
+  );
+}
@@ -0,0 +1,16 @@
+import { ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+
+// Marks a listing whose contact number the seller has confirmed by SMS
+export function VerifiedPhoneBadge({ className = "" }: { className?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={`border-green-200 bg-green-50 text-green-700 text-xs ${className}`}
+      title="The seller confirmed this number by SMS"
+    >
+      <ShieldCheck className="w-3 h-3 mr-1" />
+      Verified phone
+    </Badge>
+  );
+}
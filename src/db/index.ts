@@ -1,3 +1,59 @@
-import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNeonHttp } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNeonWebSocket } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg, type NodePgQueryResultHKT } from 'drizzle-orm/node-postgres';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { Pool as PgPool } from 'pg';
+import ws from 'ws';
 
-export const db = drizzle(process.env.DATABASE_URL as string);
\ No newline at end of file
+// Which driver talks to Postgres, picked with DATABASE_DRIVER:
+// - neon-http: one HTTP request per query, no transactions
+// - neon-websocket: pooled WebSocket connections to Neon, supports transactions
+// - pg: plain TCP pool through node-postgres, for a local or self-hosted database
+// When unset, Neon URLs use neon-websocket and everything else uses pg.
+export type DatabaseDriver = 'neon-http' | 'neon-websocket' | 'pg';
+
+// All three drivers hand back raw results shaped like node-postgres ({ rows, rowCount }),
+// so one database type covers them and db.execute() stays typed
+export type Database = PgDatabase<NodePgQueryResultHKT>;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+// Anything queries can run on, so helpers work both inside and outside a transaction
+export type DbExecutor = Database | Transaction;
+
+const databaseUrl = process.env.DATABASE_URL as string;
+
+function resolveDriver(): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER;
+  if (driver === 'neon-http' || driver === 'neon-websocket' || driver === 'pg') {
+    return driver;
+  }
+  if (driver) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}", expected neon-http, neon-websocket or pg`);
+  }
+  return databaseUrl?.includes('.neon.tech') ? 'neon-websocket' : 'pg';
+}
+
+export const databaseDriver = resolveDriver();
+
+function createDatabase(): Database {
+  switch (databaseDriver) {
+    case 'neon-http':
+      return drizzleNeonHttp(databaseUrl) as unknown as Database;
+    case 'neon-websocket':
+      // Node has no global WebSocket before v22
+      neonConfig.webSocketConstructor = ws;
+      return drizzleNeonWebSocket({ client: new NeonPool({ connectionString: databaseUrl }) }) as unknown as Database;
+    case 'pg':
+      return drizzleNodePg({ client: new PgPool({ connectionString: databaseUrl }) }) as unknown as Database;
+  }
+}
+
+// Reuse one pool across dev server hot reloads instead of leaking a new one per reload
+const globalForDb = globalThis as unknown as { db?: Database };
+
+export const db = globalForDb.db ?? createDatabase();
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForDb.db = db;
+}
@@ -1,7 +1,26 @@
-import { pgTable, text, timestamp, uuid, pgEnum, decimal, boolean, json, integer, varchar } from "drizzle-orm/pg-core";
+import { pgTable, pgMaterializedView, pgSequence, text, timestamp, uuid, pgEnum, decimal, boolean, json, integer, varchar, unique, index, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { orderStatuses } from "../lib/order-status";
+import { offerStatuses } from "../lib/offer-status";
+import type { SavedSearchFilters } from "../lib/validation-schemas";
 
 export const userTypeEnum = pgEnum('user_type', ['seller', 'buyer']);
-export const orderStatusEnum = pgEnum('order_status', ['pending', 'confirmed', 'cancelled']);
+export const orderStatusEnum = pgEnum('order_status', orderStatuses);
+export const orderActorRoleEnum = pgEnum('order_actor_role', ['buyer', 'seller', 'system']);
+export const orderItemStatusEnum = pgEnum('order_item_status', ['pending', 'confirmed', 'rejected']);
+export const offerStatusEnum = pgEnum('offer_status', offerStatuses);
+export const tradeStatusEnum = pgEnum('trade_status', ['pending', 'completed', 'declined', 'cancelled', 'expired']);
+export const notificationTypeEnum = pgEnum('notification_type', ['price_drop', 'back_in_stock', 'saved_search_match']);
+export const loginFailureReasonEnum = pgEnum('login_failure_reason', ['unknown_email', 'wrong_password', 'throttled']);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Backs checkout numbers, never reused even when a checkout transaction rolls back
+export const checkoutNumberSequence = pgSequence('checkout_number_seq', { startWith: 1, increment: 1 });
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -9,11 +28,109 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   phone: text("phone"),
+  // Optional seller prefix for sub-order numbers, e.g. ACME-2026-000123-2-4
+  orderPrefix: varchar("order_prefix", { length: 6 }),
   userType: userTypeEnum("user_type").notNull().default('buyer'),
+  // Set once the user opens the link emailed to their current address
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // An address the user asked to switch to, swapped in once they open the link sent there
+  pendingEmail: text("pending_email"),
+  // Public storefront details, set by sellers from their storefront settings
+  bio: text("bio"),
+  avatarUrl: text("avatar_url"),
+  city: text("city"),
+  // Prefilled into new listings, edited from account settings
+  defaultLocation: text("default_location"),
+  defaultContactNumber: text("default_contact_number"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Server-side sessions, one row per signed-in device
+export const sessions = pgTable("sessions", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Password reset tokens. Only a SHA-256 hash of the emailed token is stored, and each
+// token works once before it expires.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("password_reset_tokens_user_idx").on(table.userId),
+]);
+
+// Email verification tokens, hashed like reset tokens. The address is stored with the token
+// so a link sent before an email change can't verify the new address.
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_verification_tokens_user_idx").on(table.userId),
+]);
+
+// Audit trail of failed sign-ins, kept even after the throttle counters reset
+export const loginAttempts = pgTable("login_attempts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  email: text("email").notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: text("user_agent"),
+  reason: loginFailureReasonEnum("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("login_attempts_email_idx").on(table.email, table.createdAt),
+  index("login_attempts_ip_idx").on(table.ipAddress, table.createdAt),
+]);
+
+// Backoff counters for the database throttle store, keyed like "email:a@b.lk" or "ip:1.2.3.4"
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").default(0).notNull(),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  blockedUntil: timestamp("blocked_until"),
+});
+
+// One row per code sent. Codes are short, so each challenge only allows a few guesses.
+export const phoneVerificationChallenges = pgTable("phone_verification_challenges", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  phoneNumber: text("phone_number").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("phone_verification_challenges_user_idx").on(table.userId, table.createdAt),
+]);
+
+// Numbers a user has proven they receive SMS on, stored in +94 form
+export const verifiedPhoneNumbers = pgTable("verified_phone_numbers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  phoneNumber: text("phone_number").notNull(),
+  verifiedAt: timestamp("verified_at").defaultNow().notNull(),
+}, (table) => [
+  unique("verified_phone_numbers_user_phone_unique").on(table.userId, table.phoneNumber),
+]);
+
 export const products = pgTable("products", {
   id: uuid("id").primaryKey().defaultRandom(),
   sellerId: uuid("seller_id").notNull().references(() => users.id),
@@ -26,10 +143,31 @@ export const products = pgTable("products", {
   images: json("images").$type<string[]>(),
   location: text("location").notNull(),
   contactNumber: text("contact_number").notNull(),
+  // Units left to sell, the listing shows as sold out at zero
+  availableQuantity: integer("available_quantity").notNull().default(1),
   isActive: boolean("is_active").default(true).notNull(),
+  // Set while the listing is part of an open trade proposal, it can't be bought meanwhile
+  reservedForTradeId: uuid("reserved_for_trade_id").references((): AnyPgColumn => trades.id, { onDelete: "set null" }),
+  // Full-text search document kept in sync by Postgres. Name matches outrank category
+  // matches, which outrank description matches.
+  searchVector: tsvector("search_vector").generatedAlwaysAs((): SQL => sql`
+    setweight(to_tsvector('english', coalesce(${products.name}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${products.category}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${products.description}, '')), 'C')
+  `),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("products_search_idx").using("gin", table.searchVector),
+  // Fuzzy name matching for search suggestions, needs the pg_trgm extension (drizzle/0023)
+  index("products_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+]);
+
+// Distinct words of live listing names and categories, for "did you mean" corrections.
+// Created with its trigram index by drizzle/0027 and refreshed by the search vocabulary cron.
+export const productVocabulary = pgMaterializedView("product_vocabulary", {
+  word: text("word").notNull(),
+}).existing();
 
 // Cart table for shopping cart functionality
 export const cart = pgTable("cart", {
@@ -37,14 +175,43 @@ export const cart = pgTable("cart", {
   buyerId: uuid("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   quantity: integer("quantity").notNull().default(1),
+  // Set when the line came from an accepted offer, checkout then charges the agreed price
+  offerId: uuid("offer_id").references((): AnyPgColumn => offers.id, { onDelete: "set null" }),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+});
+
+// Wishlist table, products a buyer saved for later
+export const wishlist = pgTable("wishlist", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  buyerId: uuid("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  // Price when the item was saved, so the list can flag price changes
+  priceAtAdd: decimal("price_at_add", { precision: 10, scale: 2 }).notNull(),
   addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => [
+  unique("wishlist_buyer_product_unique").on(table.buyerId, table.productId),
+]);
+
+// Checkouts table, one per placed cart. Groups the per-seller orders created from it
+export const checkouts = pgTable("checkouts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  buyerId: uuid("buyer_id").notNull().references(() => users.id),
+  checkoutNumber: varchar("checkout_number", { length: 32 }).notNull().unique(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  buyerName: varchar("buyer_name", { length: 255 }).notNull(),
+  buyerEmail: varchar("buyer_email", { length: 255 }).notNull(),
+  buyerPhone: varchar("buyer_phone", { length: 15 }).notNull(),
+  shippingAddress: text("shipping_address").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// Orders table for completed purchases
+// Orders table for completed purchases, one sub-order per seller in a checkout
 export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().defaultRandom(),
+  checkoutId: uuid("checkout_id").notNull().references(() => checkouts.id, { onDelete: "cascade" }),
   buyerId: uuid("buyer_id").notNull().references(() => users.id),
-  orderNumber: varchar("order_number", { length: 20 }).notNull().unique(),
+  sellerId: uuid("seller_id").notNull().references(() => users.id),
+  orderNumber: varchar("order_number", { length: 32 }).notNull().unique(),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   status: orderStatusEnum("status").notNull().default('pending'),
   buyerName: varchar("buyer_name", { length: 255 }).notNull(),
@@ -62,17 +229,195 @@ export const orderItems = pgTable("order_items", {
   quantity: integer("quantity").notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   productName: varchar("product_name", { length: 255 }).notNull(),
+  status: orderItemStatusEnum("status").notNull().default('pending'),
+  rejectionReason: text("rejection_reason"),
+  statusUpdatedAt: timestamp("status_updated_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Order status history, one row per lifecycle transition of a sub-order
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderId: uuid("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  fromStatus: orderStatusEnum("from_status"),
+  toStatus: orderStatusEnum("to_status").notNull(),
+  actorRole: orderActorRoleEnum("actor_role").notNull(),
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Price offers from buyers on listings. amount is the buyer's latest offer per unit,
+// counterAmount the seller's latest counter, agreedPrice is set once either side accepts.
+export const offers = pgTable("offers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  buyerId: uuid("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sellerId: uuid("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(1),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  counterAmount: decimal("counter_amount", { precision: 10, scale: 2 }),
+  agreedPrice: decimal("agreed_price", { precision: 10, scale: 2 }),
+  message: text("message"),
+  status: offerStatusEnum("status").notNull().default('pending'),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("offers_buyer_idx").on(table.buyerId, table.updatedAt),
+  index("offers_seller_idx").on(table.sellerId, table.updatedAt),
+]);
+
+// Swap proposals: the proposer offers some of their own listings, plus optional cash,
+// for another user's listing. Every listing involved is reserved while the trade is pending.
+export const trades = pgTable("trades", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  proposerId: uuid("proposer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  recipientId: uuid("recipient_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  targetProductId: uuid("target_product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  // Cash the proposer adds on top of their listings
+  cashTopUp: decimal("cash_top_up", { precision: 10, scale: 2 }).notNull().default("0"),
+  message: text("message"),
+  status: tradeStatusEnum("status").notNull().default('pending'),
+  // A pending trade past this is expired and its listings go back on sale
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("trades_proposer_idx").on(table.proposerId, table.updatedAt),
+  index("trades_recipient_idx").on(table.recipientId, table.updatedAt),
+]);
+
+// Listings the proposer puts up in a trade
+export const tradeItems = pgTable("trade_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tradeId: uuid("trade_id").notNull().references(() => trades.id, { onDelete: "cascade" }),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+}, (table) => [
+  unique("trade_items_trade_product_unique").on(table.tradeId, table.productId),
+]);
+
+// Buyer reviews of a seller, one per order item, with at most one public seller reply
+export const reviews = pgTable("reviews", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  orderItemId: uuid("order_item_id").notNull().unique().references(() => orderItems.id, { onDelete: "cascade" }),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  sellerId: uuid("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  buyerId: uuid("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(),
+  comment: text("comment"),
+  sellerReply: text("seller_reply"),
+  sellerRepliedAt: timestamp("seller_replied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("reviews_seller_idx").on(table.sellerId, table.createdAt),
+]);
+
+// Buyer filter sets kept under a name, checked against every newly published listing
+export const savedSearches = pgTable("saved_searches", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  filters: json("filters").$type<SavedSearchFilters>().notNull(),
+  // Also email new matches once a day, on top of the in-app alerts
+  emailDigest: boolean("email_digest").default(false).notNull(),
+  // Matches alerted after this haven't been emailed yet
+  lastDigestAt: timestamp("last_digest_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("saved_searches_user_idx").on(table.userId, table.createdAt),
+]);
+
+// In-app notifications shown in the buyer notification center
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: notificationTypeEnum("type").notNull(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  // Prices before and after the change, for price drop alerts
+  oldPrice: decimal("old_price", { precision: 10, scale: 2 }),
+  newPrice: decimal("new_price", { precision: 10, scale: 2 }),
+  // The saved search a new listing matched, for saved search alerts
+  savedSearchId: uuid("saved_search_id").references(() => savedSearches.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notifications_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// Buyer-seller message threads, one per buyer and listing (and order, when asked about one)
+export const conversations = pgTable("conversations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  orderId: uuid("order_id").references(() => orders.id, { onDelete: "set null" }),
+  buyerId: uuid("buyer_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sellerId: uuid("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Read markers per side; messages newer than these count as unread
+  buyerLastReadAt: timestamp("buyer_last_read_at"),
+  sellerLastReadAt: timestamp("seller_last_read_at"),
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("conversations_product_buyer_order_unique")
+    .on(table.productId, table.buyerId, table.orderId)
+    .nullsNotDistinct(),
+  index("conversations_buyer_idx").on(table.buyerId, table.lastMessageAt),
+  index("conversations_seller_idx").on(table.sellerId, table.lastMessageAt),
+]);
+
+export const messages = pgTable("messages", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  senderId: uuid("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("messages_conversation_created_idx").on(table.conversationId, table.createdAt),
+]);
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
-export type Product = typeof products.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type PhoneVerificationChallenge = typeof phoneVerificationChallenges.$inferSelect;
+export type VerifiedPhoneNumber = typeof verifiedPhoneNumbers.$inferSelect;
+// The search document is generated by Postgres and never leaves the database layer
+export type Product = Omit<typeof products.$inferSelect, "searchVector">;
 export type NewProduct = typeof products.$inferInsert;
 export type Cart = typeof cart.$inferSelect;
 export type NewCart = typeof cart.$inferInsert;
+export type Wishlist = typeof wishlist.$inferSelect;
+export type NewWishlist = typeof wishlist.$inferInsert;
+export type Checkout = typeof checkouts.$inferSelect;
+export type NewCheckout = typeof checkouts.$inferInsert;
 export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type NewOrderItem = typeof orderItems.$inferInsert;
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type NewOrderStatusHistory = typeof orderStatusHistory.$inferInsert;
+export type Offer = typeof offers.$inferSelect;
+export type NewOffer = typeof offers.$inferInsert;
+export type Trade = typeof trades.$inferSelect;
+export type NewTrade = typeof trades.$inferInsert;
+export type TradeItem = typeof tradeItems.$inferSelect;
+export type NewTradeItem = typeof tradeItems.$inferInsert;
+export type Review = typeof reviews.$inferSelect;
+export type NewReview = typeof reviews.$inferInsert;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type Conversation = typeof conversations.$inferSelect;
+export type NewConversation = typeof conversations.$inferInsert;
+export type Message = typeof messages.$inferSelect;
+export type NewMessage = typeof messages.$inferInsert;
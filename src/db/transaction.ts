@@ -0,0 +1,56 @@
+import { db, databaseDriver, type Transaction } from './index';
+
+// Postgres error codes that mean "nothing was written, try the whole transaction again"
+const RETRYABLE_ERROR_CODES = new Set([
+  '40001', // serialization_failure
+  '40P01', // deadlock_detected
+]);
+
+export interface TransactionOptions {
+  maxAttempts?: number;
+  isolationLevel?: 'read committed' | 'repeatable read' | 'serializable';
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  // Drizzle wraps driver errors, the Postgres code lives on the cause
+  let current: unknown = error;
+  while (current && typeof current === 'object') {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+export function isRetryableTransactionError(error: unknown) {
+  const code = getErrorCode(error);
+  return !!code && RETRYABLE_ERROR_CODES.has(code);
+}
+
+// Run work in a single transaction, retrying with a short jittered backoff when Postgres
+// aborts it because of a concurrent transaction. The callback may run more than once.
+export async function runInTransaction<T>(
+  work: (tx: Transaction) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const { maxAttempts = 3, isolationLevel = 'serializable' } = options;
+
+  if (databaseDriver === 'neon-http') {
+    throw new Error('Transactions need DATABASE_DRIVER=neon-websocket or pg, the neon-http driver does not support them');
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.transaction(work, { isolationLevel });
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryableTransactionError(error)) {
+        throw error;
+      }
+
+      const delay = 20 * 2 ** attempt + Math.random() * 20;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
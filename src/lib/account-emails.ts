@@ -0,0 +1,129 @@
+import { sendMail } from "./mailer";
+
+// Emails about the user's own account and saved searches. Links always point at APP_URL, never at
+// the host a request came in on, which the client controls.
+
+const DEV_APP_URL = "http://localhost:3000";
+
+function getAppUrl() {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("APP_URL must be set in production");
+    }
+    console.warn(`APP_URL is not set, email links will point at ${DEV_APP_URL}`);
+    return DEV_APP_URL;
+  }
+
+  return appUrl.replace(/\/+$/, "");
+}
+
+export async function sendPasswordResetEmail(
+  to: { email: string; name: string },
+  token: string,
+  expiresInMinutes: number
+) {
+  const resetUrl = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: to.email,
+    subject: "Reset your ReTrade password",
+    text: [
+      `Hi ${to.name},`,
+      "",
+      "Someone asked to reset the password for your ReTrade account. Open this link to choose a new one:",
+      resetUrl,
+      "",
+      `The link works once and expires in ${expiresInMinutes} minutes. Resetting your password signs you out everywhere.`,
+      "If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+    html: `<p>Hi ${escapeHtml(to.name)},</p>
+<p>Someone asked to reset the password for your ReTrade account.</p>
+<p><a href="${resetUrl}">Choose a new password</a></p>
+<p>The link works once and expires in ${expiresInMinutes} minutes. Resetting your password signs you out everywhere.</p>
+<p>If you didn't ask for this, you can ignore this email.</p>`,
+  });
+}
+
+export async function sendEmailVerificationEmail(
+  to: { email: string; name: string },
+  token: string,
+  expiresInHours: number
+) {
+  const verifyUrl = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: to.email,
+    subject: "Confirm your ReTrade email address",
+    text: [
+      `Hi ${to.name},`,
+      "",
+      "Please confirm this is your email address so you can list products and place orders on ReTrade:",
+      verifyUrl,
+      "",
+      `The link expires in ${expiresInHours} hours.`,
+      "If you didn't create a ReTrade account, you can ignore this email.",
+    ].join("\n"),
+    html: `<p>Hi ${escapeHtml(to.name)},</p>
+<p>Please confirm this is your email address so you can list products and place orders on ReTrade.</p>
+<p><a href="${verifyUrl}">Confirm my email</a></p>
+<p>The link expires in ${expiresInHours} hours.</p>
+<p>If you didn't create a ReTrade account, you can ignore this email.</p>`,
+  });
+}
+
+export interface SavedSearchDigest {
+  name: string;
+  matches: Array<{ id: string; name: string; price: string; location: string }>;
+}
+
+export async function sendSavedSearchDigestEmail(
+  to: { email: string; name: string },
+  searches: SavedSearchDigest[]
+) {
+  const appUrl = getAppUrl();
+  const matchCount = searches.reduce((sum, search) => sum + search.matches.length, 0);
+
+  await sendMail({
+    to: to.email,
+    subject: `${matchCount} new listing${matchCount === 1 ? "" : "s"} for your saved searches on ReTrade`,
+    text: [
+      `Hi ${to.name},`,
+      "",
+      "These listings went up since your last digest:",
+      ...searches.flatMap(search => [
+        "",
+        `${search.name}:`,
+        ...search.matches.map(match =>
+          `- ${match.name}, ${formatPrice(match.price)} in ${match.location}: ${appUrl}/buyer/products/${match.id}`
+        ),
+      ]),
+      "",
+      `Manage your saved searches or turn off these emails at ${appUrl}/buyer/saved-searches`,
+    ].join("\n"),
+    html: `<p>Hi ${escapeHtml(to.name)},</p>
+<p>These listings went up since your last digest:</p>
+${searches.map(search => `<h3>${escapeHtml(search.name)}</h3>
+<ul>
+${search.matches.map(match => `<li><a href="${appUrl}/buyer/products/${match.id}">${escapeHtml(match.name)}</a>, ${formatPrice(match.price)} in ${escapeHtml(match.location)}</li>`).join("\n")}
+</ul>`).join("\n")}
+<p><a href="${appUrl}/buyer/saved-searches">Manage your saved searches</a> or turn off these emails.</p>`,
+  });
+}
+
+function formatPrice(price: string) {
+  return new Intl.NumberFormat('en-LK', {
+    style: 'currency',
+    currency: 'LKR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(Number(price));
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
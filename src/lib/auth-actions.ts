@@ -3,9 +3,27 @@
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { db } from "@/db";
-import { users } from "@/db/schema";
-import { eq } from "drizzle-orm";
-import { createSession, destroySession } from "./session";
+import { emailVerificationTokens, passwordResetTokens, users } from "@/db/schema";
+import { and, desc, eq, gt, isNull, ne, or } from "drizzle-orm";
+import { runInTransaction } from "@/db/transaction";
+import { createSession, destroySession, getSession, revokeUserSessions } from "./session";
+import { generateOneTimeToken, hashOneTimeToken } from "./one-time-tokens";
+import { sendPasswordResetEmail } from "./account-emails";
+import { issueEmailVerification } from "./email-verification";
+import {
+  allowPasswordResetRequest,
+  clearLoginFailures,
+  formatRetryAfter,
+  recordLoginFailure,
+  recordLoginSuccess,
+  reserveLoginAttempt,
+} from "./login-throttle";
+
+// How long an emailed reset link stays valid
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Minimum gap between verification emails for one account
+const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
 
 // Validation schemas
 const registerSchema = z.object({
@@ -21,6 +39,15 @@ const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, "This reset link is invalid"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
 export async function registerUser(formData: FormData) {
   try {
     const rawData = {
@@ -48,15 +75,25 @@ export async function registerUser(formData: FormData) {
     const hashedPassword = await bcrypt.hash(validatedData.password, 12);
 
     // Create user
-    await db.insert(users).values({
+    const [newUser] = await db.insert(users).values({
       name: validatedData.name,
       email: validatedData.email.toLowerCase(),
       password: hashedPassword,
       phone: validatedData.phone || null,
       userType: validatedData.userType,
-    });
+    }).returning({ id: users.id, email: users.email, name: users.name });
+
+    // The account exists either way, a failed email can be resent after signing in
+    try {
+      await issueEmailVerification(newUser);
+    } catch (error) {
+      console.error("Verification email error:", error);
+    }
 
-    return { success: true, message: "User registered successfully" };
+    return {
+      success: true,
+      message: "Account created. Check your email for a link to verify your address",
+    };
   } catch (error) {
     if (error instanceof z.ZodError) {
       const firstError = error.issues[0];
@@ -75,14 +112,28 @@ export async function loginUser(formData: FormData) {
 
     // Validate input
     const validatedData = loginSchema.parse(rawData);
+    const email = validatedData.email.toLowerCase();
+
+    // Refuse before touching the password while the IP or account is cooling down, and count
+    // the attempt up front so parallel requests can't each get a free guess
+    const throttle = await reserveLoginAttempt(email);
+    if (!throttle.allowed) {
+      return {
+        success: false,
+        error: throttle.locked
+          ? `Too many failed attempts. This account is locked, try again in ${formatRetryAfter(throttle.retryAfterSeconds)} or reset your password`
+          : `Too many attempts. Please try again in ${formatRetryAfter(throttle.retryAfterSeconds)}`,
+      };
+    }
 
     // Find user
     const user = await db
       .select()
       .from(users)
-      .where(eq(users.email, validatedData.email.toLowerCase()));
+      .where(eq(users.email, email));
 
     if (user.length === 0) {
+      await recordLoginFailure(email, { reason: "unknown_email" });
       return { success: false, error: "Invalid email or password" };
     }
 
@@ -93,9 +144,17 @@ export async function loginUser(formData: FormData) {
     );
 
     if (!isValidPassword) {
-      return { success: false, error: "Invalid email or password" };
+      await recordLoginFailure(email, { reason: "wrong_password", userId: user[0].id });
+      return {
+        success: false,
+        error: throttle.locked
+          ? "Too many failed attempts. This account is locked for a while, or you can reset your password"
+          : "Invalid email or password",
+      };
     }
 
+    await recordLoginSuccess(email);
+
     // Create session
     const session = await createSession({
       userId: user[0].id,
@@ -136,3 +195,250 @@ export async function logoutUser() {
     return { success: false, error: "Failed to logout" };
   }
 }
+
+// Email a reset link. The response is the same whether or not the address has an account,
+// so the form can't be used to find out who is registered.
+export async function requestPasswordReset(formData: FormData) {
+  const sentMessage = "If an account exists for that email, we've sent a link to reset your password";
+
+  try {
+    const validatedData = forgotPasswordSchema.parse({
+      email: formData.get("email") as string,
+    });
+
+    if (!(await allowPasswordResetRequest(validatedData.email))) {
+      return { success: false, error: "Too many reset requests. Please try again later" };
+    }
+
+    const user = await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(eq(users.email, validatedData.email.toLowerCase()))
+      .limit(1);
+
+    if (user.length === 0) {
+      return { success: true, message: sentMessage };
+    }
+
+    const { token, tokenHash } = generateOneTimeToken();
+    const now = new Date();
+
+    await runInTransaction(async (tx) => {
+      // Only the newest link works
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(and(eq(passwordResetTokens.userId, user[0].id), isNull(passwordResetTokens.usedAt)));
+
+      await tx.insert(passwordResetTokens).values({
+        userId: user[0].id,
+        tokenHash,
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      });
+    }, { isolationLevel: "read committed" });
+
+    // A delivery failure mustn't tell the visitor the account exists
+    try {
+      await sendPasswordResetEmail(user[0], token, PASSWORD_RESET_TTL_MINUTES);
+    } catch (error) {
+      console.error("Password reset email error:", error);
+    }
+
+    return { success: true, message: sentMessage };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Password reset request error:", error);
+    return { success: false, error: "Failed to send reset email" };
+  }
+}
+
+// Set a new password from an emailed link. The token is spent in the same statement that
+// checks it, and every session of the account is revoked afterwards.
+export async function resetPassword(formData: FormData) {
+  try {
+    const validatedData = resetPasswordSchema.parse({
+      token: formData.get("token") as string,
+      password: formData.get("password") as string,
+    });
+
+    const hashedPassword = await bcrypt.hash(validatedData.password, 12);
+
+    const resetUser = await runInTransaction(async (tx) => {
+      const spent = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(passwordResetTokens.tokenHash, hashOneTimeToken(validatedData.token)),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, new Date())
+          )
+        )
+        .returning({ userId: passwordResetTokens.userId });
+
+      if (!spent[0]) {
+        return null;
+      }
+
+      const updated = await tx
+        .update(users)
+        .set({ password: hashedPassword, updatedAt: new Date() })
+        .where(eq(users.id, spent[0].userId))
+        .returning({ id: users.id, email: users.email });
+
+      return updated[0] ?? null;
+    }, { isolationLevel: "read committed" });
+
+    if (!resetUser) {
+      return { success: false, error: "This reset link is invalid or has expired" };
+    }
+
+    await revokeUserSessions(resetUser.id);
+    // Proving access to the inbox lifts any lockout from failed sign-ins
+    await clearLoginFailures(resetUser.email);
+
+    return {
+      success: true,
+      message: "Password reset. Please sign in with your new password",
+      redirectPath: "/login",
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Password reset error:", error);
+    return { success: false, error: "Failed to reset password" };
+  }
+}
+
+// Confirm the address a verification link was sent to. A link for a requested email change
+// swaps the new address in; a link for an address the user no longer has or wants doesn't count.
+export async function verifyEmail(token: string) {
+  try {
+    if (!token) {
+      return { success: false, error: "This verification link is invalid" };
+    }
+
+    const outcome = await runInTransaction(async (tx) => {
+      const spent = await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(
+          and(
+            eq(emailVerificationTokens.tokenHash, hashOneTimeToken(token)),
+            isNull(emailVerificationTokens.usedAt),
+            gt(emailVerificationTokens.expiresAt, new Date())
+          )
+        )
+        .returning({ userId: emailVerificationTokens.userId, email: emailVerificationTokens.email });
+
+      if (!spent[0]) {
+        return "invalid";
+      }
+
+      // Someone else may have signed up with the new address since the change was requested
+      const taken = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.email, spent[0].email), ne(users.id, spent[0].userId)))
+        .limit(1);
+
+      if (taken[0]) {
+        return "taken";
+      }
+
+      const now = new Date();
+      const updated = await tx
+        .update(users)
+        .set({ email: spent[0].email, pendingEmail: null, emailVerifiedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(users.id, spent[0].userId),
+            or(eq(users.email, spent[0].email), eq(users.pendingEmail, spent[0].email))
+          )
+        )
+        .returning({ id: users.id });
+
+      return updated.length > 0 ? "verified" : "invalid";
+    }, { isolationLevel: "read committed" });
+
+    if (outcome === "taken") {
+      return { success: false, error: "That address now belongs to another account, please choose a different one" };
+    }
+
+    if (outcome === "invalid") {
+      return { success: false, error: "This verification link is invalid or has expired" };
+    }
+
+    return { success: true, message: "Email verified. Thanks for confirming!" };
+  } catch (error) {
+    console.error("Email verification error:", error);
+    return { success: false, error: "Failed to verify email" };
+  }
+}
+
+export async function resendVerificationEmail() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to verify your email" };
+    }
+
+    const user = await db
+      .select({ id: users.id, email: users.email, name: users.name, emailVerifiedAt: users.emailVerifiedAt })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    if (!user[0]) {
+      return { success: false, error: "Account not found" };
+    }
+
+    if (user[0].emailVerifiedAt) {
+      return { success: false, error: "Your email is already verified" };
+    }
+
+    const lastSent = await db
+      .select({ createdAt: emailVerificationTokens.createdAt })
+      .from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.userId, user[0].id))
+      .orderBy(desc(emailVerificationTokens.createdAt))
+      .limit(1);
+
+    if (lastSent[0] && Date.now() - lastSent[0].createdAt.getTime() < VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000) {
+      return { success: false, error: "We just sent you a link. Please wait a minute before asking again" };
+    }
+
+    await issueEmailVerification(user[0]);
+
+    return { success: true, message: `Verification link sent to ${user[0].email}` };
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return { success: false, error: "Failed to send verification email" };
+  }
+}
+
+// Whether the signed-in user still needs to confirm their email, for reminder banners
+export async function getEmailVerificationStatus() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { isLoggedIn: false, isVerified: false };
+    }
+
+    const user = await db
+      .select({ emailVerifiedAt: users.emailVerifiedAt })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    return { isLoggedIn: true, isVerified: !!user[0]?.emailVerifiedAt };
+  } catch (error) {
+    console.error("Error checking email verification:", error);
+    return { isLoggedIn: false, isVerified: false };
+  }
+}
@@ -6,7 +6,7 @@ export interface BlobUploadResult {
   error?: string;
 }
 
-export async function uploadImage(file: File): Promise<BlobUploadResult> {
+export async function uploadImage(file: File, prefix = 'product'): Promise<BlobUploadResult> {
   try {
     // Validate file size (3MB limit)
     if (file.size > 3 * 1024 * 1024) {
@@ -31,7 +31,7 @@ export async function uploadImage(file: File): Promise<BlobUploadResult> {
     const timestamp = Date.now();
     const randomString = Math.random().toString(36).substring(2, 15);
     const extension = file.name.split('.').pop();
-    const filename = `product-${timestamp}-${randomString}.${extension}`;
+    const filename = `${prefix}-${timestamp}-${randomString}.${extension}`;
 
     // Upload to Vercel Blob
     const blob = await put(filename, file, {
@@ -1,15 +1,23 @@
 "use server";
 
 import { db } from "@/db";
-import { cart, products, users } from "@/db/schema";
+import { cart, offers, products, users } from "@/db/schema";
 import { and, eq, sql } from "drizzle-orm";
 import { getSession } from "@/lib/session";
 import { revalidatePath } from "next/cache";
+import { expireStaleTrades } from "./trade-expiry";
+import { activeCartOfferJoin, cartLineOfferJoin, cartLineOffers, getUnitPrice } from "./offer-pricing";
 
 export interface CartItem {
   id: string;
   quantity: number;
   addedAt: Date;
+  // Per-unit price agreed in an accepted offer, charged instead of the listed price. Left out
+  // once the seller has cut the listing below it.
+  offerPrice: string | null;
+  // Agreed price of an offer that has expired since the line was added, so it's charged at
+  // the listed price until the buyer acknowledges the change
+  lapsedOfferPrice: string | null;
   product: {
     id: string;
     name: string;
@@ -19,6 +27,7 @@ export interface CartItem {
     price: string;
     images: string[] | null;
     location: string;
+    availableQuantity: number;
     seller: {
       name: string;
       email: string;
@@ -43,6 +52,8 @@ export async function addToCart(productId: string, quantity: number = 1) {
       throw new Error("Only buyers can add items to cart");
     }
 
+    await expireStaleTrades({ productIds: [productId] });
+
     // Check if product exists and is active
     const product = await db
       .select()
@@ -54,19 +65,46 @@ export async function addToCart(productId: string, quantity: number = 1) {
       throw new Error("Product not found or unavailable");
     }
 
+    if (product[0].availableQuantity <= 0) {
+      throw new Error("This item is sold out");
+    }
+
+    if (product[0].reservedForTradeId) {
+      throw new Error("This item is reserved for a trade");
+    }
+
     // Check if item already exists in cart
     const existingCartItem = await db
-      .select()
+      .select({
+        id: cart.id,
+        quantity: cart.quantity,
+        offerQuantity: offers.quantity,
+      })
       .from(cart)
+      .leftJoin(offers, activeCartOfferJoin)
       .where(and(eq(cart.buyerId, user.userId), eq(cart.productId, productId)))
       .limit(1);
 
+    if (existingCartItem[0]?.offerQuantity) {
+      throw new Error("This item is already in your cart at an offer price");
+    }
+
+    // The cart can never hold more than the seller has in stock
+    const newQuantity = (existingCartItem[0]?.quantity || 0) + quantity;
+    if (newQuantity > product[0].availableQuantity) {
+      throw new Error(
+        existingCartItem[0]
+          ? `Only ${product[0].availableQuantity} available, you already have ${existingCartItem[0].quantity} in your cart`
+          : `Only ${product[0].availableQuantity} available`
+      );
+    }
+
     if (existingCartItem[0]) {
       // Update quantity if item exists
       await db
         .update(cart)
         .set({ 
-          quantity: existingCartItem[0].quantity + quantity,
+          quantity: newQuantity,
           addedAt: new Date()
         })
         .where(eq(cart.id, existingCartItem[0].id));
@@ -100,8 +138,14 @@ export async function updateCartItem(cartItemId: string, quantity: number) {
 
     // Verify cart item belongs to user
     const cartItem = await db
-      .select()
+      .select({
+        id: cart.id,
+        availableQuantity: products.availableQuantity,
+        offerQuantity: offers.quantity,
+      })
       .from(cart)
+      .innerJoin(products, eq(cart.productId, products.id))
+      .leftJoin(offers, activeCartOfferJoin)
       .where(and(eq(cart.id, cartItemId), eq(cart.buyerId, user.userId)))
       .limit(1);
 
@@ -109,6 +153,20 @@ export async function updateCartItem(cartItemId: string, quantity: number) {
       throw new Error("Cart item not found");
     }
 
+    // The agreed price only covers the quantity the offer was made for
+    const offerQuantity = cartItem[0].offerQuantity;
+    if (offerQuantity && quantity > offerQuantity) {
+      throw new Error(`Your offer covers ${offerQuantity} item${offerQuantity !== 1 ? "s" : ""}`);
+    }
+
+    if (quantity > cartItem[0].availableQuantity) {
+      throw new Error(
+        cartItem[0].availableQuantity > 0
+          ? `Only ${cartItem[0].availableQuantity} available`
+          : "This item is sold out"
+      );
+    }
+
     await db
       .update(cart)
       .set({ quantity })
@@ -150,6 +208,33 @@ export async function removeFromCart(cartItemId: string) {
   }
 }
 
+// Keep a line whose offer has lapsed at the listed price, which clears the notice and lets
+// the buyer check out
+export async function acceptListedPrice(cartItemId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to update your cart");
+    }
+
+    const updated = await db
+      .update(cart)
+      .set({ offerId: null })
+      .where(and(eq(cart.id, cartItemId), eq(cart.buyerId, user.userId)))
+      .returning({ id: cart.id });
+
+    if (!updated[0]) {
+      throw new Error("Cart item not found");
+    }
+
+    revalidatePath("/buyer/cart");
+    return { success: true, message: "Item kept at the listed price" };
+  } catch (error) {
+    console.error("Error accepting listed price:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update cart item");
+  }
+}
+
 export async function getCartItems(): Promise<CartSummary> {
   try {
     const user = await getSession();
@@ -170,12 +255,17 @@ export async function getCartItems(): Promise<CartSummary> {
         productPrice: products.price,
         productImages: products.images,
         productLocation: products.location,
+        productAvailableQuantity: products.availableQuantity,
+        offerPrice: offers.agreedPrice,
+        lineOfferPrice: cartLineOffers.agreedPrice,
         sellerName: users.name,
         sellerEmail: users.email,
       })
       .from(cart)
       .innerJoin(products, and(eq(cart.productId, products.id), eq(products.isActive, true)))
       .innerJoin(users, eq(products.sellerId, users.id))
+      .leftJoin(offers, activeCartOfferJoin)
+      .leftJoin(cartLineOffers, cartLineOfferJoin)
       .where(eq(cart.buyerId, user.userId))
       .orderBy(sql`${cart.addedAt} DESC`);
 
@@ -183,6 +273,10 @@ export async function getCartItems(): Promise<CartSummary> {
       id: item.cartId,
       quantity: item.quantity,
       addedAt: item.addedAt,
+      offerPrice: item.offerPrice !== null && Number(item.offerPrice) < Number(item.productPrice)
+        ? item.offerPrice
+        : null,
+      lapsedOfferPrice: item.offerPrice === null ? item.lineOfferPrice : null,
       product: {
         id: item.productId,
         name: item.productName,
@@ -192,6 +286,7 @@ export async function getCartItems(): Promise<CartSummary> {
         price: item.productPrice,
         images: item.productImages,
         location: item.productLocation,
+        availableQuantity: item.productAvailableQuantity,
         seller: {
           name: item.sellerName,
           email: item.sellerEmail,
@@ -201,7 +296,7 @@ export async function getCartItems(): Promise<CartSummary> {
 
     const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
     const totalAmount = cartItems.reduce((sum, item) => {
-      return sum + (parseFloat(item.product.price) * item.quantity);
+      return sum + (parseFloat(getUnitPrice(item.product.price, item.offerPrice)) * item.quantity);
     }, 0);
 
     return {
@@ -268,6 +363,15 @@ export async function validateCartItem(productId: string, quantity: number) {
       return { valid: false, message: "Quantity must be greater than 0" };
     }
 
+    if (quantity > product[0].availableQuantity) {
+      return {
+        valid: false,
+        message: product[0].availableQuantity > 0
+          ? `Only ${product[0].availableQuantity} available`
+          : "This item is sold out",
+      };
+    }
+
     return { valid: true, product: product[0] };
   } catch (error) {
     console.error("Error validating cart item:", error);
@@ -0,0 +1,58 @@
+import { sql, type AnyColumn } from "drizzle-orm";
+import { sriLankanCities } from "./validation-schemas";
+
+// Server-only distance ordering between the fixed listing cities. Each city is a single point
+// (roughly its centre), which is as precise as a listing's location gets.
+
+type ListedCity = Exclude<(typeof sriLankanCities)[number], "Other">;
+
+const cityCoordinates: Record<ListedCity, { lat: number; lng: number }> = {
+  Colombo: { lat: 6.9271, lng: 79.8612 },
+  Kandy: { lat: 7.2906, lng: 80.6337 },
+  Galle: { lat: 6.0535, lng: 80.221 },
+  Jaffna: { lat: 9.6615, lng: 80.0255 },
+  Negombo: { lat: 7.2083, lng: 79.8358 },
+  Anuradhapura: { lat: 8.3114, lng: 80.4037 },
+  Polonnaruwa: { lat: 7.9403, lng: 81.0188 },
+  Trincomalee: { lat: 8.5874, lng: 81.2152 },
+  Batticaloa: { lat: 7.731, lng: 81.6747 },
+  Ampara: { lat: 7.2975, lng: 81.682 },
+  Kurunegala: { lat: 7.4863, lng: 80.3623 },
+  Puttalam: { lat: 8.0362, lng: 79.8283 },
+  Ratnapura: { lat: 6.6828, lng: 80.3992 },
+  Kegalle: { lat: 7.2513, lng: 80.3464 },
+  Kalutara: { lat: 6.5854, lng: 79.9607 },
+  Matara: { lat: 5.9549, lng: 80.555 },
+  Hambantota: { lat: 6.1241, lng: 81.1185 },
+  Monaragala: { lat: 6.8728, lng: 81.3507 },
+  Badulla: { lat: 6.9934, lng: 81.055 },
+  "Nuwara Eliya": { lat: 6.9497, lng: 80.7891 },
+  Matale: { lat: 7.4675, lng: 80.6234 },
+};
+
+export function isListedCity(city: string | null | undefined): city is ListedCity {
+  return !!city && Object.hasOwn(cityCoordinates, city);
+}
+
+// Great-circle distance in kilometres
+function distanceKm(from: ListedCity, to: ListedCity) {
+  const a = cityCoordinates[from];
+  const b = cityCoordinates[to];
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+// Distance from the given city to each row's location, for ORDER BY. Locations that aren't
+// one of the listed cities ("Other") sort after every known city.
+export function cityDistanceColumn(locationColumn: AnyColumn, fromCity: ListedCity) {
+  const cities = Object.keys(cityCoordinates) as ListedCity[];
+  const cases = cities.map(
+    city => sql`when ${city} then ${Math.round(distanceKm(fromCity, city))}`
+  );
+
+  return sql<number>`case ${locationColumn} ${sql.join(cases, sql` `)} else 100000 end`;
+}
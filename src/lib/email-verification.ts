@@ -0,0 +1,53 @@
+import { db } from "@/db";
+import { emailVerificationTokens, users } from "@/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { runInTransaction } from "@/db/transaction";
+import { generateOneTimeToken } from "./one-time-tokens";
+import { sendEmailVerificationEmail } from "./account-emails";
+
+// Server-only helpers behind email verification. Registration, resends and email changes all
+// issue tokens through here, and listing/checkout actions use isEmailVerified as their gate.
+
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+export const EMAIL_NOT_VERIFIED_MESSAGE =
+  "Please verify your email address first. Check your inbox or resend the link from your account settings.";
+
+// Replace any outstanding link for the address with a fresh one and email it. Pass the user's
+// current address to verify it, or the one they're changing to.
+export async function issueEmailVerification(user: { id: string; email: string; name: string }) {
+  const { token, tokenHash } = generateOneTimeToken();
+  const now = new Date();
+
+  await runInTransaction(async (tx) => {
+    await tx
+      .update(emailVerificationTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(emailVerificationTokens.userId, user.id),
+          eq(emailVerificationTokens.email, user.email),
+          isNull(emailVerificationTokens.usedAt)
+        )
+      );
+
+    await tx.insert(emailVerificationTokens).values({
+      userId: user.id,
+      email: user.email,
+      tokenHash,
+      expiresAt: new Date(now.getTime() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+    });
+  }, { isolationLevel: "read committed" });
+
+  await sendEmailVerificationEmail(user, token, EMAIL_VERIFICATION_TTL_HOURS);
+}
+
+export async function isEmailVerified(userId: string) {
+  const result = await db
+    .select({ emailVerifiedAt: users.emailVerifiedAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return !!result[0]?.emailVerifiedAt;
+}
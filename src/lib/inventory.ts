@@ -0,0 +1,83 @@
+import { db, type DbExecutor } from "@/db";
+import { orderItems, products } from "@/db/schema";
+import { and, eq, gte, isNull, ne, sql } from "drizzle-orm";
+import { expireStaleTrades } from "./trade-expiry";
+
+// Server-only stock helpers shared by the checkout and order workflows.
+// Not a server action module on purpose: stock must only move as a side effect of an order change.
+
+export interface StockLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+// Take stock for every line. Each decrement is a single conditional UPDATE, so two buyers
+// racing for the last unit can't both get it. Run it inside the checkout transaction so a
+// failed line rolls back the ones before it.
+export async function reserveStock(lines: StockLine[], executor: DbExecutor = db) {
+  await expireStaleTrades({ productIds: lines.map(line => line.productId) }, executor);
+
+  for (const line of lines) {
+    const updated = await executor
+      .update(products)
+      .set({ availableQuantity: sql`${products.availableQuantity} - ${line.quantity}` })
+      .where(
+        and(
+          eq(products.id, line.productId),
+          eq(products.isActive, true),
+          isNull(products.reservedForTradeId),
+          gte(products.availableQuantity, line.quantity)
+        )
+      )
+      .returning({ id: products.id });
+
+    if (!updated[0]) {
+      const current = await executor
+        .select({
+          availableQuantity: products.availableQuantity,
+          reservedForTradeId: products.reservedForTradeId,
+        })
+        .from(products)
+        .where(eq(products.id, line.productId))
+        .limit(1);
+
+      if (current[0]?.reservedForTradeId) {
+        throw new Error(`"${line.productName}" is reserved for a trade, please remove it from your cart`);
+      }
+
+      const available = current[0]?.availableQuantity || 0;
+      throw new Error(
+        available > 0
+          ? `Only ${available} of "${line.productName}" left, please update your cart`
+          : `"${line.productName}" is sold out, please remove it from your cart`
+      );
+    }
+  }
+}
+
+// Put stock back, e.g. when an order is cancelled or an item is rejected
+export async function releaseStock(
+  lines: Array<Pick<StockLine, 'productId' | 'quantity'>>,
+  executor: DbExecutor = db
+) {
+  for (const line of lines) {
+    await executor
+      .update(products)
+      .set({ availableQuantity: sql`${products.availableQuantity} + ${line.quantity}` })
+      .where(eq(products.id, line.productId));
+  }
+}
+
+// Put back the stock held by every item of a sub-order that wasn't already rejected
+export async function releaseOrderStock(orderId: string, executor: DbExecutor = db) {
+  const items = await executor
+    .select({
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+    })
+    .from(orderItems)
+    .where(and(eq(orderItems.orderId, orderId), ne(orderItems.status, 'rejected')));
+
+  await releaseStock(items, executor);
+}
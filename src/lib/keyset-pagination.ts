@@ -0,0 +1,54 @@
+import { asc, desc, sql, type AnyColumn, type SQL } from "drizzle-orm";
+
+// Server-only helpers for keyset (cursor) pagination. A page is asked for with the sort key
+// values of the last row already shown, so rows inserted meanwhile can't shift later pages
+// and deep pages cost the same as the first. Sort keys must never be null and must end on a
+// unique column so every row has a distinct position.
+
+export interface SortKey {
+  expression: SQL | AnyColumn;
+  direction: "asc" | "desc";
+}
+
+export function orderBySortKeys(keys: SortKey[]): SQL[] {
+  return keys.map(key => (key.direction === "asc" ? asc(key.expression) : desc(key.expression)));
+}
+
+// The row's sort key values as a JSON array of strings. Casting to text keeps timestamp
+// microseconds and numeric digits that a JavaScript Date or number would round away.
+export function sortKeyValues(keys: SortKey[]) {
+  return sql<string[]>`json_build_array(${sql.join(keys.map(key => sql`(${key.expression})::text`), sql`, `)})`;
+}
+
+// Cursors name the ordering they came from, so one can't be replayed against another
+export function encodeCursor(scope: string, values: unknown[]) {
+  return Buffer.from(JSON.stringify({ scope, values })).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, scope: string, keys: SortKey[]): unknown[] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (decoded?.scope === scope && Array.isArray(decoded.values) && decoded.values.length === keys.length) {
+      return decoded.values;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid pagination cursor");
+}
+
+// Rows that come after the cursor in the given ordering, expanded per key so mixed
+// directions work: k1 beyond v1, or k1 = v1 and (k2 beyond v2, or ...)
+export function afterCursor(keys: SortKey[], values: unknown[]): SQL {
+  const [key, ...restKeys] = keys;
+  const [value, ...restValues] = values;
+  const beyond = key.direction === "asc"
+    ? sql`${key.expression} > ${value}`
+    : sql`${key.expression} < ${value}`;
+
+  if (restKeys.length === 0) {
+    return beyond;
+  }
+
+  return sql`(${beyond} or (${key.expression} = ${value} and ${afterCursor(restKeys, restValues)}))`;
+}
@@ -0,0 +1,357 @@
+import { db } from "@/db";
+import { loginAttempts, loginThrottles } from "@/db/schema";
+import { eq, isNull, lte, or, sql } from "drizzle-orm";
+import { getClientInfo } from "./session";
+
+// Brute-force protection for sign-in. Attempts are counted per client IP and per email before
+// the password is checked, and a correct password takes its attempt back. Once a key passes its
+// free attempts it has to wait an exponentially growing delay, and an email that keeps failing
+// is locked for a while. Every failure is also written to login_attempts.
+// Password reset requests are capped per email and per IP with the same counters, so the form
+// can't be used to flood someone's inbox.
+//
+// Environment:
+//   LOGIN_THROTTLE_STORE   "database" (default) or "memory". Memory is per process, so only
+//                          suitable for local development or a single instance.
+
+export interface ThrottleState {
+  failures: number;
+  lastFailureAt: Date;
+  blockedUntil: Date | null;
+}
+
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleState | null>;
+  // Count one failure and return the new total. Failures older than windowMs no longer count.
+  recordFailure(key: string, now: Date, windowMs: number): Promise<number>;
+  // In one atomic step: refuse with null while the key is blocked, otherwise count the attempt,
+  // start whatever delay the policy sets for the new total and return it
+  reserveAttempt(key: string, now: Date, windowMs: number, policy: ThrottlePolicy): Promise<number | null>;
+  // Take back one counted attempt, leaving any delay it started
+  releaseAttempt(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export interface ThrottlePolicy {
+  // Failures allowed before any delay applies
+  freeAttempts: number;
+  maxDelaySeconds: number;
+  // Failures after which the key is locked outright, if at all
+  lockoutAfter?: number;
+  lockoutMinutes?: number;
+}
+
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+// Reset emails allowed per window before further requests are turned away
+const MAX_RESET_REQUESTS_PER_EMAIL = 3;
+const MAX_RESET_REQUESTS_PER_IP = 10;
+
+// An IP may be shared (offices, mobile carriers), so it gets more room than a single account
+const ipPolicy: ThrottlePolicy = {
+  freeAttempts: 20,
+  maxDelaySeconds: 15 * 60,
+};
+
+const emailPolicy: ThrottlePolicy = {
+  freeAttempts: 3,
+  maxDelaySeconds: 5 * 60,
+  lockoutAfter: 10,
+  lockoutMinutes: 15,
+};
+
+export function createDatabaseThrottleStore(): ThrottleStore {
+  return {
+    async get(key) {
+      const result = await db
+        .select({
+          failures: loginThrottles.failures,
+          lastFailureAt: loginThrottles.lastFailureAt,
+          blockedUntil: loginThrottles.blockedUntil,
+        })
+        .from(loginThrottles)
+        .where(eq(loginThrottles.key, key))
+        .limit(1);
+
+      return result[0] || null;
+    },
+
+    async recordFailure(key, now, windowMs) {
+      const windowStart = new Date(now.getTime() - windowMs);
+      const [row] = await db
+        .insert(loginThrottles)
+        .values({ key, failures: 1, lastFailureAt: now })
+        .onConflictDoUpdate({
+          target: loginThrottles.key,
+          set: {
+            failures: sql`case when ${loginThrottles.lastFailureAt} < ${windowStart} then 1 else ${loginThrottles.failures} + 1 end`,
+            lastFailureAt: now,
+          },
+        })
+        .returning({ failures: loginThrottles.failures });
+
+      return row.failures;
+    },
+
+    async reserveAttempt(key, now, windowMs, policy) {
+      const windowStart = new Date(now.getTime() - windowMs);
+      const failures = sql`(case when ${loginThrottles.lastFailureAt} < ${windowStart} then 1 else ${loginThrottles.failures} + 1 end)`;
+      // The same delay as blockAfterFailure, worked out from the new total inside the statement
+      // so a parallel attempt already sees it
+      const startsAt = sql`${now.toISOString()}::timestamp`;
+      const lockout = policy.lockoutAfter && policy.lockoutMinutes
+        ? sql`when ${failures} >= ${policy.lockoutAfter} then ${startsAt} + make_interval(mins => ${policy.lockoutMinutes})`
+        : sql``;
+
+      const rows = await db
+        .insert(loginThrottles)
+        .values({ key, failures: 1, lastFailureAt: now, blockedUntil: blockAfterFailure(policy, 1, now)?.until ?? null })
+        .onConflictDoUpdate({
+          target: loginThrottles.key,
+          set: {
+            failures,
+            lastFailureAt: now,
+            blockedUntil: sql`case ${lockout}
+              when ${failures} >= ${policy.freeAttempts}
+                then ${startsAt} + make_interval(secs => least(power(2, ${failures} - ${policy.freeAttempts}), ${policy.maxDelaySeconds}))
+              else null end`,
+          },
+          setWhere: or(isNull(loginThrottles.blockedUntil), lte(loginThrottles.blockedUntil, now)),
+        })
+        .returning({ failures: loginThrottles.failures });
+
+      return rows[0]?.failures ?? null;
+    },
+
+    async releaseAttempt(key) {
+      await db
+        .update(loginThrottles)
+        .set({ failures: sql`greatest(${loginThrottles.failures} - 1, 0)` })
+        .where(eq(loginThrottles.key, key));
+    },
+
+    async reset(key) {
+      await db.delete(loginThrottles).where(eq(loginThrottles.key, key));
+    },
+  };
+}
+
+export function createMemoryThrottleStore(): ThrottleStore {
+  const entries = new Map<string, ThrottleState>();
+
+  // Drop keys that are neither counting nor blocked any more, so the map can't grow forever
+  const prune = (now: Date, windowMs: number) => {
+    for (const [key, state] of entries) {
+      const stale = now.getTime() - state.lastFailureAt.getTime() > windowMs;
+      const blocked = state.blockedUntil && state.blockedUntil > now;
+      if (stale && !blocked) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  // Synchronous, so nothing else runs between reading a key and writing it back
+  const countFailure = (key: string, now: Date, windowMs: number) => {
+    if (entries.size > 10_000) {
+      prune(now, windowMs);
+    }
+
+    const previous = entries.get(key);
+    const inWindow = previous && now.getTime() - previous.lastFailureAt.getTime() <= windowMs;
+    const state = {
+      failures: inWindow ? previous.failures + 1 : 1,
+      lastFailureAt: now,
+      blockedUntil: previous?.blockedUntil ?? null,
+    };
+
+    entries.set(key, state);
+    return state;
+  };
+
+  return {
+    async get(key) {
+      return entries.get(key) || null;
+    },
+
+    async recordFailure(key, now, windowMs) {
+      return countFailure(key, now, windowMs).failures;
+    },
+
+    async reserveAttempt(key, now, windowMs, policy) {
+      const previous = entries.get(key);
+      if (previous?.blockedUntil && previous.blockedUntil > now) {
+        return null;
+      }
+
+      const state = countFailure(key, now, windowMs);
+      state.blockedUntil = blockAfterFailure(policy, state.failures, now)?.until ?? null;
+      return state.failures;
+    },
+
+    async releaseAttempt(key) {
+      const state = entries.get(key);
+      if (state) {
+        state.failures = Math.max(state.failures - 1, 0);
+      }
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let store: ThrottleStore | null = null;
+
+function getStore(): ThrottleStore {
+  if (!store) {
+    const kind = process.env.LOGIN_THROTTLE_STORE || "database";
+
+    switch (kind) {
+      case "database":
+        store = createDatabaseThrottleStore();
+        break;
+      case "memory":
+        store = createMemoryThrottleStore();
+        break;
+      default:
+        throw new Error(`Unknown LOGIN_THROTTLE_STORE "${kind}"`);
+    }
+  }
+
+  return store;
+}
+
+export function setThrottleStore(next: ThrottleStore | null) {
+  store = next;
+}
+
+const emailKey = (email: string) => `email:${email.toLowerCase()}`;
+// Requests without a client address all share one bucket
+const ipKey = (ip: string | null) => `ip:${ip ?? "unknown"}`;
+
+// What the next failure costs: nothing, a backoff delay, or a lockout
+function blockAfterFailure(policy: ThrottlePolicy, failures: number, now: Date) {
+  if (policy.lockoutAfter && policy.lockoutMinutes && failures >= policy.lockoutAfter) {
+    return { until: new Date(now.getTime() + policy.lockoutMinutes * 60 * 1000), locked: true };
+  }
+
+  if (failures < policy.freeAttempts) {
+    return null;
+  }
+
+  const delaySeconds = Math.min(2 ** (failures - policy.freeAttempts), policy.maxDelaySeconds);
+  return { until: new Date(now.getTime() + delaySeconds * 1000), locked: false };
+}
+
+export type LoginThrottleResult =
+  // locked: whether this attempt locks the account if the password turns out wrong
+  | { allowed: true; locked: boolean }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+// Count the attempt against both keys before the password is even looked at, so parallel
+// requests can't each get a free guess. A refused attempt is audited but doesn't add to the
+// counters, so waiting out the delay is always enough.
+export async function reserveLoginAttempt(email: string): Promise<LoginThrottleResult> {
+  const { ipAddress, userAgent } = await getClientInfo();
+  const throttleStore = getStore();
+  const now = new Date();
+
+  const ipAttempts = await throttleStore.reserveAttempt(ipKey(ipAddress), now, FAILURE_WINDOW_MS, ipPolicy);
+  const emailAttempts = ipAttempts === null
+    ? null
+    : await throttleStore.reserveAttempt(emailKey(email), now, FAILURE_WINDOW_MS, emailPolicy);
+
+  if (ipAttempts !== null && emailAttempts !== null) {
+    return {
+      allowed: true,
+      locked: !!emailPolicy.lockoutAfter && emailAttempts >= emailPolicy.lockoutAfter,
+    };
+  }
+
+  // The account is blocked, so the IP's attempt doesn't go ahead either
+  if (ipAttempts !== null) {
+    await throttleStore.releaseAttempt(ipKey(ipAddress));
+  }
+
+  await db.insert(loginAttempts).values({
+    email: email.toLowerCase(),
+    ipAddress,
+    userAgent,
+    reason: "throttled",
+  });
+
+  const [emailState, ipState] = await Promise.all([
+    throttleStore.get(emailKey(email)),
+    throttleStore.get(ipKey(ipAddress)),
+  ]);
+
+  const blockedUntil = [emailState?.blockedUntil, ipState?.blockedUntil]
+    .filter((until): until is Date => !!until && until > now)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  const emailLocked = !!emailPolicy.lockoutAfter
+    && !!emailState?.blockedUntil && emailState.blockedUntil > now
+    && emailState.failures >= emailPolicy.lockoutAfter;
+
+  return {
+    allowed: false,
+    locked: emailLocked,
+    retryAfterSeconds: Math.max(Math.ceil(((blockedUntil ?? now).getTime() - now.getTime()) / 1000), 1),
+  };
+}
+
+// Audit a wrong email or password. The attempt was already counted when it was reserved.
+export async function recordLoginFailure(
+  email: string,
+  failure: { reason: "unknown_email" | "wrong_password"; userId?: string }
+) {
+  const { ipAddress, userAgent } = await getClientInfo();
+
+  await db.insert(loginAttempts).values({
+    email: email.toLowerCase(),
+    userId: failure.userId,
+    ipAddress,
+    userAgent,
+    reason: failure.reason,
+  });
+}
+
+// A successful sign-in takes back the IP's attempt and clears the account's counter
+export async function recordLoginSuccess(email: string) {
+  const { ipAddress } = await getClientInfo();
+
+  await Promise.all([
+    getStore().releaseAttempt(ipKey(ipAddress)),
+    clearLoginFailures(email),
+  ]);
+}
+
+// A password reset clears the account's counter too. The IP's counter is only ever taken back
+// one attempt at a time, otherwise one valid account would let an attacker reset it between guesses.
+export async function clearLoginFailures(email: string) {
+  await getStore().reset(emailKey(email));
+}
+
+// Count a password reset request against the email and the client IP, whether or not an
+// account exists, and say whether it may go ahead
+export async function allowPasswordResetRequest(email: string) {
+  const { ipAddress } = await getClientInfo();
+  const throttleStore = getStore();
+  const now = new Date();
+
+  const [emailRequests, ipRequests] = await Promise.all([
+    throttleStore.recordFailure(`reset:${emailKey(email)}`, now, FAILURE_WINDOW_MS),
+    throttleStore.recordFailure(`reset:${ipKey(ipAddress)}`, now, FAILURE_WINDOW_MS),
+  ]);
+
+  return emailRequests <= MAX_RESET_REQUESTS_PER_EMAIL && ipRequests <= MAX_RESET_REQUESTS_PER_IP;
+}
+
+export function formatRetryAfter(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
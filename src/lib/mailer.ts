@@ -0,0 +1,106 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+// Outgoing email behind a small transport interface, so account emails don't care whether
+// they go through a real SMTP server or land on disk during development.
+//
+// Environment:
+//   MAIL_TRANSPORT   "smtp", "file" or "console" (default: smtp in production, console otherwise)
+//   MAIL_FROM        sender address, e.g. "ReTrade <no-reply@retrade.lk>"
+//   SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD
+//   SMTP_SECURE      "true" for implicit TLS (usually port 465), otherwise STARTTLS is used when offered
+//   MAIL_FILE_DIR    where the file transport writes messages (default: .mail)
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const DEFAULT_FROM = "ReTrade <no-reply@retrade.local>";
+
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to send email over SMTP");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+// Writes each message to its own JSON file, handy for tests that need to read the link back
+export function createFileTransport(directory = process.env.MAIL_FILE_DIR || ".mail"): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await writeFile(
+        path.join(directory, filename),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.info(
+        `[mail] to=${message.to} subject="${message.subject}"\n${message.text}`
+      );
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+function getTransport(): MailTransport {
+  if (!transport) {
+    const kind = process.env.MAIL_TRANSPORT
+      || (process.env.NODE_ENV === "production" ? "smtp" : "console");
+
+    switch (kind) {
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "file":
+        transport = createFileTransport();
+        break;
+      case "console":
+        transport = createConsoleTransport();
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+    }
+  }
+
+  return transport;
+}
+
+// Swap the transport, e.g. for an in-memory one in tests
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getTransport().send({ ...message, from: process.env.MAIL_FROM || DEFAULT_FROM });
+}
@@ -0,0 +1,325 @@
+"use server";
+
+import { z } from "zod";
+import { db } from "@/db";
+import { conversations, messages, orderItems, orders, products, users } from "@/db/schema";
+import { and, desc, eq, isNull, ne, or, sql } from "drizzle-orm";
+import { getSession, type SessionData } from "@/lib/session";
+import { messageSchema } from "./validation-schemas";
+import { revalidatePath } from "next/cache";
+
+export interface ConversationSummary {
+  id: string;
+  lastMessageAt: Date;
+  lastMessage: string | null;
+  unreadCount: number;
+  product: {
+    id: string;
+    name: string;
+    image: string | null;
+  };
+  order: {
+    id: string;
+    orderNumber: string;
+  } | null;
+  // The other side of the thread: the seller for buyers, the buyer for sellers
+  counterpart: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface ConversationMessage {
+  id: string;
+  body: string;
+  createdAt: Date;
+  isMine: boolean;
+}
+
+async function requireMessagingSession(action: string) {
+  const user = await getSession();
+  if (!user.isLoggedIn) {
+    throw new Error(`You must be logged in to ${action}`);
+  }
+
+  return user;
+}
+
+function inboxPath(role: SessionData["role"]) {
+  return role === "seller" ? "/seller/messages" : "/buyer/messages";
+}
+
+// Columns of the thread that belong to the current user's side
+function sideColumns(role: SessionData["role"]) {
+  return role === "seller"
+    ? { ownId: conversations.sellerId, lastReadAt: conversations.sellerLastReadAt, counterpartId: conversations.buyerId }
+    : { ownId: conversations.buyerId, lastReadAt: conversations.buyerLastReadAt, counterpartId: conversations.sellerId };
+}
+
+async function getParticipantConversation(conversationId: string, user: SessionData) {
+  const conversation = await db
+    .select()
+    .from(conversations)
+    .where(
+      and(
+        eq(conversations.id, conversationId),
+        eq(sideColumns(user.role).ownId, user.userId)
+      )
+    )
+    .limit(1);
+
+  if (!conversation[0]) {
+    throw new Error("Conversation not found");
+  }
+
+  return conversation[0];
+}
+
+async function insertMessage(conversationId: string, user: SessionData, body: string) {
+  const sentAt = new Date();
+
+  await db.insert(messages).values({
+    conversationId,
+    senderId: user.userId,
+    body,
+    createdAt: sentAt,
+  });
+
+  // Sending a message also means the sender has read the thread up to it
+  await db
+    .update(conversations)
+    .set(
+      user.role === "seller"
+        ? { lastMessageAt: sentAt, sellerLastReadAt: sentAt }
+        : { lastMessageAt: sentAt, buyerLastReadAt: sentAt }
+    )
+    .where(eq(conversations.id, conversationId));
+}
+
+// Open (or reuse) the buyer's thread about a listing, optionally about one of their orders for it
+export async function startConversation(data: { productId: string; orderId?: string; body: string }) {
+  try {
+    const user = await requireMessagingSession("message a seller");
+    if (user.role !== "buyer") {
+      throw new Error("Only buyers can start a conversation");
+    }
+
+    const { body } = messageSchema.parse({ body: data.body });
+
+    const product = await db
+      .select({ id: products.id, sellerId: products.sellerId })
+      .from(products)
+      .where(eq(products.id, data.productId))
+      .limit(1);
+
+    if (!product[0]) {
+      throw new Error("Product not found");
+    }
+
+    if (data.orderId) {
+      // The order must be the buyer's own and contain this product
+      const orderLine = await db
+        .select({ id: orders.id })
+        .from(orders)
+        .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+        .where(
+          and(
+            eq(orders.id, data.orderId),
+            eq(orders.buyerId, user.userId),
+            eq(orderItems.productId, data.productId)
+          )
+        )
+        .limit(1);
+
+      if (!orderLine[0]) {
+        throw new Error("Order not found");
+      }
+    }
+
+    const existing = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.productId, data.productId),
+          eq(conversations.buyerId, user.userId),
+          data.orderId ? eq(conversations.orderId, data.orderId) : isNull(conversations.orderId)
+        )
+      )
+      .limit(1);
+
+    let conversationId = existing[0]?.id;
+    if (!conversationId) {
+      const created = await db
+        .insert(conversations)
+        .values({
+          productId: data.productId,
+          orderId: data.orderId ?? null,
+          buyerId: user.userId,
+          sellerId: product[0].sellerId,
+        })
+        .returning({ id: conversations.id });
+      conversationId = created[0].id;
+    }
+
+    await insertMessage(conversationId, user, body);
+
+    revalidatePath("/buyer/messages");
+    revalidatePath("/seller/messages");
+    return { success: true, message: "Message sent", conversationId };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid message");
+    }
+    console.error("Error starting conversation:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to send message");
+  }
+}
+
+export async function sendMessage(conversationId: string, body: string) {
+  try {
+    const user = await requireMessagingSession("send messages");
+    const validatedData = messageSchema.parse({ body });
+
+    await getParticipantConversation(conversationId, user);
+    await insertMessage(conversationId, user, validatedData.body);
+
+    revalidatePath("/buyer/messages");
+    revalidatePath("/seller/messages");
+    return { success: true, message: "Message sent" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid message");
+    }
+    console.error("Error sending message:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to send message");
+  }
+}
+
+export async function getConversations(): Promise<ConversationSummary[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    const { ownId, lastReadAt, counterpartId } = sideColumns(user.role);
+
+    const result = await db
+      .select({
+        id: conversations.id,
+        lastMessageAt: conversations.lastMessageAt,
+        lastMessage: sql<string | null>`(
+          select ${messages.body} from ${messages}
+          where ${messages.conversationId} = ${conversations.id}
+          order by ${messages.createdAt} desc
+          limit 1
+        )`,
+        unreadCount: sql<number>`(
+          select count(*) from ${messages}
+          where ${messages.conversationId} = ${conversations.id}
+            and ${messages.senderId} <> ${user.userId}
+            and (${lastReadAt} is null or ${messages.createdAt} > ${lastReadAt})
+        )`.mapWith(Number),
+        product: {
+          id: products.id,
+          name: products.name,
+          images: products.images,
+        },
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+        counterpart: {
+          id: users.id,
+          name: users.name,
+        },
+      })
+      .from(conversations)
+      .innerJoin(products, eq(conversations.productId, products.id))
+      .innerJoin(users, eq(counterpartId, users.id))
+      .leftJoin(orders, eq(conversations.orderId, orders.id))
+      .where(eq(ownId, user.userId))
+      .orderBy(desc(conversations.lastMessageAt));
+
+    return result.map(({ product: { images, ...product }, orderId, orderNumber, ...conversation }) => ({
+      ...conversation,
+      product: { ...product, image: images?.[0] ?? null },
+      order: orderId && orderNumber ? { id: orderId, orderNumber } : null,
+    }));
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    throw new Error("Failed to fetch conversations");
+  }
+}
+
+export async function getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+  try {
+    const user = await requireMessagingSession("read messages");
+    await getParticipantConversation(conversationId, user);
+
+    const result = await db
+      .select({
+        id: messages.id,
+        body: messages.body,
+        createdAt: messages.createdAt,
+        senderId: messages.senderId,
+      })
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messages.createdAt);
+
+    return result.map(({ senderId, ...message }) => ({
+      ...message,
+      isMine: senderId === user.userId,
+    }));
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to fetch messages");
+  }
+}
+
+export async function markConversationRead(conversationId: string) {
+  try {
+    const user = await requireMessagingSession("read messages");
+    await getParticipantConversation(conversationId, user);
+
+    await db
+      .update(conversations)
+      .set(user.role === "seller" ? { sellerLastReadAt: new Date() } : { buyerLastReadAt: new Date() })
+      .where(eq(conversations.id, conversationId));
+
+    revalidatePath(inboxPath(user.role));
+    return { success: true };
+  } catch (error) {
+    console.error("Error marking conversation read:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update conversation");
+  }
+}
+
+// Total unread messages across the user's threads, used by the nav badges so it never throws
+export async function getUnreadMessageCount(): Promise<number> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return 0;
+    }
+
+    const { ownId, lastReadAt } = sideColumns(user.role);
+
+    const result = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(
+        and(
+          eq(ownId, user.userId),
+          ne(messages.senderId, user.userId),
+          or(isNull(lastReadAt), sql`${messages.createdAt} > ${lastReadAt}`)
+        )
+      );
+
+    return result[0]?.count ?? 0;
+  } catch (error) {
+    console.error("Error counting unread messages:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,124 @@
+"use server";
+
+import { db } from "@/db";
+import { notifications, products } from "@/db/schema";
+import { and, count, desc, eq, isNull } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { revalidatePath } from "next/cache";
+
+export interface NotificationItem {
+  id: string;
+  type: 'price_drop' | 'back_in_stock' | 'saved_search_match';
+  title: string;
+  message: string;
+  oldPrice: string | null;
+  newPrice: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+  product: {
+    id: string;
+    image: string | null;
+  } | null;
+}
+
+export async function getNotifications(limit = 50): Promise<NotificationItem[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    const result = await db
+      .select({
+        id: notifications.id,
+        type: notifications.type,
+        title: notifications.title,
+        message: notifications.message,
+        oldPrice: notifications.oldPrice,
+        newPrice: notifications.newPrice,
+        readAt: notifications.readAt,
+        createdAt: notifications.createdAt,
+        productId: products.id,
+        productImages: products.images,
+      })
+      .from(notifications)
+      .leftJoin(products, eq(notifications.productId, products.id))
+      .where(eq(notifications.userId, user.userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+
+    return result.map(({ productId, productImages, ...notification }) => ({
+      ...notification,
+      product: productId ? { id: productId, image: productImages?.[0] ?? null } : null,
+    }));
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    throw new Error("Failed to fetch notifications");
+  }
+}
+
+// Used by the nav badge, so it never throws
+export async function getUnreadNotificationCount(): Promise<number> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return 0;
+    }
+
+    const result = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, user.userId), isNull(notifications.readAt)));
+
+    return result[0]?.count ?? 0;
+  } catch (error) {
+    console.error("Error counting notifications:", error);
+    return 0;
+  }
+}
+
+export async function markNotificationRead(notificationId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to update notifications");
+    }
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(notifications.id, notificationId),
+          eq(notifications.userId, user.userId),
+          isNull(notifications.readAt)
+        )
+      );
+
+    revalidatePath("/buyer/notifications");
+    return { success: true };
+  } catch (error) {
+    console.error("Error marking notification read:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update notification");
+  }
+}
+
+export async function markAllNotificationsRead() {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to update notifications");
+    }
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, user.userId), isNull(notifications.readAt)));
+
+    revalidatePath("/buyer/notifications");
+    return { success: true, message: "All notifications marked as read" };
+  } catch (error) {
+    console.error("Error marking notifications read:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update notifications");
+  }
+}
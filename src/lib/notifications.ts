@@ -0,0 +1,186 @@
+import { db, type DbExecutor } from "@/db";
+import { notifications, products, savedSearches, wishlist, type NewNotification } from "@/db/schema";
+import { and, asc, desc, eq, ne, sql, type SQL } from "drizzle-orm";
+import { productMatchesFilters } from "./product-filters";
+
+// Server-only helpers that turn product changes into buyer notifications.
+// Not a server action module on purpose: alerts are only raised as a side effect of a seller's edit.
+
+// How many saved searches are checked against a new listing in one query
+const SAVED_SEARCH_BATCH_SIZE = 100;
+
+export interface WatchedProduct {
+  id: string;
+  name: string;
+  price: string;
+  isActive: boolean;
+  availableQuantity: number;
+}
+
+export interface PublishedProduct {
+  id: string;
+  sellerId: string;
+  name: string;
+  category: string;
+  productType: string;
+  condition: string;
+  price: string;
+  location: string;
+  availableQuantity: number;
+}
+
+function formatPrice(price: string | number) {
+  return new Intl.NumberFormat('en-LK', {
+    style: 'currency',
+    currency: 'LKR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(Number(price));
+}
+
+function isBuyable(product: WatchedProduct) {
+  return product.isActive && product.availableQuantity > 0;
+}
+
+// Buyers watching a product are the ones who saved it to their wishlist
+async function getWatcherIds(productId: string, executor: DbExecutor) {
+  const watchers = await executor
+    .select({ buyerId: wishlist.buyerId })
+    .from(wishlist)
+    .where(eq(wishlist.productId, productId));
+
+  return watchers.map(watcher => watcher.buyerId);
+}
+
+// Compare a product before and after a seller's change and alert everyone who saved it.
+// Only changes a buyer can act on are reported: a lower price on a buyable listing, or a
+// listing that became buyable again after being deactivated or sold out.
+export async function notifyWatchersOfProductChange(
+  before: WatchedProduct,
+  after: WatchedProduct,
+  executor: DbExecutor = db
+) {
+  const backInStock = !isBuyable(before) && isBuyable(after);
+  const priceDropped = isBuyable(after) && Number(after.price) < Number(before.price);
+
+  if (!backInStock && !priceDropped) {
+    return 0;
+  }
+
+  const watcherIds = await getWatcherIds(after.id, executor);
+  if (watcherIds.length === 0) {
+    return 0;
+  }
+
+  const alerts: NewNotification[] = [];
+  for (const userId of watcherIds) {
+    if (backInStock) {
+      alerts.push({
+        userId,
+        type: "back_in_stock",
+        productId: after.id,
+        title: "Back in stock",
+        message: `${after.name} is available again at ${formatPrice(after.price)}.`,
+      });
+    }
+
+    if (priceDropped) {
+      alerts.push({
+        userId,
+        type: "price_drop",
+        productId: after.id,
+        title: "Price drop",
+        message: `${after.name} dropped from ${formatPrice(before.price)} to ${formatPrice(after.price)}.`,
+        oldPrice: before.price,
+        newPrice: after.price,
+      });
+    }
+  }
+
+  await executor.insert(notifications).values(alerts);
+  return alerts.length;
+}
+
+// Saved searches whose plain filters don't rule the listing out. Only narrows the candidates,
+// the full filters including the search term are checked against the row afterwards.
+function savedSearchMayMatch(product: PublishedProduct): SQL {
+  const filters = sql`${savedSearches.filters}::jsonb`;
+
+  return sql`
+    (coalesce(jsonb_array_length(${filters} -> 'category'), 0) = 0
+      or ${filters} -> 'category' @> to_jsonb(${product.category}::text))
+    and coalesce(${filters} ->> 'productType', ${product.productType}) = ${product.productType}
+    and coalesce(${filters} ->> 'condition', ${product.condition}) = ${product.condition}
+    and (coalesce(jsonb_array_length(${filters} -> 'location'), 0) = 0
+      or ${filters} -> 'location' @> to_jsonb(${product.location}::text))
+    and coalesce((${filters} -> 'priceRange' ->> 'min')::numeric, 0) <= ${product.price}::numeric
+    and coalesce(nullif((${filters} -> 'priceRange' ->> 'max')::numeric, 0), ${product.price}::numeric) >= ${product.price}::numeric
+  `;
+}
+
+// Alert buyers whose saved searches match a newly published listing that's in stock. The filters
+// are checked by Postgres against the stored row, the same way the listing pages filter. A buyer
+// with several matching searches gets one alert, naming the oldest one with the daily email on
+// so the match reaches their digest, else the oldest. Sellers are never alerted about their own
+// listings.
+export async function notifySavedSearchesOfNewProduct(
+  product: PublishedProduct,
+  executor: DbExecutor = db
+) {
+  if (product.availableQuantity <= 0) {
+    return 0;
+  }
+
+  const searches = await executor
+    .select({
+      id: savedSearches.id,
+      userId: savedSearches.userId,
+      name: savedSearches.name,
+      filters: savedSearches.filters,
+    })
+    .from(savedSearches)
+    .where(and(ne(savedSearches.userId, product.sellerId), savedSearchMayMatch(product)))
+    .orderBy(desc(savedSearches.emailDigest), asc(savedSearches.createdAt));
+
+  const matchesByUser = new Map<string, { id: string; name: string }>();
+  for (let start = 0; start < searches.length; start += SAVED_SEARCH_BATCH_SIZE) {
+    const batch = searches.slice(start, start + SAVED_SEARCH_BATCH_SIZE);
+    const columns: Record<string, SQL<boolean>> = Object.fromEntries(
+      batch.map((search, index) => [
+        `match${index}`,
+        sql<boolean>`coalesce(${productMatchesFilters(search.filters)}, false)`,
+      ])
+    );
+
+    const result = await executor
+      .select(columns)
+      .from(products)
+      .where(eq(products.id, product.id));
+
+    if (!result[0]) {
+      return 0;
+    }
+
+    batch.forEach((search, index) => {
+      if (result[0][`match${index}`] && !matchesByUser.has(search.userId)) {
+        matchesByUser.set(search.userId, search);
+      }
+    });
+  }
+
+  if (matchesByUser.size === 0) {
+    return 0;
+  }
+
+  const alerts: NewNotification[] = [...matchesByUser].map(([userId, search]) => ({
+    userId,
+    type: "saved_search_match",
+    productId: product.id,
+    savedSearchId: search.id,
+    title: "New match",
+    message: `${product.name} in ${product.location} for ${formatPrice(product.price)} matches your saved search "${search.name}".`,
+  }));
+
+  await executor.insert(notifications).values(alerts);
+  return alerts.length;
+}
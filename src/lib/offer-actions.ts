@@ -0,0 +1,406 @@
+"use server";
+
+import { z } from "zod";
+import { db, type DbExecutor } from "@/db";
+import { runInTransaction } from "@/db/transaction";
+import { cart, offers, products, users, type Offer } from "@/db/schema";
+import { and, count, desc, eq, inArray, lt, or } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { offerSchema } from "./validation-schemas";
+import { expireStaleTrades } from "./trade-expiry";
+import {
+  DEFAULT_OFFER_EXPIRY_HOURS,
+  getOfferResponder,
+  openOfferStatuses,
+  type OfferStatus
+} from "./offer-status";
+import { revalidatePath } from "next/cache";
+
+export interface OfferSummary {
+  id: string;
+  status: OfferStatus;
+  quantity: number;
+  amount: string;
+  counterAmount: string | null;
+  agreedPrice: string | null;
+  message: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  product: {
+    id: string;
+    name: string;
+    price: string;
+    image: string | null;
+    availableQuantity: number;
+  };
+  // The other side of the negotiation: the seller for buyers, the buyer for sellers
+  counterpart: {
+    name: string;
+  };
+}
+
+export type OfferResponse =
+  | { action: 'accept' }
+  | { action: 'reject' }
+  | { action: 'counter'; amount: number };
+
+function offerExpiresAt() {
+  const hours = Number(process.env.OFFER_EXPIRY_HOURS) || DEFAULT_OFFER_EXPIRY_HOURS;
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+function revalidateOfferPaths() {
+  revalidatePath("/buyer/offers");
+  revalidatePath("/seller/offers");
+  revalidatePath("/buyer/cart");
+}
+
+// Offers are expired lazily, whenever one of their two parties looks at or acts on them.
+// Only that user's offers are touched, so the nav badge doesn't sweep the whole table.
+async function expireStaleOffers(userId: string, executor: DbExecutor = db) {
+  await executor
+    .update(offers)
+    .set({ status: 'expired', updatedAt: new Date() })
+    .where(
+      and(
+        or(eq(offers.buyerId, userId), eq(offers.sellerId, userId)),
+        inArray(offers.status, [...openOfferStatuses, 'accepted']),
+        lt(offers.expiresAt, new Date())
+      )
+    );
+}
+
+// Put the accepted offer in the buyer's cart, replacing any line for the same product
+async function addOfferToCart(offer: Offer, executor: DbExecutor) {
+  const existing = await executor
+    .select({ id: cart.id })
+    .from(cart)
+    .where(and(eq(cart.buyerId, offer.buyerId), eq(cart.productId, offer.productId)))
+    .limit(1);
+
+  if (existing[0]) {
+    await executor
+      .update(cart)
+      .set({ quantity: offer.quantity, offerId: offer.id, addedAt: new Date() })
+      .where(eq(cart.id, existing[0].id));
+  } else {
+    await executor.insert(cart).values({
+      buyerId: offer.buyerId,
+      productId: offer.productId,
+      quantity: offer.quantity,
+      offerId: offer.id,
+    });
+  }
+}
+
+export async function makeOffer(
+  productId: string,
+  data: { amount: number; quantity: number; message?: string }
+) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to make an offer");
+    }
+
+    if (user.role !== "buyer") {
+      throw new Error("Only buyers can make offers");
+    }
+
+    const validatedData = offerSchema.parse(data);
+
+    await expireStaleTrades({ productIds: [productId] });
+
+    const product = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.isActive, true)))
+      .limit(1);
+
+    if (!product[0]) {
+      throw new Error("Product not found or unavailable");
+    }
+
+    if (product[0].reservedForTradeId) {
+      throw new Error("This item is reserved for a trade");
+    }
+
+    if (validatedData.amount >= parseFloat(product[0].price)) {
+      throw new Error("Your offer must be below the listed price");
+    }
+
+    if (validatedData.quantity > product[0].availableQuantity) {
+      throw new Error(
+        product[0].availableQuantity > 0
+          ? `Only ${product[0].availableQuantity} available`
+          : "This item is sold out"
+      );
+    }
+
+    await expireStaleOffers(user.userId);
+
+    const openOffer = await db
+      .select({ id: offers.id })
+      .from(offers)
+      .where(
+        and(
+          eq(offers.productId, productId),
+          eq(offers.buyerId, user.userId),
+          inArray(offers.status, openOfferStatuses)
+        )
+      )
+      .limit(1);
+
+    if (openOffer[0]) {
+      throw new Error("You already have an open offer on this item");
+    }
+
+    await db.insert(offers).values({
+      productId,
+      buyerId: user.userId,
+      sellerId: product[0].sellerId,
+      quantity: validatedData.quantity,
+      amount: validatedData.amount.toString(),
+      message: validatedData.message || null,
+      expiresAt: offerExpiresAt(),
+    });
+
+    revalidateOfferPaths();
+    return { success: true, message: "Offer sent to the seller" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid offer");
+    }
+    console.error("Error making offer:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to make offer");
+  }
+}
+
+// Accept, reject or counter an open offer. The seller answers pending offers and the buyer
+// answers counters; accepting puts the item in the buyer's cart at the agreed price.
+export async function respondToOffer(offerId: string, response: OfferResponse) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to respond to offers");
+    }
+
+    await expireStaleOffers(user.userId);
+
+    const message = await runInTransaction(async (tx) => {
+      const result = await tx
+        .select()
+        .from(offers)
+        .where(eq(offers.id, offerId))
+        .limit(1)
+        .for("update");
+
+      const offer = result[0];
+      const participantId = user.role === "seller" ? offer?.sellerId : offer?.buyerId;
+      if (!offer || participantId !== user.userId) {
+        throw new Error("Offer not found");
+      }
+
+      if (offer.status === "expired") {
+        throw new Error("This offer has expired");
+      }
+
+      if (getOfferResponder(offer.status) !== user.role) {
+        throw new Error(`This offer is ${offer.status} and can't be answered by you right now`);
+      }
+
+      await expireStaleTrades({ productIds: [offer.productId] }, tx);
+
+      const product = await tx
+        .select({
+          price: products.price,
+          availableQuantity: products.availableQuantity,
+          isActive: products.isActive,
+          reservedForTradeId: products.reservedForTradeId,
+        })
+        .from(products)
+        .where(eq(products.id, offer.productId))
+        .limit(1);
+
+      if (!product[0]?.isActive) {
+        throw new Error("This listing is no longer available");
+      }
+
+      const now = new Date();
+
+      if (response.action === "reject") {
+        await tx
+          .update(offers)
+          .set({ status: "rejected", updatedAt: now })
+          .where(eq(offers.id, offerId));
+        return "Offer rejected";
+      }
+
+      if (response.action === "counter") {
+        const amount = offerSchema.shape.amount.parse(response.amount);
+
+        if (amount >= parseFloat(product[0].price)) {
+          throw new Error("A counter offer must be below the listed price");
+        }
+
+        // A counter hands the turn to the other side and restarts the clock
+        await tx
+          .update(offers)
+          .set(
+            user.role === "seller"
+              ? { status: "countered", counterAmount: amount.toString(), expiresAt: offerExpiresAt(), updatedAt: now }
+              : { status: "pending", amount: amount.toString(), counterAmount: null, expiresAt: offerExpiresAt(), updatedAt: now }
+          )
+          .where(eq(offers.id, offerId));
+        return "Counter offer sent";
+      }
+
+      if (product[0].reservedForTradeId) {
+        throw new Error("This item is reserved for a trade, the offer can't be accepted right now");
+      }
+
+      if (offer.quantity > product[0].availableQuantity) {
+        throw new Error(
+          product[0].availableQuantity > 0
+            ? `Only ${product[0].availableQuantity} left, the offer can't be accepted`
+            : "This item is sold out"
+        );
+      }
+
+      // The buyer accepts the seller's counter, the seller accepts the buyer's amount
+      const agreedPrice = user.role === "buyer" ? offer.counterAmount : offer.amount;
+      if (!agreedPrice) {
+        throw new Error("There is no price to accept");
+      }
+
+      const [accepted] = await tx
+        .update(offers)
+        .set({ status: "accepted", agreedPrice, expiresAt: offerExpiresAt(), updatedAt: now })
+        .where(eq(offers.id, offerId))
+        .returning();
+
+      await addOfferToCart(accepted, tx);
+      return user.role === "buyer"
+        ? "Offer accepted, the item is in your cart at the agreed price"
+        : "Offer accepted, the item was added to the buyer's cart";
+    }, { isolationLevel: "read committed" });
+
+    revalidateOfferPaths();
+    return { success: true, message };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid offer");
+    }
+    console.error("Error responding to offer:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to respond to offer");
+  }
+}
+
+export async function withdrawOffer(offerId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to withdraw an offer");
+    }
+
+    const withdrawn = await db
+      .update(offers)
+      .set({ status: "withdrawn", updatedAt: new Date() })
+      .where(
+        and(
+          eq(offers.id, offerId),
+          eq(offers.buyerId, user.userId),
+          inArray(offers.status, openOfferStatuses)
+        )
+      )
+      .returning({ id: offers.id });
+
+    if (!withdrawn[0]) {
+      throw new Error("Only open offers can be withdrawn");
+    }
+
+    revalidateOfferPaths();
+    return { success: true, message: "Offer withdrawn" };
+  } catch (error) {
+    console.error("Error withdrawing offer:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to withdraw offer");
+  }
+}
+
+// Offers the current user made (buyers) or received (sellers), most recently active first
+export async function getMyOffers(): Promise<OfferSummary[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    await expireStaleOffers(user.userId);
+
+    const ownColumn = user.role === "seller" ? offers.sellerId : offers.buyerId;
+    const counterpartColumn = user.role === "seller" ? offers.buyerId : offers.sellerId;
+
+    const result = await db
+      .select({
+        offer: offers,
+        product: {
+          id: products.id,
+          name: products.name,
+          price: products.price,
+          images: products.images,
+          availableQuantity: products.availableQuantity,
+        },
+        counterpartName: users.name,
+      })
+      .from(offers)
+      .innerJoin(products, eq(offers.productId, products.id))
+      .innerJoin(users, eq(counterpartColumn, users.id))
+      .where(eq(ownColumn, user.userId))
+      .orderBy(desc(offers.updatedAt));
+
+    return result.map(({ offer, product: { images, ...product }, counterpartName }) => ({
+      id: offer.id,
+      status: offer.status,
+      quantity: offer.quantity,
+      amount: offer.amount,
+      counterAmount: offer.counterAmount,
+      agreedPrice: offer.agreedPrice,
+      message: offer.message,
+      expiresAt: offer.expiresAt,
+      createdAt: offer.createdAt,
+      updatedAt: offer.updatedAt,
+      product: { ...product, image: images?.[0] ?? null },
+      counterpart: { name: counterpartName },
+    }));
+  } catch (error) {
+    console.error("Error fetching offers:", error);
+    throw new Error("Failed to fetch offers");
+  }
+}
+
+// Offers waiting on the current user, used by the nav badges so it never throws
+export async function getOffersAwaitingResponseCount(): Promise<number> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return 0;
+    }
+
+    await expireStaleOffers(user.userId);
+
+    const result = await db
+      .select({ count: count() })
+      .from(offers)
+      .where(
+        user.role === "seller"
+          ? and(eq(offers.sellerId, user.userId), eq(offers.status, "pending"))
+          : and(eq(offers.buyerId, user.userId), eq(offers.status, "countered"))
+      );
+
+    return result[0]?.count ?? 0;
+  } catch (error) {
+    console.error("Error counting offers:", error);
+    return 0;
+  }
+}
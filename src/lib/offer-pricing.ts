@@ -0,0 +1,29 @@
+import { cart, offers } from "@/db/schema";
+import { and, eq, gt, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// Server-only pricing helpers for cart lines that came from an accepted offer.
+// Shared by the cart and checkout so the buyer is charged exactly the price the cart shows.
+
+// Join condition for the accepted, unexpired offer behind a cart line. Once the offer lapses
+// the line falls back to the listed price.
+export const activeCartOfferJoin = and(
+  eq(cart.offerId, offers.id),
+  eq(offers.status, "accepted"),
+  gt(offers.expiresAt, sql`now()`)
+);
+
+// The offer a cart line came from in whatever state it is now. A line with an offerId that
+// activeCartOfferJoin no longer matches has lapsed back to the listed price, which the buyer
+// has to acknowledge before checking out.
+export const cartLineOffers = alias(offers, "cart_line_offers");
+export const cartLineOfferJoin = eq(cart.offerId, cartLineOffers.id);
+
+// The agreed price is a ceiling: if the seller has since cut the listing below it, the buyer
+// pays the lower listed price
+export function getUnitPrice(listedPrice: string, agreedPrice: string | null) {
+  if (agreedPrice === null) {
+    return listedPrice;
+  }
+  return Number(agreedPrice) < Number(listedPrice) ? agreedPrice : listedPrice;
+}
@@ -0,0 +1,37 @@
+// Offer negotiation definitions shared by server actions and UI.
+// Keep this module free of server-only imports so client components can use it.
+
+export const offerStatuses = [
+  'pending',
+  'countered',
+  'accepted',
+  'rejected',
+  'withdrawn',
+  'expired',
+  'purchased',
+] as const;
+
+export type OfferStatus = typeof offerStatuses[number];
+
+export const offerStatusLabels: Record<OfferStatus, string> = {
+  pending: 'Awaiting Seller',
+  countered: 'Countered',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+  purchased: 'Purchased',
+};
+
+// Offers still being negotiated: the seller answers pending ones, the buyer answers counters
+export const openOfferStatuses: OfferStatus[] = ['pending', 'countered'];
+
+// Whose turn it is to respond to an open offer
+export function getOfferResponder(status: OfferStatus): 'buyer' | 'seller' | null {
+  if (status === 'pending') return 'seller';
+  if (status === 'countered') return 'buyer';
+  return null;
+}
+
+// How long an offer, counter or accepted price stays valid, unless OFFER_EXPIRY_HOURS is set
+export const DEFAULT_OFFER_EXPIRY_HOURS = 48;
@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from "node:crypto";
+
+// Random tokens for links sent by email. The raw token only ever lives in the link; the
+// database keeps its SHA-256 hash, so a leaked table can't be used to take over accounts.
+
+export function generateOneTimeToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashOneTimeToken(token) };
+}
+
+export function hashOneTimeToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -1,10 +1,31 @@
 "use server";
 
+import { z } from "zod";
 import { db } from "@/db";
-import { orders, orderItems, cart, products, users } from "@/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { checkouts, orders, orderItems, orderStatusHistory, cart, offers, products, reviews, users } from "@/db/schema";
+import { eq, and, inArray, sql } from "drizzle-orm";
 import { getSession } from "@/lib/session";
 import { revalidatePath } from "next/cache";
+import {
+  allocateCheckoutNumber,
+  getSubOrderNumberFormatter,
+  recordOrderCreated,
+  transitionOrderStatus,
+} from "./order-workflow";
+import { reserveStock } from "./inventory";
+import { activeCartOfferJoin, getUnitPrice } from "./offer-pricing";
+import { runInTransaction } from "@/db/transaction";
+import { returnRequestSchema } from "./validation-schemas";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "./email-verification";
+import type { OrderActorRole, OrderStatus } from "./order-status";
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  orderBySortKeys,
+  sortKeyValues,
+  type SortKey,
+} from "./keyset-pagination";
 
 export interface OrderData {
   buyerName: string;
@@ -13,21 +34,30 @@ export interface OrderData {
   shippingAddress: string;
 }
 
+// A per-seller sub-order within a checkout
 export interface OrderDetails {
   id: string;
+  checkoutId: string;
   orderNumber: string;
   totalAmount: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: OrderStatus;
   buyerName: string;
   buyerEmail: string;
   buyerPhone: string;
   shippingAddress: string;
   createdAt: Date;
+  seller: {
+    id: string;
+    name: string;
+  };
   items: Array<{
     id: string;
     quantity: number;
     price: string;
     productName: string;
+    status: 'pending' | 'confirmed' | 'rejected';
+    rejectionReason: string | null;
+    statusUpdatedAt: Date | null;
     product: {
       id: string;
       images: string[] | null;
@@ -35,13 +65,37 @@ export interface OrderDetails {
       condition: string;
       location: string;
     };
+    // The buyer's review of this item, if they've left one
+    review: {
+      id: string;
+      rating: number;
+      comment: string | null;
+      sellerReply: string | null;
+    } | null;
   }>;
+  history: OrderStatusHistoryEntry[];
 }
 
-export async function generateOrderNumber(): Promise<string> {
-  const timestamp = Date.now().toString();
-  const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `RT-${timestamp.slice(-6)}${random}`;
+export interface OrderStatusHistoryEntry {
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorRole: OrderActorRole;
+  note: string | null;
+  createdAt: Date;
+}
+
+// A placed cart, grouping one sub-order per seller
+export interface CheckoutDetails {
+  id: string;
+  checkoutNumber: string;
+  totalAmount: string;
+  buyerName: string;
+  buyerEmail: string;
+  buyerPhone: string;
+  shippingAddress: string;
+  createdAt: Date;
+  orders: OrderDetails[];
 }
 
 export async function createOrder(orderData: OrderData) {
@@ -55,78 +109,157 @@ export async function createOrder(orderData: OrderData) {
       throw new Error("Only buyers can place orders");
     }
 
-    // Get cart items
-    const cartItems = await db
-      .select({
-        id: cart.id,
-        productId: cart.productId,
-        quantity: cart.quantity,
-        product: {
-          id: products.id,
-          name: products.name,
-          price: products.price,
-          isActive: products.isActive,
-        },
-      })
-      .from(cart)
-      .innerJoin(products, eq(cart.productId, products.id))
-      .where(eq(cart.buyerId, user.userId));
-
-    if (cartItems.length === 0) {
-      throw new Error("Your cart is empty");
+    if (!(await isEmailVerified(user.userId))) {
+      throw new Error(EMAIL_NOT_VERIFIED_MESSAGE);
     }
 
-    // Validate all products are still active
-    const inactiveProducts = cartItems.filter(item => !item.product.isActive);
-    if (inactiveProducts.length > 0) {
-      throw new Error("Some items in your cart are no longer available");
-    }
-
-    // Calculate total amount
-    const totalAmount = cartItems.reduce((sum, item) => {
-      return sum + (parseFloat(item.product.price) * item.quantity);
-    }, 0);
-
-    // Generate order number
-    const orderNumber = await generateOrderNumber();
-
-    // Create order without transaction (Neon HTTP driver doesn't support transactions)
-    const [newOrder] = await db
-      .insert(orders)
-      .values({
-        buyerId: user.userId,
-        orderNumber,
-        totalAmount: totalAmount.toString(),
-        buyerName: orderData.buyerName,
-        buyerEmail: orderData.buyerEmail,
-        buyerPhone: orderData.buyerPhone,
-        shippingAddress: orderData.shippingAddress,
-      })
-      .returning();
-
-    // Create order items
-    const orderItemsData = cartItems.map(item => ({
-      orderId: newOrder.id,
-      productId: item.productId,
-      quantity: item.quantity,
-      price: item.product.price,
-      productName: item.product.name,
-    }));
-
-    await db.insert(orderItems).values(orderItemsData);
-
-    // Clear the cart
-    await db.delete(cart).where(eq(cart.buyerId, user.userId));
-
-    const result = newOrder;
+    // The whole checkout is one serializable transaction: either every sub-order, item, stock
+    // decrement and the cart clear land, or nothing does. Retried when a concurrent checkout wins.
+    const { checkoutId, checkoutNumber, createdOrders } = await runInTransaction(async (tx) => {
+      // Get cart items
+      const cartItems = await tx
+        .select({
+          id: cart.id,
+          productId: cart.productId,
+          quantity: cart.quantity,
+          offerId: offers.id,
+          offerPrice: offers.agreedPrice,
+          lineOfferId: cart.offerId,
+          product: {
+            id: products.id,
+            name: products.name,
+            price: products.price,
+            isActive: products.isActive,
+            sellerId: products.sellerId,
+          },
+        })
+        .from(cart)
+        .innerJoin(products, eq(cart.productId, products.id))
+        .leftJoin(offers, activeCartOfferJoin)
+        .where(eq(cart.buyerId, user.userId));
+
+      if (cartItems.length === 0) {
+        throw new Error("Your cart is empty");
+      }
+
+      // A lapsed offer changes what the buyer pays, so they have to see it in the cart first
+      const lapsedOffer = cartItems.find(item => item.lineOfferId && !item.offerId);
+      if (lapsedOffer) {
+        throw new Error(
+          `Your offer on ${lapsedOffer.product.name} has expired and it's back at the listed price. Please review your cart before placing the order`
+        );
+      }
+
+      // Validate all products are still active
+      const inactiveProducts = cartItems.filter(item => !item.product.isActive);
+      if (inactiveProducts.length > 0) {
+        throw new Error("Some items in your cart are no longer available");
+      }
+
+      // Group cart items by seller, each seller gets their own sub-order
+      const itemsBySeller = new Map<string, typeof cartItems>();
+      for (const item of cartItems) {
+        const sellerItems = itemsBySeller.get(item.product.sellerId) || [];
+        sellerItems.push(item);
+        itemsBySeller.set(item.product.sellerId, sellerItems);
+      }
+
+      // Calculate total amount
+      const totalAmount = cartItems.reduce((sum, item) => {
+        return sum + (parseFloat(getUnitPrice(item.product.price, item.offerPrice)) * item.quantity);
+      }, 0);
+
+      // Take the stock so two buyers can't both check out the last unit
+      await reserveStock(
+        cartItems.map(item => ({
+          productId: item.productId,
+          productName: item.product.name,
+          quantity: item.quantity,
+        })),
+        tx
+      );
+
+      // Number the checkout from the database sequence, sub-orders are numbered after it
+      const numbering = await allocateCheckoutNumber(tx);
+      const { checkoutNumber } = numbering;
+      const formatSubOrderNumber = await getSubOrderNumberFormatter([...itemsBySeller.keys()], tx);
+
+      const [newCheckout] = await tx
+        .insert(checkouts)
+        .values({
+          buyerId: user.userId,
+          checkoutNumber,
+          totalAmount: totalAmount.toString(),
+          buyerName: orderData.buyerName,
+          buyerEmail: orderData.buyerEmail,
+          buyerPhone: orderData.buyerPhone,
+          shippingAddress: orderData.shippingAddress,
+        })
+        .returning();
+
+      const createdOrders: Array<{ id: string; orderNumber: string; sellerId: string }> = [];
+      let part = 1;
+
+      for (const [sellerId, sellerItems] of itemsBySeller) {
+        const sellerTotal = sellerItems.reduce((sum, item) => {
+          return sum + (parseFloat(getUnitPrice(item.product.price, item.offerPrice)) * item.quantity);
+        }, 0);
+
+        const [newOrder] = await tx
+          .insert(orders)
+          .values({
+            checkoutId: newCheckout.id,
+            buyerId: user.userId,
+            sellerId,
+            orderNumber: formatSubOrderNumber(numbering, sellerId, part++),
+            totalAmount: sellerTotal.toString(),
+            buyerName: orderData.buyerName,
+            buyerEmail: orderData.buyerEmail,
+            buyerPhone: orderData.buyerPhone,
+            shippingAddress: orderData.shippingAddress,
+          })
+          .returning();
+
+        // Create order items
+        const orderItemsData = sellerItems.map(item => ({
+          orderId: newOrder.id,
+          productId: item.productId,
+          quantity: item.quantity,
+          price: getUnitPrice(item.product.price, item.offerPrice),
+          productName: item.product.name,
+        }));
+
+        await tx.insert(orderItems).values(orderItemsData);
+
+        await recordOrderCreated(newOrder.id, user.userId, tx);
+
+        createdOrders.push({ id: newOrder.id, orderNumber: newOrder.orderNumber, sellerId });
+      }
+
+      // Offers bought at their agreed price are used up
+      const offerIds = cartItems.flatMap(item => (item.offerId ? [item.offerId] : []));
+      if (offerIds.length > 0) {
+        await tx
+          .update(offers)
+          .set({ status: "purchased", updatedAt: new Date() })
+          .where(inArray(offers.id, offerIds));
+      }
+
+      // Clear the cart
+      await tx.delete(cart).where(eq(cart.buyerId, user.userId));
+
+      return { checkoutId: newCheckout.id, checkoutNumber, createdOrders };
+    });
 
     revalidatePath("/buyer/cart");
     revalidatePath("/buyer/orders");
+    revalidatePath("/seller/orders");
 
     return {
       success: true,
-      orderId: result.id,
-      orderNumber: result.orderNumber,
+      checkoutId,
+      checkoutNumber,
+      orders: createdOrders,
       message: "Order placed successfully",
     };
   } catch (error) {
@@ -135,93 +268,274 @@ export async function createOrder(orderData: OrderData) {
   }
 }
 
-export async function getOrderById(orderId: string): Promise<OrderDetails | null> {
+// Load the status history of the given sub-orders, oldest first, grouped by order id
+async function getHistoryForOrders(orderIds: string[]) {
+  const historyByOrder = new Map<string, OrderStatusHistoryEntry[]>();
+  if (orderIds.length === 0) {
+    return historyByOrder;
+  }
+
+  const historyResult = await db
+    .select({
+      id: orderStatusHistory.id,
+      orderId: orderStatusHistory.orderId,
+      fromStatus: orderStatusHistory.fromStatus,
+      toStatus: orderStatusHistory.toStatus,
+      actorRole: orderStatusHistory.actorRole,
+      note: orderStatusHistory.note,
+      createdAt: orderStatusHistory.createdAt,
+    })
+    .from(orderStatusHistory)
+    .where(inArray(orderStatusHistory.orderId, orderIds))
+    .orderBy(orderStatusHistory.createdAt);
+
+  for (const { orderId, ...entry } of historyResult) {
+    const entries = historyByOrder.get(orderId) || [];
+    entries.push(entry);
+    historyByOrder.set(orderId, entries);
+  }
+
+  return historyByOrder;
+}
+
+// Load the items of the given sub-orders, grouped by order id
+async function getItemsForOrders(orderIds: string[]) {
+  const itemsByOrder = new Map<string, OrderDetails['items']>();
+  if (orderIds.length === 0) {
+    return itemsByOrder;
+  }
+
+  const itemsResult = await db
+    .select({
+      id: orderItems.id,
+      orderId: orderItems.orderId,
+      quantity: orderItems.quantity,
+      price: orderItems.price,
+      productName: orderItems.productName,
+      status: orderItems.status,
+      rejectionReason: orderItems.rejectionReason,
+      statusUpdatedAt: orderItems.statusUpdatedAt,
+      product: {
+        id: products.id,
+        images: products.images,
+        category: products.category,
+        condition: products.condition,
+        location: products.location,
+      },
+      review: {
+        id: reviews.id,
+        rating: reviews.rating,
+        comment: reviews.comment,
+        sellerReply: reviews.sellerReply,
+      },
+    })
+    .from(orderItems)
+    .innerJoin(products, eq(orderItems.productId, products.id))
+    .leftJoin(reviews, eq(reviews.orderItemId, orderItems.id))
+    .where(inArray(orderItems.orderId, orderIds));
+
+  for (const { orderId, ...item } of itemsResult) {
+    const items = itemsByOrder.get(orderId) || [];
+    items.push(item);
+    itemsByOrder.set(orderId, items);
+  }
+
+  return itemsByOrder;
+}
+
+export async function getCheckoutById(checkoutId: string): Promise<CheckoutDetails | null> {
   try {
     const user = await getSession();
     if (!user.isLoggedIn) {
       throw new Error("You must be logged in to view orders");
     }
 
-    // Get order details
-    const orderResult = await db
+    // Get checkout details
+    const checkoutResult = await db
       .select()
-      .from(orders)
-      .where(and(eq(orders.id, orderId), eq(orders.buyerId, user.userId)))
+      .from(checkouts)
+      .where(and(eq(checkouts.id, checkoutId), eq(checkouts.buyerId, user.userId)))
       .limit(1);
 
-    if (!orderResult[0]) {
+    if (!checkoutResult[0]) {
       return null;
     }
 
-    // Get order items
-    const itemsResult = await db
+    // Get the per-seller sub-orders
+    const ordersResult = await db
       .select({
-        id: orderItems.id,
-        quantity: orderItems.quantity,
-        price: orderItems.price,
-        productName: orderItems.productName,
-        product: {
-          id: products.id,
-          images: products.images,
-          category: products.category,
-          condition: products.condition,
-          location: products.location,
+        id: orders.id,
+        checkoutId: orders.checkoutId,
+        orderNumber: orders.orderNumber,
+        totalAmount: orders.totalAmount,
+        status: orders.status,
+        buyerName: orders.buyerName,
+        buyerEmail: orders.buyerEmail,
+        buyerPhone: orders.buyerPhone,
+        shippingAddress: orders.shippingAddress,
+        createdAt: orders.createdAt,
+        seller: {
+          id: users.id,
+          name: users.name,
         },
       })
-      .from(orderItems)
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(orderItems.orderId, orderId));
+      .from(orders)
+      .innerJoin(users, eq(orders.sellerId, users.id))
+      .where(eq(orders.checkoutId, checkoutId))
+      .orderBy(orders.orderNumber);
+
+    const orderIds = ordersResult.map(order => order.id);
+    const [itemsByOrder, historyByOrder] = await Promise.all([
+      getItemsForOrders(orderIds),
+      getHistoryForOrders(orderIds),
+    ]);
+
+    const { buyerId, ...checkout } = checkoutResult[0];
 
     return {
-      ...orderResult[0],
-      items: itemsResult,
+      ...checkout,
+      orders: ordersResult.map(order => ({
+        ...order,
+        items: itemsByOrder.get(order.id) || [],
+        history: historyByOrder.get(order.id) || [],
+      })),
     };
   } catch (error) {
-    console.error("Error fetching order by ID:", error);
+    console.error("Error fetching checkout by ID:", error);
     throw new Error("Failed to fetch order details");
   }
 }
 
-export async function getUserOrders(page: number = 1, limit: number = 10) {
+export async function getOrderById(orderId: string): Promise<OrderDetails | null> {
   try {
     const user = await getSession();
     if (!user.isLoggedIn) {
       throw new Error("You must be logged in to view orders");
     }
 
-    const offset = (page - 1) * limit;
-
-    // Get orders with basic info
-    const ordersResult = await db
+    // Get order details
+    const orderResult = await db
       .select({
         id: orders.id,
+        checkoutId: orders.checkoutId,
         orderNumber: orders.orderNumber,
         totalAmount: orders.totalAmount,
         status: orders.status,
+        buyerName: orders.buyerName,
+        buyerEmail: orders.buyerEmail,
+        buyerPhone: orders.buyerPhone,
+        shippingAddress: orders.shippingAddress,
         createdAt: orders.createdAt,
+        seller: {
+          id: users.id,
+          name: users.name,
+        },
       })
       .from(orders)
-      .where(eq(orders.buyerId, user.userId))
-      .orderBy(sql`${orders.createdAt} DESC`)
-      .limit(limit + 1)
-      .offset(offset);
+      .innerJoin(users, eq(orders.sellerId, users.id))
+      .where(and(eq(orders.id, orderId), eq(orders.buyerId, user.userId)))
+      .limit(1);
 
-    // Check if there are more orders
-    const hasMore = ordersResult.length > limit;
-    const ordersList = hasMore ? ordersResult.slice(0, -1) : ordersResult;
+    if (!orderResult[0]) {
+      return null;
+    }
 
-    // Get total count
-    const totalResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(orders)
-      .where(eq(orders.buyerId, user.userId));
+    // Get order items and status history
+    const [itemsByOrder, historyByOrder] = await Promise.all([
+      getItemsForOrders([orderId]),
+      getHistoryForOrders([orderId]),
+    ]);
 
-    const total = totalResult[0]?.count || 0;
+    return {
+      ...orderResult[0],
+      items: itemsByOrder.get(orderId) || [],
+      history: historyByOrder.get(orderId) || [],
+    };
+  } catch (error) {
+    console.error("Error fetching order by ID:", error);
+    throw new Error("Failed to fetch order details");
+  }
+}
+
+const checkoutSortKeys: SortKey[] = [
+  { expression: checkouts.createdAt, direction: "desc" },
+  { expression: checkouts.id, direction: "desc" },
+];
+
+// Newest checkouts first, paged with the nextCursor of the previous call. The total is only
+// counted when asked for, normally on the first page.
+export async function getUserOrders(
+  { cursor, limit = 10, includeTotal = false }: { cursor?: string; limit?: number; includeTotal?: boolean } = {}
+) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to view orders");
+    }
+
+    const buyerCondition = eq(checkouts.buyerId, user.userId);
+    const pageCondition = cursor
+      ? and(buyerCondition, afterCursor(checkoutSortKeys, decodeCursor(cursor, "checkouts", checkoutSortKeys)))
+      : buyerCondition;
+
+    // Get checkouts with basic info
+    const checkoutsResult = await db
+      .select({
+        id: checkouts.id,
+        checkoutNumber: checkouts.checkoutNumber,
+        totalAmount: checkouts.totalAmount,
+        createdAt: checkouts.createdAt,
+        cursorValues: sortKeyValues(checkoutSortKeys),
+      })
+      .from(checkouts)
+      .where(pageCondition)
+      .orderBy(...orderBySortKeys(checkoutSortKeys))
+      .limit(limit + 1);
+
+    // Check if there are more checkouts
+    const hasMore = checkoutsResult.length > limit;
+    const pageRows = hasMore ? checkoutsResult.slice(0, -1) : checkoutsResult;
+    const lastRow = pageRows[pageRows.length - 1];
+    const checkoutsList = pageRows.map(({ cursorValues, ...checkout }) => checkout);
+
+    // Get the per-seller sub-orders of this page
+    const subOrders = checkoutsList.length > 0
+      ? await db
+          .select({
+            id: orders.id,
+            checkoutId: orders.checkoutId,
+            orderNumber: orders.orderNumber,
+            totalAmount: orders.totalAmount,
+            status: orders.status,
+            sellerName: users.name,
+          })
+          .from(orders)
+          .innerJoin(users, eq(orders.sellerId, users.id))
+          .where(inArray(orders.checkoutId, checkoutsList.map(checkout => checkout.id)))
+          .orderBy(orders.orderNumber)
+      : [];
+
+    // Get total count
+    let total: number | null = null;
+    if (includeTotal) {
+      const totalResult = await db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(checkouts)
+        .where(buyerCondition);
+
+      total = totalResult[0]?.count || 0;
+    }
 
     return {
-      orders: ordersList,
+      checkouts: checkoutsList.map(checkout => ({
+        ...checkout,
+        orders: subOrders
+          .filter(order => order.checkoutId === checkout.id)
+          .map(({ checkoutId, ...order }) => order),
+      })),
       total,
       hasMore,
+      nextCursor: hasMore && lastRow ? encodeCursor("checkouts", lastRow.cursorValues) : null,
     };
   } catch (error) {
     console.error("Error fetching user orders:", error);
@@ -263,41 +577,80 @@ export async function getOrderSummary(orderId: string) {
 export async function cancelOrder(orderId: string) {
   try {
     const user = await getSession();
-    if (!user) {
+    if (!user.isLoggedIn) {
       throw new Error("You must be logged in to cancel orders");
     }
 
-    // Check if order exists and belongs to user
-    const order = await db
-      .select()
-      .from(orders)
-      .where(and(eq(orders.id, orderId), eq(orders.buyerId, user.userId)))
-      .limit(1);
+    // Buyers can only cancel their own orders before the seller confirms them
+    const order = await transitionOrderStatus(orderId, 'cancelled', { role: 'buyer', userId: user.userId }, "Cancelled by buyer");
 
-    if (!order[0]) {
-      throw new Error("Order not found");
+    revalidatePath("/buyer/orders");
+    revalidatePath(`/buyer/orders/${order.checkoutId}`);
+    revalidatePath("/seller/orders");
+
+    return {
+      success: true,
+      message: "Order cancelled successfully",
+    };
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to cancel order");
+  }
+}
+
+export async function confirmOrderReceived(orderId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to update orders");
     }
 
-    if (order[0].status !== 'pending') {
-      throw new Error("Only pending orders can be cancelled");
+    const order = await transitionOrderStatus(orderId, 'completed', { role: 'buyer', userId: user.userId });
+
+    revalidatePath("/buyer/orders");
+    revalidatePath(`/buyer/orders/${order.checkoutId}`);
+    revalidatePath("/seller/orders");
+
+    return {
+      success: true,
+      message: "Thanks for confirming, your order is complete",
+    };
+  } catch (error) {
+    console.error("Error completing order:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to complete order");
+  }
+}
+
+export async function requestOrderReturn(orderId: string, reason: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to request a return");
     }
 
-    // Update order status
-    await db
-      .update(orders)
-      .set({ status: 'cancelled' })
-      .where(eq(orders.id, orderId));
+    const validatedData = returnRequestSchema.parse({ reason });
+
+    const order = await transitionOrderStatus(
+      orderId,
+      'return_requested',
+      { role: 'buyer', userId: user.userId },
+      validatedData.reason
+    );
 
     revalidatePath("/buyer/orders");
-    revalidatePath(`/buyer/orders/${orderId}`);
+    revalidatePath(`/buyer/orders/${order.checkoutId}`);
+    revalidatePath("/seller/orders");
 
     return {
       success: true,
-      message: "Order cancelled successfully",
+      message: "Return requested, the seller will get back to you",
     };
   } catch (error) {
-    console.error("Error cancelling order:", error);
-    throw new Error(error instanceof Error ? error.message : "Failed to cancel order");
+    console.error("Error requesting return:", error);
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Validation failed");
+    }
+    throw new Error(error instanceof Error ? error.message : "Failed to request return");
   }
 }
 
@@ -319,7 +672,7 @@ export async function getOrderStats() {
         totalOrders: sql<number>`count(*)`,
         totalSpent: sql<number>`sum(${orders.totalAmount})`,
         pendingOrders: sql<number>`sum(case when ${orders.status} = 'pending' then 1 else 0 end)`,
-        completedOrders: sql<number>`sum(case when ${orders.status} = 'confirmed' then 1 else 0 end)`,
+        completedOrders: sql<number>`sum(case when ${orders.status} = 'completed' then 1 else 0 end)`,
       })
       .from(orders)
       .where(eq(orders.buyerId, user.userId));
@@ -0,0 +1,78 @@
+// Order number format shared by server actions and UI.
+// Keep this module free of server-only imports so client components can validate numbers too.
+//
+// Checkouts:  RT-2026-000123-3      prefix, year, sequence, check digit
+// Sub-orders: ACME-2026-000123-2-4  seller prefix (or RT), year, checkout sequence, part, check digit
+
+export const DEFAULT_ORDER_PREFIX = 'RT';
+
+const ORDER_NUMBER_PATTERN = /^([A-Z]{2,6})-(\d{4})-(\d{6,})(?:-(\d{1,3}))?-(\d)$/;
+
+export const orderPrefixPattern = /^[A-Z]{2,6}$/;
+
+export interface OrderNumberParts {
+  prefix: string;
+  year: number;
+  sequence: number;
+  part?: number;
+}
+
+// Luhn check digit over the numeric parts, catches any single mistyped digit and most swaps
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+function numericBody({ year, sequence, part }: OrderNumberParts) {
+  const paddedSequence = sequence.toString().padStart(6, '0');
+  return {
+    paddedSequence,
+    digits: `${year}${paddedSequence}${part ?? ''}`,
+  };
+}
+
+export function formatOrderNumber(parts: OrderNumberParts): string {
+  const { paddedSequence, digits } = numericBody(parts);
+  const partSegment = parts.part !== undefined ? `-${parts.part}` : '';
+  return `${parts.prefix}-${parts.year}-${paddedSequence}${partSegment}-${computeCheckDigit(digits)}`;
+}
+
+// Returns null when the number is malformed or its check digit doesn't match
+export function parseOrderNumber(value: string): OrderNumberParts | null {
+  const match = ORDER_NUMBER_PATTERN.exec(value.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+
+  const [, prefix, year, sequence, part, checkDigit] = match;
+  const parts: OrderNumberParts = {
+    prefix,
+    year: Number(year),
+    sequence: Number(sequence),
+    part: part !== undefined ? Number(part) : undefined,
+  };
+
+  if (computeCheckDigit(numericBody(parts).digits) !== Number(checkDigit)) {
+    return null;
+  }
+
+  return parts;
+}
+
+// True when the value is laid out like a current order number, whether or not its check digit matches.
+// Numbers issued before the check digit existed (e.g. RT-123456ABCD-2) don't match.
+export function hasOrderNumberFormat(value: string): boolean {
+  return ORDER_NUMBER_PATTERN.test(value.trim().toUpperCase());
+}
+
+export function isValidOrderNumber(value: string): boolean {
+  return parseOrderNumber(value) !== null;
+}
@@ -0,0 +1,84 @@
+// Order lifecycle definitions shared by server actions and UI.
+// Keep this module free of server-only imports so client components can use it.
+
+export const orderStatuses = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'out_for_delivery',
+  'delivered',
+  'completed',
+  'cancelled',
+  'return_requested',
+  'returned',
+] as const;
+
+export type OrderStatus = typeof orderStatuses[number];
+
+export type OrderActorRole = 'buyer' | 'seller' | 'system';
+
+// Allowed transitions per status and per role. Anything not listed here is rejected.
+export const orderStatusTransitions: Record<OrderStatus, Partial<Record<OrderActorRole, OrderStatus[]>>> = {
+  pending: {
+    buyer: ['cancelled'],
+    seller: ['confirmed', 'cancelled'],
+    system: ['confirmed', 'cancelled'],
+  },
+  confirmed: {
+    seller: ['processing', 'shipped', 'cancelled'],
+  },
+  processing: {
+    seller: ['shipped', 'cancelled'],
+  },
+  shipped: {
+    seller: ['out_for_delivery', 'delivered'],
+  },
+  out_for_delivery: {
+    seller: ['delivered'],
+  },
+  delivered: {
+    buyer: ['completed', 'return_requested'],
+  },
+  return_requested: {
+    // The seller either accepts the return or declines it, which puts the order back to delivered
+    seller: ['returned', 'delivered'],
+  },
+  completed: {},
+  cancelled: {},
+  returned: {},
+};
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  return_requested: 'Return Requested',
+  returned: 'Returned',
+};
+
+export const finalOrderStatuses: OrderStatus[] = ['completed', 'cancelled', 'returned'];
+
+// Buyers can review a sub-order's items once the seller has confirmed it, unless it was
+// cancelled or sent back
+export const reviewableOrderStatuses: OrderStatus[] = [
+  'confirmed',
+  'processing',
+  'shipped',
+  'out_for_delivery',
+  'delivered',
+  'completed',
+];
+
+export function getAllowedTransitions(from: OrderStatus, role: OrderActorRole): OrderStatus[] {
+  return orderStatusTransitions[from]?.[role] || [];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, role: OrderActorRole): boolean {
+  return getAllowedTransitions(from, role).includes(to);
+}
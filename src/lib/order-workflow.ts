@@ -0,0 +1,165 @@
+import { db, type DbExecutor, type Transaction } from "@/db";
+import { runInTransaction } from "@/db/transaction";
+import { checkoutNumberSequence, orderItems, orders, orderStatusHistory, users } from "@/db/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { releaseOrderStock } from "./inventory";
+import { DEFAULT_ORDER_PREFIX, formatOrderNumber } from "./order-number";
+import { canTransition, orderStatusLabels, type OrderActorRole, type OrderStatus } from "./order-status";
+
+// Server-only helpers for moving sub-orders through their lifecycle.
+// Not a server action module on purpose: callers must resolve the actor from the session first.
+
+export interface OrderActor {
+  role: OrderActorRole;
+  userId?: string;
+}
+
+export interface OrderTransition {
+  id: string;
+  checkoutId: string;
+  buyerId: string;
+  sellerId: string;
+  status: OrderStatus;
+  previousStatus: OrderStatus;
+}
+
+export interface CheckoutNumbering {
+  checkoutNumber: string;
+  year: number;
+  sequence: number;
+}
+
+// Draw the next checkout number from the database sequence, so concurrent checkouts can't collide
+export async function allocateCheckoutNumber(executor: DbExecutor = db): Promise<CheckoutNumbering> {
+  const result = await executor.execute<{ value: string }>(
+    sql`select nextval(${checkoutNumberSequence.seqName}) as value`
+  );
+
+  const sequence = Number(result.rows[0]?.value);
+  if (!Number.isSafeInteger(sequence)) {
+    throw new Error("Failed to allocate an order number");
+  }
+
+  const year = new Date().getFullYear();
+  return {
+    checkoutNumber: formatOrderNumber({ prefix: DEFAULT_ORDER_PREFIX, year, sequence }),
+    year,
+    sequence,
+  };
+}
+
+// Build the sub-order number for one seller's part of a checkout, using the seller's prefix if set
+export async function getSubOrderNumberFormatter(sellerIds: string[], executor: DbExecutor = db) {
+  const sellers = sellerIds.length > 0
+    ? await executor
+        .select({ id: users.id, orderPrefix: users.orderPrefix })
+        .from(users)
+        .where(inArray(users.id, sellerIds))
+    : [];
+
+  const prefixes = new Map(sellers.map(seller => [seller.id, seller.orderPrefix]));
+
+  return (numbering: CheckoutNumbering, sellerId: string, part: number) =>
+    formatOrderNumber({
+      prefix: prefixes.get(sellerId) || DEFAULT_ORDER_PREFIX,
+      year: numbering.year,
+      sequence: numbering.sequence,
+      part,
+    });
+}
+
+export async function recordOrderCreated(orderId: string, buyerId: string, executor: DbExecutor = db) {
+  await executor.insert(orderStatusHistory).values({
+    orderId,
+    fromStatus: null,
+    toStatus: 'pending',
+    actorRole: 'buyer',
+    actorId: buyerId,
+  });
+}
+
+// Runs in its own transaction, unless the caller passes the one it is already changing the order's items in
+export async function transitionOrderStatus(
+  orderId: string,
+  toStatus: OrderStatus,
+  actor: OrderActor,
+  note?: string,
+  tx?: Transaction
+): Promise<OrderTransition> {
+  if (!tx) {
+    return runInTransaction(
+      (tx) => transitionOrderStatus(orderId, toStatus, actor, note, tx),
+      { isolationLevel: 'read committed' }
+    );
+  }
+
+  // Lock the order so concurrent changes to it wait for this one
+  const result = await tx
+    .select({
+      id: orders.id,
+      checkoutId: orders.checkoutId,
+      buyerId: orders.buyerId,
+      sellerId: orders.sellerId,
+      status: orders.status,
+    })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1)
+    .for("update");
+
+  const order = result[0];
+
+  // Buyers and sellers can only move their own orders
+  if (
+    !order ||
+    (actor.role === 'buyer' && order.buyerId !== actor.userId) ||
+    (actor.role === 'seller' && order.sellerId !== actor.userId)
+  ) {
+    throw new Error("Order not found");
+  }
+
+  if (!canTransition(order.status, toStatus, actor.role)) {
+    throw new Error(
+      `Order cannot be changed from ${orderStatusLabels[order.status]} to ${orderStatusLabels[toStatus]}`
+    );
+  }
+
+  // The status change, its history entry, any stock release and item settlement land together
+  await tx
+    .update(orders)
+    .set({ status: toStatus })
+    .where(eq(orders.id, orderId));
+
+  // Cancelled orders give their stock back to the listings
+  if (toStatus === 'cancelled') {
+    await releaseOrderStock(orderId, tx);
+  }
+
+  // Confirming or cancelling a whole order settles any items that were still undecided.
+  // Runs after the stock release, which skips items that were already rejected.
+  if (order.status === 'pending' && (toStatus === 'confirmed' || toStatus === 'cancelled')) {
+    await tx
+      .update(orderItems)
+      .set({
+        status: toStatus === 'confirmed' ? 'confirmed' : 'rejected',
+        rejectionReason: toStatus === 'cancelled' ? note || `Order cancelled by ${actor.role}` : null,
+        statusUpdatedAt: new Date(),
+      })
+      .where(and(eq(orderItems.orderId, orderId), eq(orderItems.status, 'pending')));
+  }
+
+  await tx.insert(orderStatusHistory).values({
+    orderId,
+    fromStatus: order.status,
+    toStatus,
+    actorRole: actor.role,
+    actorId: actor.userId || null,
+    note: note || null,
+  });
+
+  return {
+    ...order,
+    previousStatus: order.status,
+    status: toStatus,
+  };
+}
@@ -0,0 +1,250 @@
+"use server";
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { db } from "@/db";
+import { phoneVerificationChallenges, verifiedPhoneNumbers } from "@/db/schema";
+import { and, asc, count, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { runInTransaction } from "@/db/transaction";
+import { getSession } from "./session";
+import { sendSms } from "./sms";
+import {
+  PHONE_CODE_MAX_ATTEMPTS,
+  PHONE_CODE_TTL_MINUTES,
+  generatePhoneCode,
+  hashPhoneCode,
+  normalizePhoneNumber,
+} from "./phone-verification";
+import { phoneVerificationCodeSchema, phoneVerificationRequestSchema } from "./validation-schemas";
+import { revalidatePath } from "next/cache";
+
+// Texts cost money, so sends are spaced out and capped per account
+const CODE_RESEND_COOLDOWN_SECONDS = 60;
+const CODES_PER_DAY = 10;
+
+export interface VerifiedPhone {
+  id: string;
+  phoneNumber: string;
+  verifiedAt: Date;
+}
+
+export async function getMyVerifiedPhoneNumbers(): Promise<VerifiedPhone[]> {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return [];
+    }
+
+    return await db
+      .select({
+        id: verifiedPhoneNumbers.id,
+        phoneNumber: verifiedPhoneNumbers.phoneNumber,
+        verifiedAt: verifiedPhoneNumbers.verifiedAt,
+      })
+      .from(verifiedPhoneNumbers)
+      .where(eq(verifiedPhoneNumbers.userId, session.userId))
+      .orderBy(asc(verifiedPhoneNumbers.verifiedAt));
+  } catch (error) {
+    console.error("Error fetching verified phone numbers:", error);
+    return [];
+  }
+}
+
+// Text a one-time code to the number. Any earlier open code for the same number stops working.
+export async function sendPhoneVerificationCode(data: { phoneNumber: string }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to verify a phone number" };
+    }
+
+    const validatedData = phoneVerificationRequestSchema.parse(data);
+    const phoneNumber = normalizePhoneNumber(validatedData.phoneNumber);
+
+    const alreadyVerified = await db
+      .select({ id: verifiedPhoneNumbers.id })
+      .from(verifiedPhoneNumbers)
+      .where(and(eq(verifiedPhoneNumbers.userId, session.userId), eq(verifiedPhoneNumbers.phoneNumber, phoneNumber)))
+      .limit(1);
+
+    if (alreadyVerified.length > 0) {
+      return { success: false, error: "This number is already verified" };
+    }
+
+    const now = new Date();
+
+    const lastSent = await db
+      .select({ createdAt: phoneVerificationChallenges.createdAt })
+      .from(phoneVerificationChallenges)
+      .where(eq(phoneVerificationChallenges.userId, session.userId))
+      .orderBy(desc(phoneVerificationChallenges.createdAt))
+      .limit(1);
+
+    if (lastSent[0] && now.getTime() - lastSent[0].createdAt.getTime() < CODE_RESEND_COOLDOWN_SECONDS * 1000) {
+      return { success: false, error: "Please wait a minute before requesting another code" };
+    }
+
+    const [sentToday] = await db
+      .select({ count: count() })
+      .from(phoneVerificationChallenges)
+      .where(
+        and(
+          eq(phoneVerificationChallenges.userId, session.userId),
+          gt(phoneVerificationChallenges.createdAt, new Date(now.getTime() - 24 * 60 * 60 * 1000))
+        )
+      );
+
+    if (sentToday.count >= CODES_PER_DAY) {
+      return { success: false, error: "Too many codes requested today. Please try again tomorrow" };
+    }
+
+    const challengeId = randomUUID();
+    const code = generatePhoneCode();
+
+    await runInTransaction(async (tx) => {
+      await tx
+        .update(phoneVerificationChallenges)
+        .set({ consumedAt: now })
+        .where(
+          and(
+            eq(phoneVerificationChallenges.userId, session.userId),
+            eq(phoneVerificationChallenges.phoneNumber, phoneNumber),
+            isNull(phoneVerificationChallenges.consumedAt)
+          )
+        );
+
+      await tx.insert(phoneVerificationChallenges).values({
+        id: challengeId,
+        userId: session.userId,
+        phoneNumber,
+        codeHash: hashPhoneCode(challengeId, code),
+        expiresAt: new Date(now.getTime() + PHONE_CODE_TTL_MINUTES * 60 * 1000),
+      });
+    }, { isolationLevel: "read committed" });
+
+    await sendSms({
+      to: phoneNumber,
+      body: `Your ReTrade verification code is ${code}. It expires in ${PHONE_CODE_TTL_MINUTES} minutes. Don't share it with anyone.`,
+    });
+
+    return { success: true, message: `Code sent to ${phoneNumber}` };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Error sending phone verification code:", error);
+    return { success: false, error: "Failed to send verification code" };
+  }
+}
+
+export async function confirmPhoneVerificationCode(data: { phoneNumber: string; code: string }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to verify a phone number" };
+    }
+
+    const validatedData = phoneVerificationCodeSchema.parse(data);
+    const phoneNumber = normalizePhoneNumber(validatedData.phoneNumber);
+
+    const challenge = await db
+      .select()
+      .from(phoneVerificationChallenges)
+      .where(
+        and(
+          eq(phoneVerificationChallenges.userId, session.userId),
+          eq(phoneVerificationChallenges.phoneNumber, phoneNumber),
+          isNull(phoneVerificationChallenges.consumedAt),
+          gt(phoneVerificationChallenges.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(phoneVerificationChallenges.createdAt))
+      .limit(1);
+
+    if (!challenge[0]) {
+      return { success: false, error: "This code has expired. Please request a new one" };
+    }
+
+    // Count the guess before checking it, so parallel guesses can't exceed the limit
+    const counted = await db
+      .update(phoneVerificationChallenges)
+      .set({ attempts: sql`${phoneVerificationChallenges.attempts} + 1` })
+      .where(
+        and(
+          eq(phoneVerificationChallenges.id, challenge[0].id),
+          isNull(phoneVerificationChallenges.consumedAt),
+          sql`${phoneVerificationChallenges.attempts} < ${PHONE_CODE_MAX_ATTEMPTS}`
+        )
+      )
+      .returning({ id: phoneVerificationChallenges.id });
+
+    if (counted.length === 0) {
+      return { success: false, error: "Too many incorrect attempts. Please request a new code" };
+    }
+
+    const expected = Buffer.from(challenge[0].codeHash, "hex");
+    const actual = Buffer.from(hashPhoneCode(challenge[0].id, validatedData.code), "hex");
+    if (!timingSafeEqual(expected, actual)) {
+      return { success: false, error: "That code is incorrect" };
+    }
+
+    const verified = await runInTransaction(async (tx) => {
+      const consumed = await tx
+        .update(phoneVerificationChallenges)
+        .set({ consumedAt: new Date() })
+        .where(and(eq(phoneVerificationChallenges.id, challenge[0].id), isNull(phoneVerificationChallenges.consumedAt)))
+        .returning({ id: phoneVerificationChallenges.id });
+
+      if (consumed.length === 0) {
+        return false;
+      }
+
+      await tx
+        .insert(verifiedPhoneNumbers)
+        .values({ userId: session.userId, phoneNumber })
+        .onConflictDoNothing();
+
+      return true;
+    }, { isolationLevel: "read committed" });
+
+    if (!verified) {
+      return { success: false, error: "This code has already been used" };
+    }
+
+    revalidatePath("/account/settings");
+    return { success: true, message: `${phoneNumber} is verified` };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Error confirming phone verification code:", error);
+    return { success: false, error: "Failed to verify phone number" };
+  }
+}
+
+// Listings that show this number keep it, but lose their verified badge
+export async function removeVerifiedPhoneNumber(id: string) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to manage phone numbers" };
+    }
+
+    const removed = await db
+      .delete(verifiedPhoneNumbers)
+      .where(and(eq(verifiedPhoneNumbers.id, id), eq(verifiedPhoneNumbers.userId, session.userId)))
+      .returning({ id: verifiedPhoneNumbers.id });
+
+    if (removed.length === 0) {
+      return { success: false, error: "Phone number not found" };
+    }
+
+    revalidatePath("/account/settings");
+    return { success: true, message: "Phone number removed" };
+  } catch (error) {
+    console.error("Error removing verified phone number:", error);
+    return { success: false, error: "Failed to remove phone number" };
+  }
+}
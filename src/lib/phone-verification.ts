@@ -0,0 +1,54 @@
+import { createHash, randomInt } from "node:crypto";
+import { db } from "@/db";
+import { verifiedPhoneNumbers } from "@/db/schema";
+import { and, eq, sql, type AnyColumn } from "drizzle-orm";
+
+// Server-only helpers for SMS-verified phone numbers. Listings may only show a contact number
+// the seller has verified, and discovery queries use contactNumberVerifiedColumn for the badge.
+
+export const PHONE_CODE_LENGTH = 6;
+export const PHONE_CODE_TTL_MINUTES = 10;
+export const PHONE_CODE_MAX_ATTEMPTS = 5;
+
+export const PHONE_NOT_VERIFIED_MESSAGE =
+  "Verify this contact number in your account settings before using it on a listing.";
+
+// "0771234567" and "+94771234567" are the same line; verified numbers are stored in the +94 form
+export function normalizePhoneNumber(phoneNumber: string) {
+  const trimmed = phoneNumber.replace(/\s+/g, "");
+  return trimmed.startsWith("0") ? `+94${trimmed.slice(1)}` : trimmed;
+}
+
+export function generatePhoneCode() {
+  return randomInt(0, 10 ** PHONE_CODE_LENGTH).toString().padStart(PHONE_CODE_LENGTH, "0");
+}
+
+// Salted with the challenge so equal codes don't hash alike across rows
+export function hashPhoneCode(challengeId: string, code: string) {
+  return createHash("sha256").update(`${challengeId}:${code}`).digest("hex");
+}
+
+export async function isVerifiedPhoneNumber(userId: string, phoneNumber: string) {
+  const result = await db
+    .select({ id: verifiedPhoneNumbers.id })
+    .from(verifiedPhoneNumbers)
+    .where(
+      and(
+        eq(verifiedPhoneNumbers.userId, userId),
+        eq(verifiedPhoneNumbers.phoneNumber, normalizePhoneNumber(phoneNumber))
+      )
+    )
+    .limit(1);
+
+  return result.length > 0;
+}
+
+// Whether the listing's contact number is still one of its seller's verified numbers. Checked
+// live, so removing a number from settings drops the badge from every listing using it.
+export function contactNumberVerifiedColumn(sellerIdColumn: AnyColumn, contactNumberColumn: AnyColumn) {
+  return sql<boolean>`exists (
+    select 1 from ${verifiedPhoneNumbers}
+    where ${verifiedPhoneNumbers.userId} = ${sellerIdColumn}
+      and ${verifiedPhoneNumbers.phoneNumber} = regexp_replace(${contactNumberColumn}, '^0', '+94')
+  )`;
+}
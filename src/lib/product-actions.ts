@@ -3,17 +3,53 @@
 import { z } from "zod";
 import { db } from "@/db";
 import { products } from "@/db/schema";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { eq, and, desc, asc, getTableColumns } from "drizzle-orm";
 import { productFormSchema, productSchema } from "./validation-schemas";
 import { uploadMultipleImages, deleteMultipleImages } from "./blob-utils";
 import { revalidatePath } from "next/cache";
 import { requireSellerAuth } from "./session";
+import {
+  notifySavedSearchesOfNewProduct,
+  notifyWatchersOfProductChange,
+  type PublishedProduct,
+  type WatchedProduct,
+} from "./notifications";
+import { EMAIL_NOT_VERIFIED_MESSAGE, isEmailVerified } from "./email-verification";
+import { PHONE_NOT_VERIFIED_MESSAGE, isVerifiedPhoneNumber, normalizePhoneNumber } from "./phone-verification";
+import { expireStaleTrades } from "./trade-expiry";
+
+// Everything but the generated search document, which is only useful inside Postgres
+const { searchVector: _searchVector, ...productColumns } = getTableColumns(products);
+
+// A failed alert shouldn't undo the seller's edit, so errors are only logged
+async function alertWatchers(before: WatchedProduct, after: WatchedProduct) {
+  try {
+    await notifyWatchersOfProductChange(before, after);
+    revalidatePath("/buyer/notifications");
+  } catch (error) {
+    console.error("Product alert error:", error);
+  }
+}
+
+// Same for saved search alerts, the listing is published whether or not they go out
+async function alertSavedSearches(product: PublishedProduct) {
+  try {
+    await notifySavedSearchesOfNewProduct(product);
+    revalidatePath("/buyer/notifications");
+  } catch (error) {
+    console.error("Saved search alert error:", error);
+  }
+}
 
 // Create new product
 export async function createProduct(formData: FormData) {
   try {
     // Get authenticated seller from session
     const session = await requireSellerAuth();
+
+    if (!(await isEmailVerified(session.userId))) {
+      return { success: false, error: EMAIL_NOT_VERIFIED_MESSAGE };
+    }
     
     const rawData = {
       name: formData.get("name") as string,
@@ -24,11 +60,16 @@ export async function createProduct(formData: FormData) {
       price: parseFloat(formData.get("price") as string),
       location: formData.get("location") as string,
       contactNumber: formData.get("contactNumber") as string,
+      availableQuantity: parseInt(formData.get("availableQuantity") as string, 10),
     };
 
     // Validate input data
     const validatedData = productSchema.parse(rawData);
 
+    if (!(await isVerifiedPhoneNumber(session.userId, validatedData.contactNumber))) {
+      return { success: false, error: PHONE_NOT_VERIFIED_MESSAGE };
+    }
+
     // Handle image uploads
     const imageFiles: File[] = [];
     const imageInputs = formData.getAll("images") as File[];
@@ -72,8 +113,11 @@ export async function createProduct(formData: FormData) {
       images: imageUrls,
       location: validatedData.location,
       contactNumber: validatedData.contactNumber,
+      availableQuantity: validatedData.availableQuantity,
       isActive: true,
-    }).returning();
+    }).returning(productColumns);
+
+    await alertSavedSearches(newProduct[0]);
 
     revalidatePath("/seller/products");
     revalidatePath("/seller");
@@ -108,6 +152,7 @@ export async function updateProduct(productId: string, formData: FormData) {
       price: parseFloat(formData.get("price") as string),
       location: formData.get("location") as string,
       contactNumber: formData.get("contactNumber") as string,
+      availableQuantity: parseInt(formData.get("availableQuantity") as string, 10),
     };
 
     // Validate input data
@@ -128,6 +173,13 @@ export async function updateProduct(productId: string, formData: FormData) {
       return { success: false, error: "You can only update your own products" };
     }
 
+    // Listings made before phone verification keep their number until it's changed
+    const contactNumberChanged =
+      normalizePhoneNumber(validatedData.contactNumber) !== normalizePhoneNumber(existingProduct[0].contactNumber);
+    if (contactNumberChanged && !(await isVerifiedPhoneNumber(session.userId, validatedData.contactNumber))) {
+      return { success: false, error: PHONE_NOT_VERIFIED_MESSAGE };
+    }
+
     const currentImages = existingProduct[0].images || [];
     const newImageFiles: File[] = [];
     const imageInputs = formData.getAll("images") as File[];
@@ -183,10 +235,13 @@ export async function updateProduct(productId: string, formData: FormData) {
         images: finalImageUrls,
         location: validatedData.location,
         contactNumber: validatedData.contactNumber,
+        availableQuantity: validatedData.availableQuantity,
         updatedAt: new Date(),
       })
       .where(eq(products.id, productId))
-      .returning();
+      .returning(productColumns);
+
+    await alertWatchers(existingProduct[0], updatedProduct[0]);
 
     revalidatePath("/seller/products");
     revalidatePath("/seller");
@@ -213,6 +268,8 @@ export async function deleteProduct(productId: string) {
     const session = await requireSellerAuth();
     
     // Get product to access images
+    await expireStaleTrades({ productIds: [productId] });
+
     const product = await db
       .select()
       .from(products)
@@ -227,6 +284,10 @@ export async function deleteProduct(productId: string) {
       return { success: false, error: "You can only delete your own products" };
     }
 
+    if (product[0].reservedForTradeId) {
+      return { success: false, error: "This product is part of an open trade, cancel or decline the trade first" };
+    }
+
     const productImages = product[0].images || [];
 
     // Delete images from blob storage
@@ -253,6 +314,8 @@ export async function toggleProductStatus(productId: string) {
     // Get authenticated seller from session
     const session = await requireSellerAuth();
     
+    await expireStaleTrades({ productIds: [productId] });
+
     const product = await db
       .select()
       .from(products)
@@ -267,6 +330,10 @@ export async function toggleProductStatus(productId: string) {
       return { success: false, error: "You can only modify your own products" };
     }
 
+    if (product[0].reservedForTradeId) {
+      return { success: false, error: "This product is part of an open trade, cancel or decline the trade first" };
+    }
+
     const currentStatus = product[0].isActive;
     const newStatus = !currentStatus;
 
@@ -278,6 +345,8 @@ export async function toggleProductStatus(productId: string) {
       })
       .where(eq(products.id, productId));
 
+    await alertWatchers(product[0], { ...product[0], isActive: newStatus });
+
     revalidatePath("/seller/products");
     revalidatePath("/seller");
 
@@ -357,7 +426,7 @@ export async function getSellerProducts(
 
     // Get products
     const sellerProducts = await db
-      .select()
+      .select(productColumns)
       .from(products)
       .where(and(...whereConditions))
       .orderBy(orderBy)
@@ -390,7 +459,7 @@ export async function getSellerProducts(
 export async function getProductById(productId: string) {
   try {
     const product = await db
-      .select()
+      .select(productColumns)
       .from(products)
       .where(eq(products.id, productId));
 
@@ -1,8 +1,32 @@
 "use server";
 
 import { db } from "@/db";
-import { products, users } from "@/db/schema";
-import { and, eq, ilike, or, gte, lte, sql } from "drizzle-orm";
+import { products, productVocabulary, users } from "@/db/schema";
+import { and, asc, desc, eq, sql, type SQL } from "drizzle-orm";
+import { sellerRatingColumns } from "./seller-ratings";
+import { contactNumberVerifiedColumn } from "./phone-verification";
+import {
+  productSearchHeadlines,
+  productSearchMatch,
+  productSearchQuery,
+  productSearchRank,
+  searchWords,
+  toHighlightSegments,
+  type SearchHighlights,
+} from "./product-search";
+import type { ProductSortMode } from "./product-sort";
+import { cityDistanceColumn, isListedCity } from "./city-distance";
+import { getSession } from "./session";
+import { productFilterConditions } from "./product-filters";
+import { expireStaleTrades } from "./trade-expiry";
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  orderBySortKeys,
+  sortKeyValues,
+  type SortKey,
+} from "./keyset-pagination";
 
 export interface ProductFilters {
   search?: string;
@@ -11,11 +35,28 @@ export interface ProductFilters {
   condition?: 'excellent' | 'good' | 'fair';
   priceRange?: { min: number; max: number };
   location?: string[];
+  // Only this seller's listings, used by the public storefront
+  sellerId?: string;
+  // Defaults to relevance while searching and newest otherwise
+  sort?: ProductSortMode;
+  // Reference city for the nearest sort, falls back to the buyer's default location
+  nearCity?: string;
+}
+
+export interface SearchSuggestions {
+  products: Array<{ id: string; name: string }>;
+  categories: string[];
+  locations: string[];
+  // Respellings of the term using words from live listings, only when the term matches nothing
+  didYouMean: string[];
 }
 
 export interface PaginationParams {
-  page?: number;
+  // nextCursor from the previous page, omitted for the first page
+  cursor?: string;
   limit?: number;
+  // Counting every match is a second query, so only do it when the caller shows the number
+  includeTotal?: boolean;
 }
 
 export interface ProductsResponse {
@@ -30,14 +71,25 @@ export interface ProductsResponse {
     images: string[] | null;
     location: string;
     contactNumber: string;
+    // The seller has verified the contact number by SMS
+    contactNumberVerified: boolean;
+    availableQuantity: number;
+    reservedForTradeId: string | null;
     createdAt: Date;
     seller: {
+      id: string;
       name: string;
       email: string;
+      ratingAverage: number | null;
+      ratingCount: number;
     };
+    // Matched words in the name and a description excerpt, only when searching
+    highlights: SearchHighlights | null;
   }>;
-  total: number;
+  // Only set when includeTotal was asked for
+  total: number | null;
   hasMore: boolean;
+  nextCursor: string | null;
 }
 
 export async function getProducts(
@@ -45,56 +97,15 @@ export async function getProducts(
   pagination: PaginationParams = {}
 ): Promise<ProductsResponse> {
   try {
-    const { page = 1, limit = 20 } = pagination;
-    const offset = (page - 1) * limit;
-
-    // Build where conditions
-    const conditions = [eq(products.isActive, true)];
-
-    // Search filter
-    if (filters.search) {
-      conditions.push(
-        or(
-          ilike(products.name, `%${filters.search}%`),
-          ilike(products.description, `%${filters.search}%`),
-          ilike(products.category, `%${filters.search}%`)
-        )!
-      );
-    }
-
-    // Category filter
-    if (filters.category && filters.category.length > 0) {
-      conditions.push(
-        or(...filters.category.map(cat => eq(products.category, cat)))!
-      );
-    }
-
-    // Product type filter
-    if (filters.productType) {
-      conditions.push(eq(products.productType, filters.productType));
-    }
+    const { cursor, limit = 20, includeTotal = false } = pagination;
 
-    // Condition filter
-    if (filters.condition) {
-      conditions.push(eq(products.condition, filters.condition));
-    }
-
-    // Price range filter
-    if (filters.priceRange) {
-      if (filters.priceRange.min) {
-        conditions.push(gte(products.price, filters.priceRange.min.toString()));
-      }
-      if (filters.priceRange.max) {
-        conditions.push(lte(products.price, filters.priceRange.max.toString()));
-      }
-    }
+    const conditions = productFilterConditions(filters);
+    const searchQuery = filters.search ? productSearchQuery(filters.search) : null;
 
-    // Location filter
-    if (filters.location && filters.location.length > 0) {
-      conditions.push(
-        or(...filters.location.map(loc => eq(products.location, loc)))!
-      );
-    }
+    const order = await getProductOrder(filters, searchQuery);
+    const pageConditions = cursor
+      ? [...conditions, afterCursor(order.keys, decodeCursor(cursor, order.scope, order.keys))]
+      : conditions;
 
     // Get products with seller info
     const result = await db
@@ -109,36 +120,57 @@ export async function getProducts(
         images: products.images,
         location: products.location,
         contactNumber: products.contactNumber,
+        contactNumberVerified: contactNumberVerifiedColumn(products.sellerId, products.contactNumber),
+        availableQuantity: products.availableQuantity,
+        reservedForTradeId: products.reservedForTradeId,
         createdAt: products.createdAt,
         seller: {
+          id: users.id,
           name: users.name,
           email: users.email,
+          ...sellerRatingColumns(users.id),
         },
+        ...(searchQuery
+          ? productSearchHeadlines(searchQuery)
+          : { nameHeadline: sql<string | null>`null`, descriptionHeadline: sql<string | null>`null` }),
+        cursorValues: sortKeyValues(order.keys),
       })
       .from(products)
       .innerJoin(users, eq(products.sellerId, users.id))
-      .where(and(...conditions))
-      .orderBy(sql`${products.createdAt} DESC`)
-      .limit(limit + 1)
-      .offset(offset);
+      .where(and(...pageConditions))
+      .orderBy(...orderBySortKeys(order.keys))
+      .limit(limit + 1);
 
     // Check if there are more products
     const hasMore = result.length > limit;
-    const productsData = hasMore ? result.slice(0, -1) : result;
+    const pageRows = hasMore ? result.slice(0, -1) : result;
+    const lastRow = pageRows[pageRows.length - 1];
+    const productsData = pageRows.map(
+      ({ nameHeadline, descriptionHeadline, cursorValues, ...product }) => ({
+        ...product,
+        highlights: nameHeadline !== null && descriptionHeadline !== null
+          ? { name: toHighlightSegments(nameHeadline), description: toHighlightSegments(descriptionHeadline) }
+          : null,
+      })
+    );
 
-    // Get total count for pagination
-    const totalResult = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(products)
-      .innerJoin(users, eq(products.sellerId, users.id))
-      .where(and(...conditions));
+    // Get total count for pagination, across all pages
+    let total: number | null = null;
+    if (includeTotal) {
+      const totalResult = await db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(products)
+        .innerJoin(users, eq(products.sellerId, users.id))
+        .where(and(...conditions));
 
-    const total = totalResult[0]?.count || 0;
+      total = totalResult[0]?.count || 0;
+    }
 
     return {
       products: productsData,
       total,
       hasMore,
+      nextCursor: hasMore && lastRow ? encodeCursor(order.scope, lastRow.cursorValues) : null,
     };
   } catch (error) {
     console.error("Error fetching products:", error);
@@ -146,6 +178,71 @@ export async function getProducts(
   }
 }
 
+// Sort keys for a listing page, with a scope naming the ordering for its cursors. Every mode
+// ends on created date and id, so rows that tie on price, distance or rating keep one order.
+async function getProductOrder(
+  filters: ProductFilters,
+  searchQuery: SQL | null
+): Promise<{ scope: string; keys: SortKey[] }> {
+  const sort = filters.sort ?? (searchQuery ? "relevance" : "newest");
+  const tiebreakers: SortKey[] = [
+    { expression: products.createdAt, direction: "desc" },
+    { expression: products.id, direction: "desc" },
+  ];
+
+  switch (sort) {
+    case "relevance":
+      return searchQuery
+        ? { scope: "relevance", keys: [{ expression: productSearchRank(searchQuery), direction: "desc" }, ...tiebreakers] }
+        : { scope: "newest", keys: tiebreakers };
+    case "price_asc":
+      return { scope: sort, keys: [{ expression: products.price, direction: "asc" }, ...tiebreakers] };
+    case "price_desc":
+      return { scope: sort, keys: [{ expression: products.price, direction: "desc" }, ...tiebreakers] };
+    case "nearest": {
+      const city = await resolveNearCity(filters.nearCity);
+      return city
+        ? { scope: `nearest:${city}`, keys: [{ expression: cityDistanceColumn(products.location, city), direction: "asc" }, ...tiebreakers] }
+        : { scope: "newest", keys: tiebreakers };
+    }
+    case "top_rated": {
+      // Unrated sellers count as -1 so they sort last and the key is never null
+      const { ratingAverage, ratingCount } = sellerRatingColumns(users.id);
+      return {
+        scope: sort,
+        keys: [
+          { expression: sql`coalesce(${ratingAverage}, -1)`, direction: "desc" },
+          { expression: ratingCount, direction: "desc" },
+          ...tiebreakers,
+        ],
+      };
+    }
+    case "newest":
+    default:
+      return { scope: "newest", keys: tiebreakers };
+  }
+}
+
+async function resolveNearCity(nearCity: string | undefined) {
+  if (isListedCity(nearCity)) {
+    return nearCity;
+  }
+
+  const session = await getSession();
+  if (!session.isLoggedIn) {
+    return null;
+  }
+
+  const result = await db
+    .select({ defaultLocation: users.defaultLocation, city: users.city })
+    .from(users)
+    .where(eq(users.id, session.userId))
+    .limit(1);
+
+  const city = result[0]?.defaultLocation ?? result[0]?.city;
+  return isListedCity(city) ? city : null;
+}
+
 export async function searchProducts(query: string): Promise<ProductsResponse> {
   try {
     return await getProducts({ search: query });
@@ -157,6 +254,8 @@ export async function searchProducts(query: string): Promise<ProductsResponse> {
 
 export async function getProductById(id: string) {
   try {
+    await expireStaleTrades({ productIds: [id] });
+
     const result = await db
       .select({
         id: products.id,
@@ -169,6 +268,9 @@ export async function getProductById(id: string) {
         images: products.images,
         location: products.location,
         contactNumber: products.contactNumber,
+        contactNumberVerified: contactNumberVerifiedColumn(products.sellerId, products.contactNumber),
+        availableQuantity: products.availableQuantity,
+        isReserved: sql<boolean>`${products.reservedForTradeId} is not null`,
         createdAt: products.createdAt,
         updatedAt: products.updatedAt,
         seller: {
@@ -176,6 +278,7 @@ export async function getProductById(id: string) {
           name: users.name,
           email: users.email,
           phone: users.phone,
+          ...sellerRatingColumns(users.id),
         },
       })
       .from(products)
@@ -202,6 +305,8 @@ export async function getRelatedProducts(sellerId: string, currentProductId: str
         price: products.price,
         images: products.images,
         location: products.location,
+        availableQuantity: products.availableQuantity,
+        reservedForTradeId: products.reservedForTradeId,
         createdAt: products.createdAt,
       })
       .from(products)
@@ -251,3 +356,92 @@ export async function getProductLocations() {
     throw new Error("Failed to fetch locations");
   }
 }
+
+// Trigram similarity a category or location needs to be suggested (0-1)
+const SUGGESTION_SIMILARITY = 0.4;
+
+// As-you-type suggestions for the search box. Names, categories and locations are matched
+// by trigram similarity, so "chiar" still suggests "Office chair".
+export async function getSearchSuggestions(term: string): Promise<SearchSuggestions> {
+  try {
+    const query = term.trim().slice(0, 100);
+    if (query.length < 2) {
+      return { products: [], categories: [], locations: [], didYouMean: [] };
+    }
+
+    const nameSimilarity = sql<number>`word_similarity(${query}, ${products.name})`;
+    const categorySimilarity = sql<number>`word_similarity(${query}, ${products.category})`;
+    const locationSimilarity = sql<number>`word_similarity(${query}, ${products.location})`;
+
+    const [productMatches, categoryMatches, locationMatches, didYouMean] = await Promise.all([
+      db
+        .select({ id: products.id, name: products.name })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`${query} <% ${products.name}`))
+        .orderBy(desc(nameSimilarity), asc(products.name))
+        .limit(5),
+      db
+        .select({ category: products.category })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`${categorySimilarity} >= ${SUGGESTION_SIMILARITY}`))
+        .groupBy(products.category)
+        .orderBy(desc(categorySimilarity))
+        .limit(3),
+      db
+        .select({ location: products.location })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`${locationSimilarity} >= ${SUGGESTION_SIMILARITY}`))
+        .groupBy(products.location)
+        .orderBy(desc(locationSimilarity))
+        .limit(3),
+      getDidYouMean(query),
+    ]);
+
+    return {
+      products: productMatches,
+      categories: categoryMatches.map(item => item.category),
+      locations: locationMatches.map(item => item.location),
+      didYouMean,
+    };
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    throw new Error("Failed to fetch search suggestions");
+  }
+}
+
+// Only the first few words of a term are respelled, each one is a lookup
+const MAX_CORRECTED_WORDS = 4;
+
+// When a term finds no listings, swap each word for the closest word used in a live listing's
+// name or category. Returns nothing if the term already matches or no word could be improved.
+async function getDidYouMean(query: string): Promise<string[]> {
+  const searchQuery = productSearchQuery(query);
+  if (!searchQuery) {
+    return [];
+  }
+
+  const existing = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(and(eq(products.isActive, true), productSearchMatch(searchQuery)))
+    .limit(1);
+
+  if (existing.length > 0) {
+    return [];
+  }
+
+  const words = searchWords(query);
+  const corrections = await Promise.all(words.slice(0, MAX_CORRECTED_WORDS).map(async (word) => {
+    const result = await db
+      .select({ word: productVocabulary.word })
+      .from(productVocabulary)
+      .where(sql`${productVocabulary.word} % ${word}`)
+      .orderBy(desc(sql`similarity(${productVocabulary.word}, ${word})`), asc(productVocabulary.word))
+      .limit(1);
+
+    return result[0]?.word ?? word;
+  }));
+
+  const corrected = [...corrections, ...words.slice(MAX_CORRECTED_WORDS)].join(" ");
+  return corrected !== words.join(" ") ? [corrected] : [];
+}
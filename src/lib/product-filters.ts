@@ -0,0 +1,63 @@
+import { and, eq, or, gte, lte, type SQL } from "drizzle-orm";
+import { products } from "@/db/schema";
+import type { ProductFilters } from "./product-discovery-actions";
+import { productSearchMatch, productSearchQuery } from "./product-search";
+
+// Server-only WHERE conditions for ProductFilters. The listing pages and saved search alerts
+// both build on these, so a listing that triggers an alert also shows up when the search is
+// opened. Sort options don't narrow the results and are ignored here.
+export function productFilterConditions(filters: ProductFilters): SQL[] {
+  const conditions = [eq(products.isActive, true)];
+
+  // Search filter, full-text over name, category and description
+  const searchQuery = filters.search ? productSearchQuery(filters.search) : null;
+  if (searchQuery) {
+    conditions.push(productSearchMatch(searchQuery));
+  }
+
+  // Category filter
+  if (filters.category && filters.category.length > 0) {
+    conditions.push(
+      or(...filters.category.map(cat => eq(products.category, cat)))!
+    );
+  }
+
+  // Product type filter
+  if (filters.productType) {
+    conditions.push(eq(products.productType, filters.productType));
+  }
+
+  // Condition filter
+  if (filters.condition) {
+    conditions.push(eq(products.condition, filters.condition));
+  }
+
+  // Price range filter
+  if (filters.priceRange) {
+    if (filters.priceRange.min) {
+      conditions.push(gte(products.price, filters.priceRange.min.toString()));
+    }
+    if (filters.priceRange.max) {
+      conditions.push(lte(products.price, filters.priceRange.max.toString()));
+    }
+  }
+
+  // Location filter
+  if (filters.location && filters.location.length > 0) {
+    conditions.push(
+      or(...filters.location.map(loc => eq(products.location, loc)))!
+    );
+  }
+
+  // Seller filter
+  if (filters.sellerId) {
+    conditions.push(eq(products.sellerId, filters.sellerId));
+  }
+
+  return conditions;
+}
+
+// All conditions as one, for checking a single listing against several filter sets at once
+export function productMatchesFilters(filters: ProductFilters): SQL {
+  return and(...productFilterConditions(filters))!;
+}
@@ -0,0 +1,78 @@
+import { products } from "@/db/schema";
+import { sql, type SQL } from "drizzle-orm";
+
+// Server-only SQL for full-text product search over products.search_vector. Terms are
+// stemmed, so "chairs" finds "chair", and the last word matches as a prefix for
+// search-as-you-type. Highlights come back as plain-text segments rather than HTML, so
+// listing text is never rendered as markup.
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlights {
+  name: HighlightSegment[];
+  description: HighlightSegment[];
+}
+
+// Characters from the Unicode private use area, which won't appear in listing text
+const MATCH_START = "\uE000";
+const MATCH_END = "\uE001";
+
+const HEADLINE_OPTIONS =
+  `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const MAX_SEARCH_WORDS = 8;
+
+// The words of a search box string, lowercased and without punctuation
+export function searchWords(search: string) {
+  return (search.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_SEARCH_WORDS);
+}
+
+// The tsquery for a search box string, or null when it has nothing searchable in it
+export function productSearchQuery(search: string): SQL | null {
+  const words = searchWords(search);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const terms = words.map((word, index) => (index === words.length - 1 ? `${word}:*` : word));
+  return sql`to_tsquery('english', ${terms.join(" & ")})`;
+}
+
+export function productSearchMatch(query: SQL) {
+  return sql`${products.searchVector} @@ ${query}`;
+}
+
+export function productSearchRank(query: SQL) {
+  return sql<number>`ts_rank(${products.searchVector}, ${query})`;
+}
+
+export function productSearchHeadlines(query: SQL) {
+  return {
+    nameHeadline: sql<string>`ts_headline('english', ${products.name}, ${query}, ${HEADLINE_OPTIONS})`,
+    descriptionHeadline: sql<string>`ts_headline('english', ${products.description}, ${query}, ${HEADLINE_OPTIONS})`,
+  };
+}
+
+// Split a ts_headline result into highlighted and plain runs
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const pattern = new RegExp(`${MATCH_START}(.*?)${MATCH_END}`, "gs");
+  let lastIndex = 0;
+
+  for (const match of headline.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: headline.slice(lastIndex, match.index), match: false });
+    }
+    segments.push({ text: match[1], match: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < headline.length) {
+    segments.push({ text: headline.slice(lastIndex), match: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,26 @@
+// Sort modes for buyer product listings. Kept out of the "use server" actions file so client
+// pages can import the list for their sort menus and URL parsing.
+
+export const productSortModes = [
+  "relevance",
+  "newest",
+  "price_asc",
+  "price_desc",
+  "nearest",
+  "top_rated",
+] as const;
+
+export type ProductSortMode = (typeof productSortModes)[number];
+
+export const productSortLabels: Record<ProductSortMode, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  nearest: "Nearest to me",
+  top_rated: "Best-rated sellers",
+};
+
+export function parseProductSortMode(value: string | null | undefined): ProductSortMode | undefined {
+  return productSortModes.find(mode => mode === value);
+}
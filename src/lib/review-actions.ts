@@ -0,0 +1,231 @@
+"use server";
+
+import { z } from "zod";
+import { db } from "@/db";
+import { orderItems, orders, reviews, users } from "@/db/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { reviewReplySchema, reviewSchema } from "./validation-schemas";
+import { reviewableOrderStatuses } from "./order-status";
+import { sellerRatingColumns, type SellerRating } from "./seller-ratings";
+import { revalidatePath } from "next/cache";
+
+export interface SellerReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  sellerReply: string | null;
+  sellerRepliedAt: Date | null;
+  createdAt: Date;
+  productName: string;
+  buyer: {
+    name: string;
+  };
+}
+
+export interface SellerReviews {
+  seller: {
+    id: string;
+    name: string;
+    joinedAt: Date;
+  };
+  rating: SellerRating;
+  // Number of reviews per star, index 0 holding the 1-star count
+  distribution: number[];
+  reviews: SellerReview[];
+}
+
+function revalidateReviewPaths(sellerId: string) {
+  revalidatePath("/buyer/orders");
+  revalidatePath("/seller/reviews");
+  revalidatePath(`/sellers/${sellerId}`);
+}
+
+const sellerReviewColumns = {
+  id: reviews.id,
+  rating: reviews.rating,
+  comment: reviews.comment,
+  sellerReply: reviews.sellerReply,
+  sellerRepliedAt: reviews.sellerRepliedAt,
+  createdAt: reviews.createdAt,
+  productName: orderItems.productName,
+  buyer: {
+    name: users.name,
+  },
+};
+
+// Rate the seller of an item the buyer ordered, once the seller has confirmed the order
+export async function createReview(orderItemId: string, data: { rating: number; comment?: string }) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to leave a review");
+    }
+
+    const validatedData = reviewSchema.parse(data);
+
+    const itemResult = await db
+      .select({
+        productId: orderItems.productId,
+        itemStatus: orderItems.status,
+        orderStatus: orders.status,
+        sellerId: orders.sellerId,
+        reviewId: reviews.id,
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(reviews, eq(reviews.orderItemId, orderItems.id))
+      .where(and(eq(orderItems.id, orderItemId), eq(orders.buyerId, user.userId)))
+      .limit(1);
+
+    const item = itemResult[0];
+    if (!item) {
+      throw new Error("Order item not found");
+    }
+
+    if (item.reviewId) {
+      throw new Error("You've already reviewed this item");
+    }
+
+    if (item.itemStatus === "rejected" || !reviewableOrderStatuses.includes(item.orderStatus)) {
+      throw new Error("You can review this item once the seller has confirmed your order");
+    }
+
+    // The unique order item constraint settles a double submit
+    const inserted = await db
+      .insert(reviews)
+      .values({
+        orderItemId,
+        productId: item.productId,
+        sellerId: item.sellerId,
+        buyerId: user.userId,
+        rating: validatedData.rating,
+        comment: validatedData.comment || null,
+      })
+      .onConflictDoNothing({ target: reviews.orderItemId })
+      .returning({ id: reviews.id });
+
+    if (!inserted[0]) {
+      throw new Error("You've already reviewed this item");
+    }
+
+    revalidateReviewPaths(item.sellerId);
+    return { success: true, message: "Thanks for your review" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid review");
+    }
+    console.error("Error creating review:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to submit review");
+  }
+}
+
+// Sellers get one public reply per review, and it can't be edited afterwards
+export async function replyToReview(reviewId: string, reply: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn || user.role !== "seller") {
+      throw new Error("You must be logged in as a seller to reply to reviews");
+    }
+
+    const validatedData = reviewReplySchema.parse({ reply });
+
+    const updated = await db
+      .update(reviews)
+      .set({ sellerReply: validatedData.reply, sellerRepliedAt: new Date() })
+      .where(
+        and(
+          eq(reviews.id, reviewId),
+          eq(reviews.sellerId, user.userId),
+          isNull(reviews.sellerReply)
+        )
+      )
+      .returning({ id: reviews.id });
+
+    if (!updated[0]) {
+      throw new Error("Review not found or already replied to");
+    }
+
+    revalidateReviewPaths(user.userId);
+    return { success: true, message: "Reply posted" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid reply");
+    }
+    console.error("Error replying to review:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to post reply");
+  }
+}
+
+// Public rating summary and reviews for a seller, newest first
+export async function getSellerReviews(sellerId: string, limit = 50): Promise<SellerReviews | null> {
+  try {
+    const sellerResult = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        joinedAt: users.createdAt,
+        ...sellerRatingColumns(users.id),
+      })
+      .from(users)
+      .where(and(eq(users.id, sellerId), eq(users.userType, "seller")))
+      .limit(1);
+
+    if (!sellerResult[0]) {
+      return null;
+    }
+
+    const [reviewRows, distributionRows] = await Promise.all([
+      db
+        .select(sellerReviewColumns)
+        .from(reviews)
+        .innerJoin(orderItems, eq(reviews.orderItemId, orderItems.id))
+        .innerJoin(users, eq(reviews.buyerId, users.id))
+        .where(eq(reviews.sellerId, sellerId))
+        .orderBy(desc(reviews.createdAt))
+        .limit(limit),
+      db
+        .select({ rating: reviews.rating, count: sql<number>`count(*)`.mapWith(Number) })
+        .from(reviews)
+        .where(eq(reviews.sellerId, sellerId))
+        .groupBy(reviews.rating),
+    ]);
+
+    const distribution = [0, 0, 0, 0, 0];
+    for (const row of distributionRows) {
+      distribution[row.rating - 1] = row.count;
+    }
+
+    const { ratingAverage, ratingCount, ...seller } = sellerResult[0];
+    return {
+      seller,
+      rating: { average: ratingAverage, count: ratingCount },
+      distribution,
+      reviews: reviewRows,
+    };
+  } catch (error) {
+    console.error("Error fetching seller reviews:", error);
+    throw new Error("Failed to fetch reviews");
+  }
+}
+
+// Reviews left for the current seller, for the dashboard where they reply
+export async function getMyReviews(): Promise<SellerReview[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn || user.role !== "seller") {
+      return [];
+    }
+
+    return await db
+      .select(sellerReviewColumns)
+      .from(reviews)
+      .innerJoin(orderItems, eq(reviews.orderItemId, orderItems.id))
+      .innerJoin(users, eq(reviews.buyerId, users.id))
+      .where(eq(reviews.sellerId, user.userId))
+      .orderBy(desc(reviews.createdAt));
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    throw new Error("Failed to fetch reviews");
+  }
+}
@@ -0,0 +1,164 @@
+"use server";
+
+import { z } from "zod";
+import { db } from "@/db";
+import { notifications, savedSearches } from "@/db/schema";
+import { and, count, desc, eq, inArray, isNull } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { revalidatePath } from "next/cache";
+import { savedSearchSchema, type SavedSearchFilters } from "./validation-schemas";
+
+// Every new listing is checked against every saved search, so each buyer gets a handful
+const MAX_SAVED_SEARCHES = 20;
+
+export interface SavedSearchItem {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  emailDigest: boolean;
+  // Alerts raised by this search that the buyer hasn't read yet
+  unreadMatches: number;
+  createdAt: Date;
+}
+
+async function requireBuyerSession(action: string) {
+  const user = await getSession();
+  if (!user.isLoggedIn) {
+    throw new Error(`You must be logged in to ${action}`);
+  }
+
+  if (user.role !== "buyer") {
+    throw new Error("Only buyers can save searches");
+  }
+
+  return user;
+}
+
+export async function getSavedSearches(): Promise<SavedSearchItem[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    const searches = await db
+      .select({
+        id: savedSearches.id,
+        name: savedSearches.name,
+        filters: savedSearches.filters,
+        emailDigest: savedSearches.emailDigest,
+        createdAt: savedSearches.createdAt,
+      })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, user.userId))
+      .orderBy(desc(savedSearches.createdAt));
+
+    if (searches.length === 0) {
+      return [];
+    }
+
+    const unread = await db
+      .select({ savedSearchId: notifications.savedSearchId, count: count() })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, user.userId),
+          inArray(notifications.savedSearchId, searches.map(search => search.id)),
+          isNull(notifications.readAt)
+        )
+      )
+      .groupBy(notifications.savedSearchId);
+
+    const unreadBySearch = new Map(unread.map(row => [row.savedSearchId, row.count]));
+
+    return searches.map(search => ({
+      ...search,
+      unreadMatches: unreadBySearch.get(search.id) ?? 0,
+    }));
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    throw new Error("Failed to fetch saved searches");
+  }
+}
+
+export async function saveSearch(input: { name: string; filters: SavedSearchFilters; emailDigest: boolean }) {
+  try {
+    const user = await requireBuyerSession("save searches");
+    const validatedData = savedSearchSchema.parse(input);
+
+    const existing = await db
+      .select({ count: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, user.userId));
+
+    if ((existing[0]?.count ?? 0) >= MAX_SAVED_SEARCHES) {
+      throw new Error(`You can save up to ${MAX_SAVED_SEARCHES} searches, delete one to make room`);
+    }
+
+    const now = new Date();
+    await db.insert(savedSearches).values({
+      userId: user.userId,
+      name: validatedData.name,
+      filters: validatedData.filters,
+      emailDigest: validatedData.emailDigest,
+      lastDigestAt: now,
+    });
+
+    revalidatePath("/buyer/saved-searches");
+    return { success: true, message: "Search saved. We'll let you know when new listings match" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid search");
+    }
+    console.error("Error saving search:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to save search");
+  }
+}
+
+// Turning the digest on starts it from now, so earlier matches already seen in the app
+// aren't emailed in one go
+export async function setSavedSearchDigest(savedSearchId: string, emailDigest: boolean) {
+  try {
+    const user = await requireBuyerSession("update saved searches");
+
+    const updated = await db
+      .update(savedSearches)
+      .set({
+        emailDigest,
+        ...(emailDigest ? { lastDigestAt: new Date() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(savedSearches.id, savedSearchId), eq(savedSearches.userId, user.userId)))
+      .returning({ id: savedSearches.id });
+
+    if (!updated[0]) {
+      throw new Error("Saved search not found");
+    }
+
+    revalidatePath("/buyer/saved-searches");
+    return {
+      success: true,
+      message: emailDigest ? "You'll get a daily email when new listings match" : "Daily emails turned off",
+    };
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update saved search");
+  }
+}
+
+// Alerts the search already raised stay in the notification center
+export async function deleteSavedSearch(savedSearchId: string) {
+  try {
+    const user = await requireBuyerSession("delete saved searches");
+
+    await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, savedSearchId), eq(savedSearches.userId, user.userId)));
+
+    revalidatePath("/buyer/saved-searches");
+    return { success: true, message: "Saved search deleted" };
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to delete saved search");
+  }
+}
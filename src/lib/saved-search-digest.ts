@@ -0,0 +1,85 @@
+import { db } from "@/db";
+import { notifications, products, savedSearches, users } from "@/db/schema";
+import { and, asc, eq, gt, inArray, isNotNull, lte, sql } from "drizzle-orm";
+import { sendSavedSearchDigestEmail, type SavedSearchDigest } from "./account-emails";
+
+// Server-only daily email of saved search matches, run by the cron route. Each saved search
+// remembers when it was last emailed, so a skipped run only makes the next email longer and a
+// repeated run finds nothing new to send.
+
+interface PendingDigest {
+  to: { email: string; name: string };
+  searches: Map<string, SavedSearchDigest>;
+}
+
+export async function sendSavedSearchDigests() {
+  // Matches alerted while this runs wait for the next digest
+  const cutoff = new Date();
+
+  const rows = await db
+    .select({
+      savedSearchId: savedSearches.id,
+      searchName: savedSearches.name,
+      userId: users.id,
+      userName: users.name,
+      email: users.email,
+      productId: products.id,
+      productName: products.name,
+      price: products.price,
+      location: products.location,
+    })
+    .from(notifications)
+    .innerJoin(savedSearches, eq(notifications.savedSearchId, savedSearches.id))
+    .innerJoin(users, eq(savedSearches.userId, users.id))
+    .innerJoin(products, eq(notifications.productId, products.id))
+    .where(
+      and(
+        eq(notifications.type, "saved_search_match"),
+        eq(savedSearches.emailDigest, true),
+        // Digests only go to confirmed addresses
+        isNotNull(users.emailVerifiedAt),
+        // Listings taken down or sold out since the alert aren't worth emailing
+        eq(products.isActive, true),
+        gt(products.availableQuantity, 0),
+        gt(notifications.createdAt, sql`coalesce(${savedSearches.lastDigestAt}, ${savedSearches.createdAt})`),
+        lte(notifications.createdAt, cutoff)
+      )
+    )
+    .orderBy(asc(users.id), asc(savedSearches.createdAt), asc(notifications.createdAt));
+
+  const digests = new Map<string, PendingDigest>();
+  for (const row of rows) {
+    let digest = digests.get(row.userId);
+    if (!digest) {
+      digest = { to: { email: row.email, name: row.userName }, searches: new Map() };
+      digests.set(row.userId, digest);
+    }
+
+    let search = digest.searches.get(row.savedSearchId);
+    if (!search) {
+      search = { name: row.searchName, matches: [] };
+      digest.searches.set(row.savedSearchId, search);
+    }
+
+    search.matches.push({ id: row.productId, name: row.productName, price: row.price, location: row.location });
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const digest of digests.values()) {
+    try {
+      await sendSavedSearchDigestEmail(digest.to, [...digest.searches.values()]);
+      await db
+        .update(savedSearches)
+        .set({ lastDigestAt: cutoff })
+        .where(inArray(savedSearches.id, [...digest.searches.keys()]));
+      sent++;
+    } catch (error) {
+      // Left for the next run, which picks up from the same point
+      console.error("Saved search digest error:", error);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
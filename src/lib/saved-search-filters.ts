@@ -0,0 +1,70 @@
+import type { SavedSearchFilters } from "./validation-schemas";
+
+// Helpers for showing and reopening saved searches. Kept free of server imports so the
+// save dialog and the saved searches page can use them as well as the validation schema.
+
+// Without a term or a filter a saved search would match every new listing
+export function hasSavedSearchCriteria(filters: SavedSearchFilters) {
+  return Boolean(
+    filters.search?.trim() ||
+    filters.category?.length ||
+    filters.productType ||
+    filters.condition ||
+    filters.priceRange?.min ||
+    filters.priceRange?.max ||
+    filters.location?.length
+  );
+}
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat('en-LK', {
+    style: 'currency',
+    currency: 'LKR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// A one-line summary such as: "fridge" · Kandy · Under LKR 30,000
+export function describeSavedSearch(filters: SavedSearchFilters) {
+  const parts: string[] = [];
+
+  if (filters.search?.trim()) parts.push(`"${filters.search.trim()}"`);
+  if (filters.category?.length) parts.push(filters.category.join(", "));
+  if (filters.productType) parts.push(capitalize(filters.productType));
+  if (filters.condition) parts.push(`${capitalize(filters.condition)} condition`);
+  if (filters.location?.length) parts.push(filters.location.join(", "));
+
+  const min = filters.priceRange?.min || 0;
+  const max = filters.priceRange?.max || 0;
+  if (min && max) {
+    parts.push(`${formatPrice(min)} to ${formatPrice(max)}`);
+  } else if (max) {
+    parts.push(`Under ${formatPrice(max)}`);
+  } else if (min) {
+    parts.push(`Over ${formatPrice(min)}`);
+  }
+
+  return parts.join(" · ");
+}
+
+// The products page URL that shows the saved search's results, using the page's own params
+export function savedSearchUrl(filters: SavedSearchFilters) {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set("search", filters.search);
+  filters.category?.forEach(cat => params.append("category", cat));
+  if (filters.productType) params.set("productType", filters.productType);
+  if (filters.condition) params.set("condition", filters.condition);
+  if (filters.priceRange?.min) params.set("minPrice", filters.priceRange.min.toString());
+  if (filters.priceRange?.max) params.set("maxPrice", filters.priceRange.max.toString());
+  filters.location?.forEach(loc => params.append("location", loc));
+  if (filters.sort) params.set("sort", filters.sort);
+  if (filters.nearCity) params.set("near", filters.nearCity);
+
+  return `/buyer/products?${params.toString()}`;
+}
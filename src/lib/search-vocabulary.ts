@@ -0,0 +1,11 @@
+import { db } from "@/db";
+import { productVocabulary } from "@/db/schema";
+
+// Server-only upkeep of the word list behind "did you mean" search corrections. Rebuilding it on
+// every listing change would cost more than a slightly stale list, so the cron route refreshes
+// it on a schedule instead.
+
+// Concurrently, so searches keep reading the old words while the new list is built
+export async function refreshSearchVocabulary() {
+  await db.refreshMaterializedView(productVocabulary).concurrently();
+}
@@ -0,0 +1,315 @@
+"use server";
+
+import { z } from "zod";
+import { db, type Transaction } from "@/db";
+import { orders, orderItems, products, users } from "@/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { requireSellerAuth } from "@/lib/session";
+import { orderItemRejectionSchema, orderPrefixSchema, orderStatusNoteSchema } from "./validation-schemas";
+import { revalidatePath } from "next/cache";
+import { transitionOrderStatus } from "./order-workflow";
+import { releaseStock } from "./inventory";
+import { runInTransaction } from "@/db/transaction";
+import type { OrderStatus } from "./order-status";
+
+export type OrderItemStatus = 'pending' | 'confirmed' | 'rejected';
+
+export interface SellerOrderItem {
+  id: string;
+  quantity: number;
+  price: string;
+  productName: string;
+  status: OrderItemStatus;
+  rejectionReason: string | null;
+  statusUpdatedAt: Date | null;
+  product: {
+    id: string;
+    images: string[] | null;
+  };
+  order: {
+    id: string;
+    orderNumber: string;
+    status: OrderStatus;
+    buyerName: string;
+    buyerEmail: string;
+    buyerPhone: string;
+    shippingAddress: string;
+    createdAt: Date;
+  };
+}
+
+// Once every item of an order has been decided by its seller, roll the result up to the order:
+// confirmed if at least one item was confirmed, cancelled if every item was rejected.
+async function syncOrderStatus(orderId: string, tx: Transaction) {
+  const items = await tx
+    .select({ status: orderItems.status })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+
+  if (items.length === 0 || items.some(item => item.status === 'pending')) {
+    return;
+  }
+
+  const newStatus = items.some(item => item.status === 'confirmed') ? 'confirmed' : 'cancelled';
+
+  const order = await tx
+    .select({ status: orders.status })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .limit(1);
+
+  if (order[0]?.status === newStatus) {
+    return;
+  }
+
+  const note = newStatus === 'confirmed' ? "Seller confirmed the items" : "Seller rejected every item";
+
+  await transitionOrderStatus(orderId, newStatus, { role: 'system' }, note, tx);
+}
+
+// Load an order item for the current seller, making sure it can still be decided. Locks the
+// order until the transaction ends, so items and the order status are decided one at a time.
+async function getPendingSellerOrderItem(orderItemId: string, sellerId: string, tx: Transaction) {
+  const result = await tx
+    .select({
+      id: orderItems.id,
+      orderId: orderItems.orderId,
+      productId: orderItems.productId,
+      quantity: orderItems.quantity,
+      checkoutId: orders.checkoutId,
+      status: orderItems.status,
+      orderStatus: orders.status,
+    })
+    .from(orderItems)
+    .innerJoin(orders, eq(orderItems.orderId, orders.id))
+    .where(and(eq(orderItems.id, orderItemId), eq(orders.sellerId, sellerId)))
+    .limit(1)
+    .for("update");
+
+  const item = result[0];
+  if (!item) {
+    throw new Error("Order item not found");
+  }
+
+  if (item.orderStatus === 'cancelled') {
+    throw new Error("This order has been cancelled by the buyer");
+  }
+
+  if (item.orderStatus !== 'pending') {
+    throw new Error("This order can no longer be changed");
+  }
+
+  if (item.status !== 'pending') {
+    throw new Error(`This item has already been ${item.status}`);
+  }
+
+  return item;
+}
+
+export async function getSellerOrderItems(status?: OrderItemStatus): Promise<SellerOrderItem[]> {
+  try {
+    const session = await requireSellerAuth();
+
+    // Sellers only ever see their own sub-orders
+    const conditions = [eq(orders.sellerId, session.userId)];
+    if (status) {
+      conditions.push(eq(orderItems.status, status));
+    }
+
+    const result = await db
+      .select({
+        id: orderItems.id,
+        quantity: orderItems.quantity,
+        price: orderItems.price,
+        productName: orderItems.productName,
+        status: orderItems.status,
+        rejectionReason: orderItems.rejectionReason,
+        statusUpdatedAt: orderItems.statusUpdatedAt,
+        product: {
+          id: products.id,
+          images: products.images,
+        },
+        order: {
+          id: orders.id,
+          orderNumber: orders.orderNumber,
+          status: orders.status,
+          buyerName: orders.buyerName,
+          buyerEmail: orders.buyerEmail,
+          buyerPhone: orders.buyerPhone,
+          shippingAddress: orders.shippingAddress,
+          createdAt: orders.createdAt,
+        },
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(and(...conditions))
+      .orderBy(sql`${orders.createdAt} DESC`);
+
+    return result;
+  } catch (error) {
+    console.error("Error fetching seller order items:", error);
+    throw new Error("Failed to fetch orders");
+  }
+}
+
+export async function getSellerPendingOrderCount(): Promise<number> {
+  try {
+    const session = await requireSellerAuth();
+
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(
+        and(
+          eq(orders.sellerId, session.userId),
+          eq(orderItems.status, 'pending'),
+          eq(orders.status, 'pending')
+        )
+      );
+
+    return Number(result[0]?.count || 0);
+  } catch (error) {
+    console.error("Error fetching pending order count:", error);
+    return 0;
+  }
+}
+
+export async function confirmOrderItem(orderItemId: string) {
+  try {
+    const session = await requireSellerAuth();
+
+    // The item and the order status it rolls up to change together
+    const item = await runInTransaction(async (tx) => {
+      const item = await getPendingSellerOrderItem(orderItemId, session.userId, tx);
+
+      await tx
+        .update(orderItems)
+        .set({
+          status: 'confirmed',
+          rejectionReason: null,
+          statusUpdatedAt: new Date(),
+        })
+        .where(eq(orderItems.id, item.id));
+
+      await syncOrderStatus(item.orderId, tx);
+      return item;
+    }, { isolationLevel: 'read committed' });
+
+    revalidatePath("/seller/orders");
+    revalidatePath(`/buyer/orders/${item.checkoutId}`);
+
+    return { success: true, message: "Order item confirmed" };
+  } catch (error) {
+    console.error("Error confirming order item:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to confirm order item");
+  }
+}
+
+export async function rejectOrderItem(orderItemId: string, reason: string) {
+  try {
+    const session = await requireSellerAuth();
+    const validatedData = orderItemRejectionSchema.parse({ reason });
+
+    const item = await runInTransaction(async (tx) => {
+      const item = await getPendingSellerOrderItem(orderItemId, session.userId, tx);
+
+      await tx
+        .update(orderItems)
+        .set({
+          status: 'rejected',
+          rejectionReason: validatedData.reason,
+          statusUpdatedAt: new Date(),
+        })
+        .where(eq(orderItems.id, item.id));
+
+      // Rejected items no longer hold stock
+      await releaseStock([item], tx);
+
+      await syncOrderStatus(item.orderId, tx);
+      return item;
+    }, { isolationLevel: 'read committed' });
+
+    revalidatePath("/seller/orders");
+    revalidatePath(`/buyer/orders/${item.checkoutId}`);
+
+    return { success: true, message: "Order item rejected" };
+  } catch (error) {
+    console.error("Error rejecting order item:", error);
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Validation failed");
+    }
+    throw new Error(error instanceof Error ? error.message : "Failed to reject order item");
+  }
+}
+
+// Move one of the seller's sub-orders to the next lifecycle status
+export async function updateSellerOrderStatus(orderId: string, toStatus: OrderStatus, note?: string) {
+  try {
+    const session = await requireSellerAuth();
+    const validatedNote = orderStatusNoteSchema.parse(note);
+
+    // Pending items are settled in the same transaction as the status change
+    const order = await transitionOrderStatus(
+      orderId,
+      toStatus,
+      { role: 'seller', userId: session.userId },
+      validatedNote
+    );
+
+    revalidatePath("/seller/orders");
+    revalidatePath(`/buyer/orders/${order.checkoutId}`);
+
+    return { success: true, message: "Order status updated" };
+  } catch (error) {
+    console.error("Error updating order status:", error);
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Validation failed");
+    }
+    throw new Error(error instanceof Error ? error.message : "Failed to update order status");
+  }
+}
+
+export async function getSellerOrderPrefix(): Promise<string | null> {
+  try {
+    const session = await requireSellerAuth();
+
+    const result = await db
+      .select({ orderPrefix: users.orderPrefix })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    return result[0]?.orderPrefix || null;
+  } catch (error) {
+    console.error("Error fetching order prefix:", error);
+    return null;
+  }
+}
+
+// Set the prefix used for the seller's future sub-order numbers, an empty prefix resets to the default
+export async function updateSellerOrderPrefix(prefix: string) {
+  try {
+    const session = await requireSellerAuth();
+    const validatedData = orderPrefixSchema.parse({ prefix });
+
+    await db
+      .update(users)
+      .set({
+        orderPrefix: validatedData.prefix,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, session.userId));
+
+    revalidatePath("/seller/orders");
+
+    return { success: true, message: "Order number prefix updated", prefix: validatedData.prefix };
+  } catch (error) {
+    console.error("Error updating order prefix:", error);
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Validation failed");
+    }
+    throw new Error(error instanceof Error ? error.message : "Failed to update order number prefix");
+  }
+}
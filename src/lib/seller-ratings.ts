@@ -0,0 +1,25 @@
+import { reviews } from "@/db/schema";
+import { sql, type AnyColumn } from "drizzle-orm";
+
+// Server-only SQL for a seller's aggregate rating. Discovery queries embed these so the
+// rating always reflects the latest reviews without a denormalised counter to keep in sync.
+
+export interface SellerRating {
+  // Average stars rounded to one decimal, null until the seller's first review
+  average: number | null;
+  count: number;
+}
+
+// Correlated subqueries that rate the seller in the given column of the outer query
+export function sellerRatingColumns(sellerIdColumn: AnyColumn) {
+  return {
+    ratingAverage: sql<number | null>`(
+      select round(avg(${reviews.rating}), 1) from ${reviews}
+      where ${reviews.sellerId} = ${sellerIdColumn}
+    )`.mapWith((value) => (value === null ? null : Number(value))),
+    ratingCount: sql<number>`(
+      select count(*) from ${reviews}
+      where ${reviews.sellerId} = ${sellerIdColumn}
+    )`.mapWith(Number),
+  };
+}
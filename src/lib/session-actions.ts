@@ -0,0 +1,124 @@
+"use server";
+
+import { db } from "@/db";
+import { sessions } from "@/db/schema";
+import { and, eq, gt, isNull, sql } from "drizzle-orm";
+import { destroySession, getCurrentSessionId, getSession, revokeUserSessions } from "@/lib/session";
+import { revalidatePath } from "next/cache";
+
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  isCurrent: boolean;
+}
+
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to view your sessions");
+    }
+
+    const currentSessionId = await getCurrentSessionId();
+
+    const result = await db
+      .select({
+        id: sessions.id,
+        userAgent: sessions.userAgent,
+        ipAddress: sessions.ipAddress,
+        createdAt: sessions.createdAt,
+        lastSeenAt: sessions.lastSeenAt,
+      })
+      .from(sessions)
+      .where(
+        and(
+          eq(sessions.userId, user.userId),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(sql`${sessions.lastSeenAt} DESC`);
+
+    return result.map(session => ({
+      ...session,
+      isCurrent: session.id === currentSessionId,
+    }));
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to fetch sessions");
+  }
+}
+
+export async function revokeSession(sessionId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to manage sessions");
+    }
+
+    const currentSessionId = await getCurrentSessionId();
+
+    // Revoking the current device is the same as logging out
+    if (sessionId === currentSessionId) {
+      await destroySession();
+      return {
+        success: true,
+        message: "Signed out of this device",
+        redirectPath: "/login",
+      };
+    }
+
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.userId, user.userId),
+          isNull(sessions.revokedAt)
+        )
+      )
+      .returning({ id: sessions.id });
+
+    if (!revoked[0]) {
+      throw new Error("Session not found");
+    }
+
+    revalidatePath("/account/sessions");
+    return { success: true, message: "Session revoked" };
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to revoke session");
+  }
+}
+
+export async function revokeAllSessions(options: { includeCurrent?: boolean } = {}) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to manage sessions");
+    }
+
+    if (options.includeCurrent) {
+      await revokeUserSessions(user.userId);
+      await destroySession();
+      return {
+        success: true,
+        message: "Signed out of all devices",
+        redirectPath: "/login",
+      };
+    }
+
+    const currentSessionId = await getCurrentSessionId();
+    await revokeUserSessions(user.userId, currentSessionId || undefined);
+
+    revalidatePath("/account/sessions");
+    return { success: true, message: "Signed out of all other devices" };
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to revoke sessions");
+  }
+}
@@ -0,0 +1,217 @@
+// Session token sealing/unsealing.
+//
+// This module only relies on Web Crypto so it can run both in server
+// components/actions (Node.js) and in the edge middleware.
+//
+// Token format: `<version>.<kid>.<payload>.<signature>`
+//   - version: "s1" (signed JSON) or "e1" (AES-GCM encrypted, then signed)
+//   - kid: short fingerprint of the secret used, so rotated keys can be found
+//   - payload: base64url JSON, or base64url(iv + ciphertext) when encrypted
+//   - signature: base64url HMAC-SHA256 over `<version>.<kid>.<payload>`
+//
+// Environment:
+//   SESSION_SECRET            current secret, used to sign new tokens
+//   SESSION_PREVIOUS_SECRETS  comma-separated old secrets still accepted for verification
+//   SESSION_ENCRYPT           "true" to encrypt the payload as well as signing it
+
+export const SESSION_COOKIE_NAME = 're-trade-session';
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days, in seconds
+
+export interface SessionTokenPayload {
+  sessionId: string;
+  userId: string;
+  email: string;
+  name: string;
+  role: 'buyer' | 'seller';
+  iat: number;
+  exp: number;
+}
+
+interface SessionKey {
+  kid: string;
+  hmacKey: CryptoKey;
+  encKey: CryptoKey;
+}
+
+const DEV_FALLBACK_SECRET = 're-trade-dev-session-secret-do-not-use-in-production';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let keyringPromise: Promise<SessionKey[]> | null = null;
+
+function getSecrets(): string[] {
+  const current = process.env.SESSION_SECRET;
+  const previous = (process.env.SESSION_PREVIOUS_SECRETS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+  if (!current) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set in production');
+    }
+    console.warn('SESSION_SECRET is not set, using an insecure development secret');
+    return [DEV_FALLBACK_SECRET, ...previous];
+  }
+
+  if (current.length < 32) {
+    console.warn('SESSION_SECRET should be at least 32 characters long');
+  }
+
+  return [current, ...previous];
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(secret: string): Promise<SessionKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+  const salt = encoder.encode('re-trade-session');
+
+  const hmacKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('sign') },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  );
+
+  const encKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('encrypt') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(secret));
+  const kid = toBase64Url(new Uint8Array(digest).slice(0, 6));
+
+  return { kid, hmacKey, encKey };
+}
+
+async function getKeyring(): Promise<SessionKey[]> {
+  if (!keyringPromise) {
+    keyringPromise = Promise.all(getSecrets().map(deriveKey)).catch(error => {
+      keyringPromise = null;
+      throw error;
+    });
+  }
+  return keyringPromise;
+}
+
+function isValidPayload(value: unknown): value is SessionTokenPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  return (
+    typeof payload.sessionId === 'string' && payload.sessionId.length > 0 &&
+    typeof payload.userId === 'string' && payload.userId.length > 0 &&
+    typeof payload.email === 'string' &&
+    typeof payload.name === 'string' &&
+    (payload.role === 'buyer' || payload.role === 'seller') &&
+    typeof payload.iat === 'number' &&
+    typeof payload.exp === 'number'
+  );
+}
+
+export function generateSessionId(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function sealSession(
+  data: Omit<SessionTokenPayload, 'iat' | 'exp'>,
+  maxAge: number = SESSION_MAX_AGE
+): Promise<string> {
+  const [key] = await getKeyring();
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionTokenPayload = { ...data, iat: now, exp: now + maxAge };
+  const plaintext = encoder.encode(JSON.stringify(payload));
+
+  let version: string;
+  let body: string;
+
+  if (process.env.SESSION_ENCRYPT === 'true') {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key.encKey, plaintext)
+    );
+    const combined = new Uint8Array(iv.length + ciphertext.length);
+    combined.set(iv);
+    combined.set(ciphertext, iv.length);
+    version = 'e1';
+    body = toBase64Url(combined);
+  } else {
+    version = 's1';
+    body = toBase64Url(plaintext);
+  }
+
+  const signingInput = `${version}.${key.kid}.${body}`;
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('HMAC', key.hmacKey, encoder.encode(signingInput))
+  );
+
+  return `${signingInput}.${toBase64Url(signature)}`;
+}
+
+// Returns the payload if the token is authentic and not expired, otherwise null.
+export async function unsealSession(token: string | undefined | null): Promise<SessionTokenPayload | null> {
+  if (!token) return null;
+
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 4) return null;
+
+    const [version, kid, body, signature] = parts;
+    if (version !== 's1' && version !== 'e1') return null;
+
+    const keyring = await getKeyring();
+    const key = keyring.find(candidate => candidate.kid === kid);
+    if (!key) return null;
+
+    const isValidSignature = await crypto.subtle.verify(
+      'HMAC',
+      key.hmacKey,
+      fromBase64Url(signature),
+      encoder.encode(`${version}.${kid}.${body}`)
+    );
+    if (!isValidSignature) return null;
+
+    let plaintext: Uint8Array<ArrayBuffer>;
+    if (version === 'e1') {
+      const combined = fromBase64Url(body);
+      const iv = combined.slice(0, 12);
+      const ciphertext = combined.slice(12);
+      plaintext = new Uint8Array(
+        await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key.encKey, ciphertext)
+      );
+    } else {
+      plaintext = fromBase64Url(body);
+    }
+
+    const payload: unknown = JSON.parse(decoder.decode(plaintext));
+    if (!isValidPayload(payload)) return null;
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,9 @@
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { redirect } from 'next/navigation';
+import { and, eq, gt, isNull, ne } from 'drizzle-orm';
+import { db } from '@/db';
+import { sessions, users } from '@/db/schema';
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE, generateSessionId, sealSession, unsealSession } from './session-token';
 
 export interface SessionData {
   userId: string;
@@ -9,38 +13,116 @@ export interface SessionData {
   isLoggedIn: boolean;
 }
 
-// Temporary session management using Next.js cookies
-// TODO: Replace with iron-session when package is available
+const loggedOutSession: SessionData = {
+  userId: '',
+  email: '',
+  name: '',
+  role: 'buyer',
+  isLoggedIn: false,
+};
+
+// Only write last-seen info back to the database at most this often per session
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Session data lives in a signed (and optionally encrypted) cookie, see session-token.ts.
+// The cookie only points at a row in the sessions table, which is what makes a
+// session valid, so revoking the row logs that device out. The user's name and email are
+// read from their row on every request, so a change shows up on all their devices at once.
+// Tampered, expired, revoked or malformed sessions are treated as logged out.
+
+// The client's address as seen by the proxies in front of the app. Each proxy appends the address
+// it received the request from to x-forwarded-for, so only the last TRUSTED_PROXY_HOPS entries
+// (default 1) are trustworthy and anything to their left was sent by the client. Without the
+// header, fall back to x-real-ip, which the hosting platform sets itself.
+function trustedClientIp(forwardedFor: string | null, realIp: string | null) {
+  const hops = forwardedFor?.split(',').map(hop => hop.trim()).filter(Boolean) || [];
+  const trustedHops = Math.max(Number(process.env.TRUSTED_PROXY_HOPS) || 1, 1);
+
+  if (hops.length > 0) {
+    return hops[Math.max(hops.length - trustedHops, 0)];
+  }
+  return realIp?.trim() || null;
+}
+
+export async function getClientInfo() {
+  const headerStore = await headers();
+  const ipAddress = trustedClientIp(headerStore.get('x-forwarded-for'), headerStore.get('x-real-ip'));
+  const userAgent = headerStore.get('user-agent');
+
+  return {
+    ipAddress: ipAddress ? ipAddress.slice(0, 45) : null,
+    userAgent: userAgent || null,
+  };
+}
+
+async function findActiveSession(sessionId: string, userId: string) {
+  const result = await db
+    .select({
+      id: sessions.id,
+      ipAddress: sessions.ipAddress,
+      userAgent: sessions.userAgent,
+      lastSeenAt: sessions.lastSeenAt,
+      name: users.name,
+      email: users.email,
+    })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return result[0] || null;
+}
+
+export async function getCurrentSessionId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const payload = await unsealSession(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+  return payload?.sessionId || null;
+}
 
 export async function getSession(): Promise<SessionData> {
   const cookieStore = await cookies();
-  const sessionCookie = cookieStore.get('re-trade-session');
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME);
   
-  if (!sessionCookie?.value) {
-    return {
-      userId: '',
-      email: '',
-      name: '',
-      role: 'buyer',
-      isLoggedIn: false,
-    };
+  const payload = await unsealSession(sessionCookie?.value);
+  if (!payload) {
+    return { ...loggedOutSession };
   }
   
+  let activeSession: Awaited<ReturnType<typeof findActiveSession>>;
   try {
-    const sessionData = JSON.parse(decodeURIComponent(sessionCookie.value));
-    return {
-      ...sessionData,
-      isLoggedIn: true,
-    };
+    activeSession = await findActiveSession(payload.sessionId, payload.userId);
+    if (!activeSession) {
+      return { ...loggedOutSession };
+    }
+
+    // Record last-seen time and the device's current IP/user agent
+    const { ipAddress, userAgent } = await getClientInfo();
+    const isStale = Date.now() - activeSession.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS;
+    if (isStale || activeSession.ipAddress !== ipAddress || activeSession.userAgent !== userAgent) {
+      await db
+        .update(sessions)
+        .set({ lastSeenAt: new Date(), ipAddress, userAgent })
+        .where(eq(sessions.id, activeSession.id));
+    }
   } catch (error) {
-    return {
-      userId: '',
-      email: '',
-      name: '',
-      role: 'buyer',
-      isLoggedIn: false,
-    };
+    console.error('Session lookup error:', error);
+    return { ...loggedOutSession };
   }
+  
+  return {
+    userId: payload.userId,
+    email: activeSession.email,
+    name: activeSession.name,
+    role: payload.role,
+    isLoggedIn: true,
+  };
 }
 
 export async function createSession(userData: Omit<SessionData, 'isLoggedIn'>): Promise<SessionData> {
@@ -50,12 +132,31 @@ export async function createSession(userData: Omit<SessionData, 'isLoggedIn'>):
     isLoggedIn: true,
   };
   
-  // Set cookie with session data
-  cookieStore.set('re-trade-session', JSON.stringify(sessionData), {
+  // Store the session server-side so it can be listed and revoked
+  const sessionId = generateSessionId();
+  const { ipAddress, userAgent } = await getClientInfo();
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId: userData.userId,
+    ipAddress,
+    userAgent,
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE * 1000),
+  });
+  
+  const token = await sealSession({
+    sessionId,
+    userId: userData.userId,
+    email: userData.email,
+    name: userData.name,
+    role: userData.role,
+  });
+  
+  // Set cookie with the sealed session token
+  cookieStore.set(SESSION_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SESSION_MAX_AGE,
   });
   
   return sessionData;
@@ -63,7 +164,29 @@ export async function createSession(userData: Omit<SessionData, 'isLoggedIn'>):
 
 export async function destroySession(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete('re-trade-session');
+  const sessionId = await getCurrentSessionId();
+  
+  if (sessionId) {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(eq(sessions.id, sessionId));
+  }
+  
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+// Revoke every active session of a user, optionally keeping one (e.g. the current device)
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+  const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+  if (exceptSessionId) {
+    conditions.push(ne(sessions.id, exceptSessionId));
+  }
+  
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(...conditions));
 }
 
 export async function requireAuth(role?: 'buyer' | 'seller'): Promise<SessionData> {
@@ -0,0 +1,65 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Outgoing SMS behind a provider interface. Only a local stub ships with the app; a real
+// gateway is plugged in with setSmsProvider (or a new case below) once one is chosen.
+//
+// Environment:
+//   SMS_PROVIDER   "stub" (default outside production). Production has no default and must be configured.
+//   SMS_FILE_DIR   when set, the stub also writes each message there as JSON (e.g. .sms)
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Logs messages instead of sending them, so OTP codes can be read from the dev server output
+export function createStubSmsProvider(directory = process.env.SMS_FILE_DIR): SmsProvider {
+  return {
+    async send(message) {
+      console.info(`[sms] to=${message.to}\n${message.body}`);
+
+      if (directory) {
+        await mkdir(directory, { recursive: true });
+        const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+        await writeFile(
+          path.join(directory, filename),
+          JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+        );
+      }
+    },
+  };
+}
+
+let provider: SmsProvider | null = null;
+
+function getProvider(): SmsProvider {
+  if (!provider) {
+    const kind = process.env.SMS_PROVIDER
+      || (process.env.NODE_ENV === "production" ? undefined : "stub");
+
+    switch (kind) {
+      case "stub":
+        provider = createStubSmsProvider();
+        break;
+      case undefined:
+        throw new Error("SMS_PROVIDER must be set to send text messages in production");
+      default:
+        throw new Error(`Unknown SMS_PROVIDER "${kind}"`);
+    }
+  }
+
+  return provider;
+}
+
+export function setSmsProvider(next: SmsProvider | null) {
+  provider = next;
+}
+
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await getProvider().send(message);
+}
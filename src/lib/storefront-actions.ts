@@ -0,0 +1,176 @@
+"use server";
+
+import { z } from "zod";
+import { db } from "@/db";
+import { conversations, messages, users } from "@/db/schema";
+import { and, count, eq, isNotNull, sql } from "drizzle-orm";
+import { requireSellerAuth } from "./session";
+import { storefrontSchema } from "./validation-schemas";
+import { deleteImage, uploadImage } from "./blob-utils";
+import { sellerRatingColumns, type SellerRating } from "./seller-ratings";
+import { revalidatePath } from "next/cache";
+
+export interface SellerStorefront {
+  id: string;
+  name: string;
+  bio: string | null;
+  avatarUrl: string | null;
+  city: string | null;
+  joinedAt: Date;
+  rating: SellerRating;
+  responseStats: SellerResponseStats;
+}
+
+export interface SellerResponseStats {
+  // Buyer conversations the seller has been asked in
+  conversationCount: number;
+  // Share of those the seller answered, 0-100, null before the first conversation
+  responseRate: number | null;
+  // Average time to the seller's first reply, null until they've replied once
+  averageResponseHours: number | null;
+}
+
+export interface StorefrontProfile {
+  bio: string | null;
+  avatarUrl: string | null;
+  city: string | null;
+}
+
+// How quickly a seller answers buyers, measured from each buyer's first message in a
+// conversation to the seller's first reply after it
+async function getResponseStats(sellerId: string): Promise<SellerResponseStats> {
+  const firstMessages = db
+    .select({
+      askedAt: sql<Date | null>`min(${messages.createdAt}) filter (where ${messages.senderId} = ${conversations.buyerId})`.as("asked_at"),
+      repliedAt: sql<Date | null>`min(${messages.createdAt}) filter (where ${messages.senderId} = ${conversations.sellerId})`.as("replied_at"),
+    })
+    .from(conversations)
+    .innerJoin(messages, eq(messages.conversationId, conversations.id))
+    .where(eq(conversations.sellerId, sellerId))
+    .groupBy(conversations.id)
+    .as("first_messages");
+
+  const result = await db
+    .select({
+      total: count(),
+      replied: sql<number>`count(*) filter (where ${firstMessages.repliedAt} >= ${firstMessages.askedAt})`.mapWith(Number),
+      averageSeconds: sql<number | null>`avg(extract(epoch from (${firstMessages.repliedAt} - ${firstMessages.askedAt}))) filter (where ${firstMessages.repliedAt} >= ${firstMessages.askedAt})`
+        .mapWith((value) => (value === null ? null : Number(value))),
+    })
+    .from(firstMessages)
+    .where(isNotNull(firstMessages.askedAt));
+
+  const { total = 0, replied = 0, averageSeconds = null } = result[0] ?? {};
+
+  return {
+    conversationCount: total,
+    responseRate: total > 0 ? Math.round((replied / total) * 100) : null,
+    averageResponseHours: averageSeconds === null ? null : Math.round((averageSeconds / 3600) * 10) / 10,
+  };
+}
+
+// Public details for a seller's storefront page
+export async function getSellerStorefront(sellerId: string): Promise<SellerStorefront | null> {
+  try {
+    const result = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        bio: users.bio,
+        avatarUrl: users.avatarUrl,
+        city: users.city,
+        joinedAt: users.createdAt,
+        ...sellerRatingColumns(users.id),
+      })
+      .from(users)
+      .where(and(eq(users.id, sellerId), eq(users.userType, "seller")))
+      .limit(1);
+
+    if (!result[0]) {
+      return null;
+    }
+
+    const { ratingAverage, ratingCount, ...seller } = result[0];
+    const responseStats = await getResponseStats(sellerId);
+
+    return {
+      ...seller,
+      rating: { average: ratingAverage, count: ratingCount },
+      responseStats,
+    };
+  } catch (error) {
+    console.error("Error fetching seller storefront:", error);
+    throw new Error("Failed to fetch seller");
+  }
+}
+
+export async function getMyStorefrontProfile(): Promise<StorefrontProfile> {
+  const session = await requireSellerAuth();
+
+  const result = await db
+    .select({ bio: users.bio, avatarUrl: users.avatarUrl, city: users.city })
+    .from(users)
+    .where(eq(users.id, session.userId))
+    .limit(1);
+
+  return result[0] ?? { bio: null, avatarUrl: null, city: null };
+}
+
+// Save the seller's bio, city and avatar. A new avatar file replaces the old one and
+// "removeAvatar" clears it.
+export async function updateStorefrontProfile(formData: FormData) {
+  try {
+    const session = await requireSellerAuth();
+
+    const validatedData = storefrontSchema.parse({
+      bio: (formData.get("bio") as string | null) ?? undefined,
+      city: (formData.get("city") as string | null) ?? undefined,
+    });
+
+    const current = await db
+      .select({ avatarUrl: users.avatarUrl })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+    const previousAvatarUrl = current[0]?.avatarUrl ?? null;
+
+    let avatarUrl = previousAvatarUrl;
+    const avatarFile = formData.get("avatar");
+    if (avatarFile instanceof File && avatarFile.size > 0) {
+      const upload = await uploadImage(avatarFile, "avatar");
+      if (!upload.success) {
+        return { success: false, error: upload.error || "Failed to upload avatar" };
+      }
+      avatarUrl = upload.url;
+    } else if (formData.get("removeAvatar") === "true") {
+      avatarUrl = null;
+    }
+
+    await db
+      .update(users)
+      .set({
+        bio: validatedData.bio || null,
+        city: validatedData.city || null,
+        avatarUrl,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, session.userId));
+
+    if (previousAvatarUrl && previousAvatarUrl !== avatarUrl) {
+      await deleteImage(previousAvatarUrl);
+    }
+
+    revalidatePath("/seller/storefront");
+    revalidatePath(`/sellers/${session.userId}`);
+
+    return { success: true, message: "Storefront updated" };
+  } catch (error) {
+    console.error("Error updating storefront:", error);
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues[0]?.message || "Invalid storefront details" };
+    }
+
+    return { success: false, error: "Failed to update storefront" };
+  }
+}
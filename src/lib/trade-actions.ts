@@ -0,0 +1,408 @@
+"use server";
+
+import { z } from "zod";
+import { db, type DbExecutor } from "@/db";
+import { runInTransaction } from "@/db/transaction";
+import { products, tradeItems, trades, users } from "@/db/schema";
+import { and, count, desc, eq, gt, inArray, isNull, or } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { tradeProposalSchema } from "./validation-schemas";
+import { expireStaleTrades, tradeExpiresAt } from "./trade-expiry";
+import { revalidatePath } from "next/cache";
+
+export type TradeStatus = 'pending' | 'completed' | 'declined' | 'cancelled' | 'expired';
+
+export interface TradeListing {
+  id: string;
+  name: string;
+  price: string;
+  image: string | null;
+}
+
+export interface TradeSummary {
+  id: string;
+  // Whether the current user proposed the trade or received it
+  direction: 'sent' | 'received';
+  status: TradeStatus;
+  cashTopUp: string;
+  message: string | null;
+  createdAt: Date;
+  respondedAt: Date | null;
+  counterpart: {
+    name: string;
+  };
+  targetProduct: TradeListing;
+  offeredProducts: TradeListing[];
+}
+
+// Each open proposal reserves listings on both sides, so one seller can only have a few at a time
+const MAX_OPEN_TRADE_PROPOSALS = 5;
+
+function revalidateTradePaths() {
+  revalidatePath("/seller/trades");
+  revalidatePath("/seller/products");
+  revalidatePath("/seller");
+}
+
+// Lift the reservation a pending trade holds on its listings
+async function releaseTradeListings(tradeId: string, executor: DbExecutor) {
+  await executor
+    .update(products)
+    .set({ reservedForTradeId: null, updatedAt: new Date() })
+    .where(eq(products.reservedForTradeId, tradeId));
+}
+
+// Offer some of your own listings, plus optional cash, for another user's listing.
+// Every listing involved is reserved until the trade is accepted, declined, cancelled or expires.
+export async function proposeTrade(
+  targetProductId: string,
+  data: { offeredProductIds: string[]; cashTopUp: number; message?: string }
+) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to propose a trade");
+    }
+
+    if (user.role !== "seller") {
+      throw new Error("You need listings of your own to propose a trade");
+    }
+
+    const validatedData = tradeProposalSchema.parse(data);
+    const offeredProductIds = [...new Set(validatedData.offeredProductIds)];
+
+    await runInTransaction(async (tx) => {
+      // Lock the proposer so parallel proposals can't both slip under the cap
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, user.userId)).for("update");
+
+      await expireStaleTrades({ userId: user.userId }, tx);
+      // A lapsed proposal by someone else mustn't block this one
+      await expireStaleTrades({ productIds: [targetProductId, ...offeredProductIds] }, tx);
+
+      const openProposals = await tx
+        .select({ count: count() })
+        .from(trades)
+        .where(and(eq(trades.proposerId, user.userId), eq(trades.status, "pending")));
+
+      if ((openProposals[0]?.count ?? 0) >= MAX_OPEN_TRADE_PROPOSALS) {
+        throw new Error(
+          `You can have up to ${MAX_OPEN_TRADE_PROPOSALS} open trade proposals, wait for an answer or cancel one first`
+        );
+      }
+
+      const target = await tx
+        .select({ id: products.id, sellerId: products.sellerId })
+        .from(products)
+        .where(
+          and(
+            eq(products.id, targetProductId),
+            eq(products.isActive, true),
+            gt(products.availableQuantity, 0)
+          )
+        )
+        .limit(1);
+
+      if (!target[0]) {
+        throw new Error("Product not found or unavailable");
+      }
+
+      if (target[0].sellerId === user.userId) {
+        throw new Error("You can't trade for your own listing");
+      }
+
+      const [trade] = await tx
+        .insert(trades)
+        .values({
+          proposerId: user.userId,
+          recipientId: target[0].sellerId,
+          targetProductId,
+          cashTopUp: validatedData.cashTopUp.toString(),
+          message: validatedData.message || null,
+          expiresAt: tradeExpiresAt(),
+        })
+        .returning({ id: trades.id });
+
+      // Reserve the target first: one open proposal per listing, first come first served
+      const reservedTarget = await tx
+        .update(products)
+        .set({ reservedForTradeId: trade.id, updatedAt: new Date() })
+        .where(
+          and(
+            eq(products.id, targetProductId),
+            eq(products.isActive, true),
+            gt(products.availableQuantity, 0),
+            isNull(products.reservedForTradeId)
+          )
+        )
+        .returning({ id: products.id });
+
+      if (!reservedTarget[0]) {
+        throw new Error("This listing already has a trade under negotiation");
+      }
+
+      const reservedOwn = await tx
+        .update(products)
+        .set({ reservedForTradeId: trade.id, updatedAt: new Date() })
+        .where(
+          and(
+            inArray(products.id, offeredProductIds),
+            eq(products.sellerId, user.userId),
+            eq(products.isActive, true),
+            gt(products.availableQuantity, 0),
+            isNull(products.reservedForTradeId)
+          )
+        )
+        .returning({ id: products.id });
+
+      if (reservedOwn.length !== offeredProductIds.length) {
+        throw new Error("Some of your listings are sold out, inactive or already part of another trade");
+      }
+
+      await tx.insert(tradeItems).values(
+        offeredProductIds.map(productId => ({ tradeId: trade.id, productId }))
+      );
+    }, { isolationLevel: "read committed" });
+
+    revalidateTradePaths();
+    return { success: true, message: "Trade proposal sent" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(error.issues[0]?.message || "Invalid trade proposal");
+    }
+    console.error("Error proposing trade:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to propose trade");
+  }
+}
+
+// The recipient accepts or declines. Accepting completes the swap and takes every listing
+// involved off the market; declining puts them all back on sale.
+export async function respondToTrade(tradeId: string, action: 'accept' | 'decline') {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to respond to trades");
+    }
+
+    await expireStaleTrades({ userId: user.userId });
+
+    const message = await runInTransaction(async (tx) => {
+      const result = await tx
+        .select()
+        .from(trades)
+        .where(and(eq(trades.id, tradeId), eq(trades.recipientId, user.userId)))
+        .limit(1)
+        .for("update");
+
+      const trade = result[0];
+      if (!trade) {
+        throw new Error("Trade not found");
+      }
+
+      if (trade.status === "expired") {
+        throw new Error("This trade proposal has expired");
+      }
+
+      if (trade.status !== "pending") {
+        throw new Error(`This trade was already ${trade.status}`);
+      }
+
+      const now = new Date();
+      await tx
+        .update(trades)
+        .set({ status: action === "accept" ? "completed" : "declined", respondedAt: now, updatedAt: now })
+        .where(eq(trades.id, tradeId));
+
+      if (action === "decline") {
+        await releaseTradeListings(tradeId, tx);
+        return "Trade declined";
+      }
+
+      await tx
+        .update(products)
+        .set({ isActive: false, reservedForTradeId: null, updatedAt: now })
+        .where(eq(products.reservedForTradeId, tradeId));
+
+      return "Trade accepted, both listings are now off the market";
+    }, { isolationLevel: "read committed" });
+
+    revalidateTradePaths();
+    return { success: true, message };
+  } catch (error) {
+    console.error("Error responding to trade:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to respond to trade");
+  }
+}
+
+export async function cancelTrade(tradeId: string) {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      throw new Error("You must be logged in to cancel a trade");
+    }
+
+    await runInTransaction(async (tx) => {
+      const cancelled = await tx
+        .update(trades)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(
+          and(
+            eq(trades.id, tradeId),
+            eq(trades.proposerId, user.userId),
+            eq(trades.status, "pending")
+          )
+        )
+        .returning({ id: trades.id });
+
+      if (!cancelled[0]) {
+        throw new Error("Only pending trades can be cancelled");
+      }
+
+      await releaseTradeListings(tradeId, tx);
+    }, { isolationLevel: "read committed" });
+
+    revalidateTradePaths();
+    return { success: true, message: "Trade cancelled" };
+  } catch (error) {
+    console.error("Error cancelling trade:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to cancel trade");
+  }
+}
+
+// The current seller's listings that can still be put into a trade
+export async function getTradeableListings(): Promise<TradeListing[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn || user.role !== "seller") {
+      return [];
+    }
+
+    await expireStaleTrades({ userId: user.userId });
+
+    const result = await db
+      .select({
+        id: products.id,
+        name: products.name,
+        price: products.price,
+        images: products.images,
+      })
+      .from(products)
+      .where(
+        and(
+          eq(products.sellerId, user.userId),
+          eq(products.isActive, true),
+          gt(products.availableQuantity, 0),
+          isNull(products.reservedForTradeId)
+        )
+      )
+      .orderBy(desc(products.createdAt));
+
+    return result.map(({ images, ...listing }) => ({ ...listing, image: images?.[0] ?? null }));
+  } catch (error) {
+    console.error("Error fetching tradeable listings:", error);
+    throw new Error("Failed to fetch your listings");
+  }
+}
+
+export async function getMyTrades(): Promise<TradeSummary[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    await expireStaleTrades({ userId: user.userId });
+
+    const tradeRows = await db
+      .select({
+        trade: trades,
+        proposerName: users.name,
+        target: {
+          id: products.id,
+          name: products.name,
+          price: products.price,
+          images: products.images,
+        },
+      })
+      .from(trades)
+      .innerJoin(users, eq(trades.proposerId, users.id))
+      .innerJoin(products, eq(trades.targetProductId, products.id))
+      .where(or(eq(trades.proposerId, user.userId), eq(trades.recipientId, user.userId)))
+      .orderBy(desc(trades.updatedAt));
+
+    if (tradeRows.length === 0) {
+      return [];
+    }
+
+    const tradeIds = tradeRows.map(row => row.trade.id);
+    const recipientIds = [...new Set(tradeRows.map(row => row.trade.recipientId))];
+
+    const [offeredRows, recipients] = await Promise.all([
+      db
+        .select({
+          tradeId: tradeItems.tradeId,
+          id: products.id,
+          name: products.name,
+          price: products.price,
+          images: products.images,
+        })
+        .from(tradeItems)
+        .innerJoin(products, eq(tradeItems.productId, products.id))
+        .where(inArray(tradeItems.tradeId, tradeIds)),
+      db
+        .select({ id: users.id, name: users.name })
+        .from(users)
+        .where(inArray(users.id, recipientIds)),
+    ]);
+
+    const offeredByTrade = new Map<string, TradeListing[]>();
+    for (const { tradeId, images, ...listing } of offeredRows) {
+      const listings = offeredByTrade.get(tradeId) || [];
+      listings.push({ ...listing, image: images?.[0] ?? null });
+      offeredByTrade.set(tradeId, listings);
+    }
+    const recipientNames = new Map(recipients.map(recipient => [recipient.id, recipient.name]));
+
+    return tradeRows.map(({ trade, proposerName, target: { images, ...target } }) => {
+      const direction = trade.proposerId === user.userId ? 'sent' : 'received';
+      return {
+        id: trade.id,
+        direction,
+        status: trade.status,
+        cashTopUp: trade.cashTopUp,
+        message: trade.message,
+        createdAt: trade.createdAt,
+        respondedAt: trade.respondedAt,
+        counterpart: {
+          name: direction === 'sent' ? recipientNames.get(trade.recipientId) || "" : proposerName,
+        },
+        targetProduct: { ...target, image: images?.[0] ?? null },
+        offeredProducts: offeredByTrade.get(trade.id) || [],
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching trades:", error);
+    throw new Error("Failed to fetch trades");
+  }
+}
+
+// Proposals waiting on the current user's answer, used by the nav badge so it never throws
+export async function getPendingTradeCount(): Promise<number> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return 0;
+    }
+
+    await expireStaleTrades({ userId: user.userId });
+
+    const result = await db
+      .select({ count: count() })
+      .from(trades)
+      .where(and(eq(trades.recipientId, user.userId), eq(trades.status, "pending")));
+
+    return result[0]?.count ?? 0;
+  } catch (error) {
+    console.error("Error counting trades:", error);
+    return 0;
+  }
+}
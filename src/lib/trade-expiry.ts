@@ -0,0 +1,54 @@
+import { db, type DbExecutor } from "@/db";
+import { products, trades } from "@/db/schema";
+import { and, eq, inArray, lt, or } from "drizzle-orm";
+
+// Server-only expiry for trade proposals. A pending trade holds a reservation on every listing
+// in it, so trades are expired lazily like offers, and also from anywhere a reservation is checked
+// so a stale proposal can't keep a listing off the market.
+
+// How long a proposal waits for an answer, unless TRADE_EXPIRY_HOURS is set
+const DEFAULT_TRADE_EXPIRY_HOURS = 72;
+
+export function tradeExpiresAt() {
+  const hours = Number(process.env.TRADE_EXPIRY_HOURS) || DEFAULT_TRADE_EXPIRY_HOURS;
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+// Expire the overdue pending trades of one user, or the ones reserving any of the given listings,
+// and lift every reservation they held
+export async function expireStaleTrades(
+  scope: { userId: string } | { productIds: string[] },
+  executor: DbExecutor = db
+) {
+  if ('productIds' in scope && scope.productIds.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const expired = await executor
+    .update(trades)
+    .set({ status: 'expired', updatedAt: now })
+    .where(
+      and(
+        'userId' in scope
+          ? or(eq(trades.proposerId, scope.userId), eq(trades.recipientId, scope.userId))
+          : inArray(
+              trades.id,
+              db
+                .select({ id: products.reservedForTradeId })
+                .from(products)
+                .where(inArray(products.id, scope.productIds))
+            ),
+        eq(trades.status, 'pending'),
+        lt(trades.expiresAt, now)
+      )
+    )
+    .returning({ id: trades.id });
+
+  if (expired.length > 0) {
+    await executor
+      .update(products)
+      .set({ reservedForTradeId: null, updatedAt: now })
+      .where(inArray(products.reservedForTradeId, expired.map(trade => trade.id)));
+  }
+}
@@ -1,6 +1,26 @@
 "use server";
 
-import { getSession } from "@/lib/session";
+import { z } from "zod";
+import bcrypt from "bcryptjs";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { and, eq, ne } from "drizzle-orm";
+import { getCurrentSessionId, getSession, revokeUserSessions } from "@/lib/session";
+import { accountProfileSchema, emailChangeSchema, passwordChangeSchema } from "./validation-schemas";
+import { revalidatePath } from "next/cache";
+import { issueEmailVerification } from "./email-verification";
+
+export interface AccountSettings {
+  name: string;
+  email: string;
+  phone: string | null;
+  role: 'buyer' | 'seller';
+  defaultLocation: string | null;
+  defaultContactNumber: string | null;
+  emailVerifiedAt: Date | null;
+  // Waiting for the user to open the link sent there
+  pendingEmail: string | null;
+}
 
 export async function getCurrentUser() {
   try {
@@ -8,11 +28,18 @@ export async function getCurrentUser() {
     if (!session.isLoggedIn) {
       return null;
     }
+
+    const result = await db
+      .select({ phone: users.phone })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
     return {
       userId: session.userId,
       name: session.name,
       email: session.email,
-      phone: "", // We don't store phone in session, will need to get from database if needed
+      phone: result[0]?.phone || "",
       role: session.role,
     };
   } catch (error) {
@@ -20,3 +47,176 @@ export async function getCurrentUser() {
     return null;
   }
 }
+
+export async function getAccountSettings(): Promise<AccountSettings | null> {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return null;
+    }
+
+    const result = await db
+      .select({
+        name: users.name,
+        email: users.email,
+        phone: users.phone,
+        role: users.userType,
+        defaultLocation: users.defaultLocation,
+        defaultContactNumber: users.defaultContactNumber,
+        emailVerifiedAt: users.emailVerifiedAt,
+        pendingEmail: users.pendingEmail,
+      })
+      .from(users)
+      .where(eq(users.id, session.userId))
+      .limit(1);
+
+    return result[0] || null;
+  } catch (error) {
+    console.error("Error fetching account settings:", error);
+    return null;
+  }
+}
+
+// Check the password the user typed against the stored hash before a sensitive change
+async function verifyCurrentPassword(userId: string, password: string) {
+  const result = await db
+    .select({ password: users.password })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return !!result[0] && bcrypt.compare(password, result[0].password);
+}
+
+export async function updateProfile(data: {
+  name: string;
+  phone?: string;
+  defaultLocation?: string;
+  defaultContactNumber?: string;
+}) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to update your profile" };
+    }
+
+    const validatedData = accountProfileSchema.parse(data);
+
+    await db
+      .update(users)
+      .set({
+        name: validatedData.name,
+        phone: validatedData.phone || null,
+        defaultLocation: validatedData.defaultLocation || null,
+        defaultContactNumber: validatedData.defaultContactNumber || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, session.userId));
+
+    revalidatePath("/account/settings");
+    return { success: true, message: "Profile updated" };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Error updating profile:", error);
+    return { success: false, error: "Failed to update profile" };
+  }
+}
+
+// The current address keeps working until the new one is confirmed from the link sent to it
+export async function changeEmail(data: { email: string; currentPassword: string }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to change your email" };
+    }
+
+    const validatedData = emailChangeSchema.parse(data);
+    const email = validatedData.email.toLowerCase();
+
+    if (email === session.email) {
+      return { success: false, error: "That's already your email address" };
+    }
+
+    if (!(await verifyCurrentPassword(session.userId, validatedData.currentPassword))) {
+      return { success: false, error: "Current password is incorrect" };
+    }
+
+    const existingUser = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.email, email), ne(users.id, session.userId)))
+      .limit(1);
+
+    if (existingUser.length > 0) {
+      return { success: false, error: "User with this email already exists" };
+    }
+
+    await db
+      .update(users)
+      .set({ pendingEmail: email, updatedAt: new Date() })
+      .where(eq(users.id, session.userId));
+
+    try {
+      await issueEmailVerification({ id: session.userId, email, name: session.name });
+    } catch (error) {
+      console.error("Verification email error:", error);
+      return { success: false, error: `We couldn't send a confirmation link to ${email}, please try again` };
+    }
+
+    revalidatePath("/account/settings");
+    return {
+      success: true,
+      message: `We sent a confirmation link to ${email}. Your email changes once you open it`,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Error changing email:", error);
+    return { success: false, error: "Failed to change email" };
+  }
+}
+
+// Changing the password signs out every other device
+export async function changePassword(data: {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn) {
+      return { success: false, error: "You must be logged in to change your password" };
+    }
+
+    const validatedData = passwordChangeSchema.parse(data);
+
+    if (!(await verifyCurrentPassword(session.userId, validatedData.currentPassword))) {
+      return { success: false, error: "Current password is incorrect" };
+    }
+
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 12);
+
+    await db
+      .update(users)
+      .set({ password: hashedPassword, updatedAt: new Date() })
+      .where(eq(users.id, session.userId));
+
+    const currentSessionId = await getCurrentSessionId();
+    await revokeUserSessions(session.userId, currentSessionId || undefined);
+
+    revalidatePath("/account/sessions");
+    return { success: true, message: "Password changed. Other devices have been signed out." };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const firstError = error.issues[0];
+      return { success: false, error: firstError?.message || "Validation failed" };
+    }
+    console.error("Error changing password:", error);
+    return { success: false, error: "Failed to change password" };
+  }
+}
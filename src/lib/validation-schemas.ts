@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { orderPrefixPattern } from "./order-number";
+import { productSortModes } from "./product-sort";
+import { hasSavedSearchCriteria } from "./saved-search-filters";
 
 export const productSchema = z.object({
   name: z.string()
@@ -36,6 +39,11 @@ export const productSchema = z.object({
     .regex(/^(\+94|0)[1-9][0-9]{8}$/, "Please enter a valid Sri Lankan phone number")
     .min(10, "Phone number must be at least 10 digits")
     .max(12, "Phone number must be less than 12 digits"),
+
+  availableQuantity: z.number()
+    .int("Quantity must be a whole number")
+    .min(0, "Quantity cannot be negative")
+    .max(10000, "Quantity cannot exceed 10,000"),
 });
 
 export const productFormSchema = productSchema.extend({
@@ -53,9 +61,163 @@ export const imageUploadSchema = z.object({
     ),
 });
 
+export const orderItemRejectionSchema = z.object({
+  reason: z.string()
+    .trim()
+    .min(3, "Please give a reason for rejecting this item")
+    .max(500, "Reason must be less than 500 characters"),
+});
+
+export const returnRequestSchema = z.object({
+  reason: z.string()
+    .trim()
+    .min(10, "Please describe why you want to return this order")
+    .max(500, "Reason must be less than 500 characters"),
+});
+
+export const orderStatusNoteSchema = z.string()
+  .trim()
+  .max(500, "Note must be less than 500 characters")
+  .optional();
+
+export const orderPrefixSchema = z.object({
+  prefix: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(orderPrefixPattern, "Prefix must be 2 to 6 letters")
+    .or(z.literal(""))
+    .transform(value => value || null),
+});
+
+export const messageSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, "Message can't be empty")
+    .max(2000, "Message must be less than 2000 characters"),
+});
+
+export const offerSchema = z.object({
+  amount: z.number()
+    .min(1, "Offer must be at least 1 LKR")
+    .max(10000000, "Offer must be less than 10,000,000 LKR"),
+  quantity: z.number()
+    .int("Quantity must be a whole number")
+    .min(1, "Quantity must be at least 1"),
+  message: z.string()
+    .trim()
+    .max(500, "Message must be less than 500 characters")
+    .optional(),
+});
+
+export const tradeProposalSchema = z.object({
+  offeredProductIds: z.array(z.string().uuid())
+    .min(1, "Pick at least one of your listings to trade")
+    .max(5, "You can offer up to 5 listings in one trade"),
+  cashTopUp: z.number()
+    .min(0, "Cash top-up cannot be negative")
+    .max(10000000, "Cash top-up must be less than 10,000,000 LKR"),
+  message: z.string()
+    .trim()
+    .max(500, "Message must be less than 500 characters")
+    .optional(),
+});
+
+export const reviewSchema = z.object({
+  rating: z.number()
+    .int("Rating must be a whole number of stars")
+    .min(1, "Please give at least 1 star")
+    .max(5, "Rating can't be more than 5 stars"),
+  comment: z.string()
+    .trim()
+    .max(1000, "Review must be less than 1000 characters")
+    .optional(),
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string()
+    .trim()
+    .min(2, "Reply can't be empty")
+    .max(1000, "Reply must be less than 1000 characters"),
+});
+
+export const storefrontSchema = z.object({
+  bio: z.string()
+    .trim()
+    .max(500, "Bio must be less than 500 characters")
+    .optional(),
+  city: z.string()
+    .trim()
+    .max(100, "City must be less than 100 characters")
+    .optional(),
+});
+
+const sriLankanPhoneNumber = z.string()
+  .regex(/^(\+94|0)[1-9][0-9]{8}$/, "Please enter a valid Sri Lankan phone number");
+
+export const accountProfileSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  phone: sriLankanPhoneNumber.optional().or(z.literal("")),
+  defaultLocation: z.string().trim().max(100, "Location must be less than 100 characters").optional(),
+  defaultContactNumber: sriLankanPhoneNumber.optional().or(z.literal("")),
+});
+
+export const emailChangeSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+  currentPassword: z.string().min(1, "Enter your current password to change your email"),
+});
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const phoneVerificationRequestSchema = z.object({
+  phoneNumber: sriLankanPhoneNumber,
+});
+
+export const phoneVerificationCodeSchema = z.object({
+  phoneNumber: sriLankanPhoneNumber,
+  code: z.string().trim().regex(/^[0-9]{6}$/, "Enter the 6-digit code we sent you"),
+});
+
+// Listing filters as saved from the buyer pages. Sort order is kept so opening the search
+// shows results the way they were saved, but it plays no part in matching new listings.
+export const savedSearchFiltersSchema = z.object({
+  search: z.string().trim().max(200, "Search must be less than 200 characters").optional(),
+  category: z.array(z.string().max(100)).max(20).optional(),
+  productType: z.enum(["household", "industrial"]).optional(),
+  condition: z.enum(["excellent", "good", "fair"]).optional(),
+  priceRange: z.object({
+    min: z.number().min(0),
+    max: z.number().min(0),
+  }).optional(),
+  location: z.array(z.string().max(100)).max(30).optional(),
+  sort: z.enum(productSortModes).optional(),
+  nearCity: z.string().max(100).optional(),
+}).refine(hasSavedSearchCriteria, {
+  message: "Search for something or pick a filter before saving",
+});
+
+export const savedSearchSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Give this search a name")
+    .max(100, "Name must be less than 100 characters"),
+  filters: savedSearchFiltersSchema,
+  emailDigest: z.boolean(),
+});
+
 export type ProductFormData = z.infer<typeof productFormSchema>;
 export type ProductInput = z.infer<typeof productSchema>;
 export type ImageUploadData = z.infer<typeof imageUploadSchema>;
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
 
 // Sri Lankan cities for location dropdown
 export const sriLankanCities = [
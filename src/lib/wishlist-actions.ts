@@ -0,0 +1,190 @@
+"use server";
+
+import { db } from "@/db";
+import { wishlist, products, users } from "@/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { getSession } from "@/lib/session";
+import { revalidatePath } from "next/cache";
+
+export interface WishlistItem {
+  id: string;
+  addedAt: Date;
+  priceAtAdd: string;
+  // Set when the listing was deactivated or sold out since it was saved
+  isUnavailable: boolean;
+  priceChange: 'dropped' | 'increased' | null;
+  product: {
+    id: string;
+    name: string;
+    description: string;
+    category: string;
+    condition: string;
+    price: string;
+    images: string[] | null;
+    location: string;
+    isActive: boolean;
+    availableQuantity: number;
+    seller: {
+      name: string;
+    };
+  };
+}
+
+async function requireBuyerSession(action: string) {
+  const user = await getSession();
+  if (!user.isLoggedIn) {
+    throw new Error(`You must be logged in to ${action}`);
+  }
+
+  if (user.role !== "buyer") {
+    throw new Error("Only buyers can use the wishlist");
+  }
+
+  return user;
+}
+
+export async function addToWishlist(productId: string) {
+  try {
+    const user = await requireBuyerSession("save items");
+
+    // Check if product exists and is active
+    const product = await db
+      .select({ id: products.id, price: products.price })
+      .from(products)
+      .where(and(eq(products.id, productId), eq(products.isActive, true)))
+      .limit(1);
+
+    if (!product[0]) {
+      throw new Error("Product not found or unavailable");
+    }
+
+    // Saving an item twice is a no-op
+    await db
+      .insert(wishlist)
+      .values({
+        buyerId: user.userId,
+        productId,
+        priceAtAdd: product[0].price,
+      })
+      .onConflictDoNothing({ target: [wishlist.buyerId, wishlist.productId] });
+
+    revalidatePath("/buyer/wishlist");
+    return { success: true, message: "Saved to your wishlist" };
+  } catch (error) {
+    console.error("Error adding to wishlist:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to save item");
+  }
+}
+
+export async function removeFromWishlist(productId: string) {
+  try {
+    const user = await requireBuyerSession("update your wishlist");
+
+    await db
+      .delete(wishlist)
+      .where(and(eq(wishlist.buyerId, user.userId), eq(wishlist.productId, productId)));
+
+    revalidatePath("/buyer/wishlist");
+    return { success: true, message: "Removed from your wishlist" };
+  } catch (error) {
+    console.error("Error removing from wishlist:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to remove item");
+  }
+}
+
+// Flip the saved state of a product, used by the heart buttons
+export async function toggleWishlist(productId: string) {
+  try {
+    const user = await requireBuyerSession("save items");
+
+    const existing = await db
+      .select({ id: wishlist.id })
+      .from(wishlist)
+      .where(and(eq(wishlist.buyerId, user.userId), eq(wishlist.productId, productId)))
+      .limit(1);
+
+    if (existing[0]) {
+      const result = await removeFromWishlist(productId);
+      return { ...result, isWishlisted: false };
+    }
+
+    const result = await addToWishlist(productId);
+    return { ...result, isWishlisted: true };
+  } catch (error) {
+    console.error("Error toggling wishlist:", error);
+    throw new Error(error instanceof Error ? error.message : "Failed to update wishlist");
+  }
+}
+
+export async function getWishlistItems(): Promise<WishlistItem[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn) {
+      return [];
+    }
+
+    // Inactive products are kept so the buyer can see what happened to them
+    const result = await db
+      .select({
+        id: wishlist.id,
+        addedAt: wishlist.addedAt,
+        priceAtAdd: wishlist.priceAtAdd,
+        product: {
+          id: products.id,
+          name: products.name,
+          description: products.description,
+          category: products.category,
+          condition: products.condition,
+          price: products.price,
+          images: products.images,
+          location: products.location,
+          isActive: products.isActive,
+          availableQuantity: products.availableQuantity,
+        },
+        sellerName: users.name,
+      })
+      .from(wishlist)
+      .innerJoin(products, eq(wishlist.productId, products.id))
+      .innerJoin(users, eq(products.sellerId, users.id))
+      .where(eq(wishlist.buyerId, user.userId))
+      .orderBy(sql`${wishlist.addedAt} DESC`);
+
+    return result.map(({ sellerName, ...item }) => {
+      const currentPrice = parseFloat(item.product.price);
+      const savedPrice = parseFloat(item.priceAtAdd);
+
+      return {
+        ...item,
+        isUnavailable: !item.product.isActive || item.product.availableQuantity <= 0,
+        priceChange: currentPrice < savedPrice ? 'dropped' : currentPrice > savedPrice ? 'increased' : null,
+        product: {
+          ...item.product,
+          seller: { name: sellerName },
+        },
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching wishlist:", error);
+    throw new Error("Failed to fetch wishlist");
+  }
+}
+
+// Ids of the products the buyer saved, so product lists can fill in their hearts
+export async function getWishlistProductIds(): Promise<string[]> {
+  try {
+    const user = await getSession();
+    if (!user.isLoggedIn || user.role !== "buyer") {
+      return [];
+    }
+
+    const result = await db
+      .select({ productId: wishlist.productId })
+      .from(wishlist)
+      .where(eq(wishlist.buyerId, user.userId));
+
+    return result.map(item => item.productId);
+  } catch (error) {
+    console.error("Error fetching wishlist ids:", error);
+    return [];
+  }
+}